@@ -0,0 +1,190 @@
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { setBusinessTimeZone, todayISO } from "../src/dates";
+import { categorySpend, monthSummaries, overdueInvoices, periodSummaries } from "../src/engine";
+import { balancesByAccount, reportingConverter, type FxRate } from "../src/ledger";
+import type { Case } from "../src/model";
+import { DEFAULT_CALENDAR, isPeriodKey, lockFor, monthsIn, periodRange, periodTitle, type FiscalUnit } from "../src/periods";
+import { parseBackup } from "../src/validate";
+
+/* =========================
+   Ledger reports on the command line
+   ========================= */
+// Reads an exported workspace (or the sync server's data file) and prints case figures.
+//
+//   npm run ledger -- <workspace.json> <report> [options]
+//
+// Reports:
+//   balances   account balances per case
+//   overdue    overdue and missed invoices with what is still owed
+//   spend      spending per category and subcategory
+//   months     invoiced, received and paid out per calendar month
+//   periods    the same per fiscal month or quarter, with which are closed
+//
+// Options:
+//   --case <id or Donation ID>   only this case
+//   --month <YYYY-MM>            spend and months: only this month
+//   --from / --to <YYYY-MM-DD>   spend: only expenses in this range
+//   --period <FY2027-Q1>         spend and periods: only this fiscal month (FY2027-M03) or quarter
+//   --by <month|quarter>         periods: fiscal months or quarters (default quarter)
+//   --currency <code>            convert every amount into one currency
+//   --today <YYYY-MM-DD>         work out overdue invoices as of this date (default: today
+//                                in the workspace's business time zone)
+//   --json                       print JSON instead of a table
+
+const USAGE = "Usage: npm run ledger -- <workspace.json> <balances|overdue|spend|months|periods> [--case ID] [--month YYYY-MM] [--from DATE] [--to DATE] [--period FY2027-Q1] [--by month|quarter] [--currency CODE] [--today DATE] [--json]";
+const REPORTS = ["balances", "overdue", "spend", "months", "periods"];
+
+type Cell = string | number;
+type Table = { columns: string[]; rows: Cell[][] };
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const money = (n: number) => n.toFixed(2);
+const caseName = (c: Case) => c.client || c.code || c.id;
+
+/** Plain-text table; numbers are right-aligned */
+const printTable = ({ columns, rows }: Table) => {
+  const widths = columns.map((col, i) => Math.max(col.length, ...rows.map((r) => String(r[i]).length)));
+  const line = (cells: Cell[]) => cells.map((cell, i) => (typeof cell === "number" || /^-?\d+(\.\d+)?$/.test(String(cell)) ? String(cell).padStart(widths[i]) : String(cell).padEnd(widths[i]))).join("  ").trimEnd();
+  console.log(line(columns));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  rows.forEach((r) => console.log(line(r)));
+  if (!rows.length) console.log("(nothing to show)");
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      case: { type: "string" },
+      month: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      period: { type: "string" },
+      by: { type: "string", default: "quarter" },
+      currency: { type: "string" },
+      today: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) return console.log(USAGE);
+  const [file, report] = positionals;
+  if (!file || !REPORTS.includes(report)) fail(USAGE);
+  if (values.month && !/^\d{4}-\d{2}$/.test(values.month)) fail("--month needs YYYY-MM");
+  for (const key of ["from", "to", "today"] as const) if (values[key] && !/^\d{4}-\d{2}-\d{2}$/.test(values[key]!)) fail(`--${key} needs YYYY-MM-DD`);
+  if (values.period && !isPeriodKey(values.period)) fail("--period needs a fiscal month or quarter, e.g. FY2027-M03 or FY2027-Q1");
+  if (values.by !== "month" && values.by !== "quarter") fail("--by needs month or quarter");
+  const by = values.by as FiscalUnit;
+
+  const text = await readFile(file, "utf8").catch((err: Error) => fail(`Could not read ${file}: ${err.message}`));
+  // the sync server keeps the workspace under { rev, workspace }
+  const raw = JSON.parse(text);
+  const parsed = parseBackup(JSON.stringify(raw && typeof raw === "object" && "rev" in raw && "workspace" in raw ? raw.workspace : raw));
+  parsed.issues.forEach((i) => console.error(`warning: ${i.path}: ${i.message}`));
+  const cases = parsed.cases.filter((c) => !values.case || c.id === values.case || c.code === values.case);
+  if (values.case && !cases.length) fail(`No case with id or Donation ID "${values.case}"`);
+  const calendar = parsed.calendar || DEFAULT_CALENDAR;
+  setBusinessTimeZone(calendar.timeZone);
+  const today = values.today || todayISO();
+  const period = values.period ? periodRange(values.period, calendar.fiscalYearStart) : null;
+
+  const missing = new Set<string>();
+  const converterFor = (c: Case, rates: FxRate[]) => {
+    const code = values.currency || c.reportingCurrency;
+    const fx = reportingConverter({ ...c, reportingCurrency: code }, rates);
+    return { fx, code, done: () => fx.missing.forEach((m) => missing.add(`${m}→${code}`)) };
+  };
+
+  const month = values.month;
+  const from = values.from || period?.from || (month ? `${month}-01` : "");
+  const to = values.to || period?.to || (month ? `${month}-31` : "9999-12-31");
+  let table: Table;
+  let json: unknown;
+
+  if (report === "balances") {
+    const rows = cases.flatMap((c) => {
+      const { fx, code, done } = converterFor(c, parsed.rates);
+      const balances = balancesByAccount(c, fx);
+      done();
+      return c.accounts.map((a) => ({ caseId: c.id, case: caseName(c), accountId: a.id, account: a.name, balance: balances[a.id] ?? a.balance, currency: code }));
+    });
+    json = rows;
+    table = { columns: ["Case", "Account", "Balance", "Currency"], rows: rows.map((r) => [r.case, r.account, money(r.balance), r.currency]) };
+  } else if (report === "overdue") {
+    const rows = cases.flatMap((c) => {
+      const { fx, code, done } = converterFor(c, parsed.rates);
+      const list = overdueInvoices(c, fx, today);
+      done();
+      return list.map((o) => ({
+        caseId: c.id,
+        case: caseName(c),
+        invoiceId: o.payment.id,
+        invoice: o.payment.invoiceNumber || o.payment.plan?.label || "",
+        dueDate: o.payment.dueDate,
+        daysLate: o.daysLate,
+        stage: o.stage,
+        remaining: o.remaining,
+        invoiceCurrency: o.currency,
+        converted: o.converted,
+        currency: code,
+      }));
+    });
+    json = rows;
+    table = {
+      columns: ["Case", "Invoice", "Due", "Days late", "Stage", "Outstanding", "Currency"],
+      rows: rows.map((r) => [r.case, r.invoice || "—", r.dueDate, r.daysLate, r.stage, money(r.remaining), r.invoiceCurrency]),
+    };
+  } else if (report === "spend") {
+    const rows = cases.flatMap((c) => {
+      const { fx, code, done } = converterFor(c, parsed.rates);
+      const list = categorySpend(c, fx, from, to);
+      done();
+      return list.map((s) => ({ caseId: c.id, case: caseName(c), ...s, currency: code }));
+    });
+    json = rows;
+    table = { columns: ["Case", "Category", "Subcategory", "Expenses", "Amount", "Currency"], rows: rows.map((r) => [r.case, r.category, r.subCategory || "", r.count, money(r.amount), r.currency]) };
+  } else if (report === "periods") {
+    const rows = cases.flatMap((c) => {
+      const { fx, code, done } = converterFor(c, parsed.rates);
+      const list = periodSummaries(c, fx, calendar.fiscalYearStart, by, today).filter((p) => !period || (p.from >= period.from && p.to <= period.to));
+      done();
+      return list.map((p) => ({
+        caseId: c.id,
+        case: caseName(c),
+        ...p,
+        title: periodTitle(p.period, calendar.fiscalYearStart),
+        closed: monthsIn(p.from, p.to).every((m) => lockFor(calendar, m)),
+        currency: code,
+      }));
+    });
+    json = rows;
+    table = {
+      columns: ["Case", "Period", "From", "To", "Invoiced", "Received", "Paid out", "Net", "Closed", "Currency"],
+      rows: rows.map((r) => [r.case, r.period, r.from, r.to, money(r.invoiced), money(r.received), money(r.paidOut), money(r.net), r.closed ? "yes" : "", r.currency]),
+    };
+  } else {
+    const rows = cases.flatMap((c) => {
+      const { fx, code, done } = converterFor(c, parsed.rates);
+      const list = monthSummaries(c, fx).filter((m) => !month || m.month === month);
+      done();
+      return list.map((m) => ({ caseId: c.id, case: caseName(c), ...m, currency: code }));
+    });
+    json = rows;
+    table = {
+      columns: ["Case", "Month", "Invoiced", "Received", "Paid out", "Net", "Currency"],
+      rows: rows.map((r) => [r.case, r.month, money(r.invoiced), money(r.received), money(r.paidOut), money(r.net), r.currency]),
+    };
+  }
+
+  // amounts to the cent, without floating-point tails
+  if (values.json) console.log(JSON.stringify(json, (_, v) => (typeof v === "number" ? Math.round(v * 100) / 100 : v), 2));
+  else printTable(table);
+  if (missing.size) console.error(`warning: no exchange rate for ${[...missing].join(", ")}; those amounts are counted 1:1`);
+};
+
+main().catch((err: Error) => fail(err.message));
@@ -0,0 +1,55 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/* =========================
+   Workspace store
+   ========================= */
+// The server keeps one workspace as a JSON file, the same shape the app saves locally.
+// Every write bumps `rev`; writers that say which revision they started from are
+// turned away when someone else wrote in between.
+
+export type Row = Record<string, unknown>;
+export type StoredWorkspace = Row & { version: number; cases: Row[] };
+export type Snapshot = { rev: number; updatedAt: string | null; workspace: StoredWorkspace | null };
+
+/** An error that carries the HTTP status it should be answered with */
+export const httpError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+export const openStore = async (file: string) => {
+  let snapshot: Snapshot = { rev: 0, updatedAt: null, workspace: null };
+  try {
+    snapshot = JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+
+  // written to a temp file first so a crash never leaves half a workspace behind
+  const persist = async (next: Snapshot) => {
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(next));
+    await rename(`${file}.tmp`, file);
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Change the workspace; writes run one at a time. With `ifRev`, the change is refused
+   * with 409 unless the workspace is still at that revision.
+   */
+  const update = <T>(change: (ws: StoredWorkspace | null) => { workspace: StoredWorkspace; result: T }, ifRev?: number) => {
+    const run = queue.then(async () => {
+      if (ifRev !== undefined && ifRev !== snapshot.rev) throw httpError(409, `Workspace is at revision ${snapshot.rev}, not ${ifRev}`);
+      const { workspace, result } = change(snapshot.workspace);
+      const next = { rev: snapshot.rev + 1, updatedAt: new Date().toISOString(), workspace };
+      await persist(next);
+      snapshot = next;
+      return { rev: next.rev, result };
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { get: () => snapshot, update };
+};
+
+export type Store = Awaited<ReturnType<typeof openStore>>;
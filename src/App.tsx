@@ -1,129 +1,74 @@
-import React, { useMemo, useState } from "react";
-
-/* =========================
-   Helpers
-   ========================= */
-const currency = (n: number) =>
-  new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(Number(n || 0));
-const todayISO = () => new Date().toISOString().slice(0, 10);
-const sameMonth = (iso: string) => {
-  const d = new Date(iso);
-  const n = new Date();
-  return d.getMonth() === n.getMonth() && d.getFullYear() === n.getFullYear();
-};
-const daysBetween = (a: string, b: string) =>
-  Math.ceil((new Date(b).getTime() - new Date(a).getTime()) / (1000 * 60 * 60 * 24));
-
-/* =========================
-   Categories (hierarchical)
-   ========================= */
-// main category -> subcategories
-export const CATEGORY_GROUPS: Record<string, readonly string[]> = {
-  // single-level categories
-  Essay: [],
-  Misc: [],
-  "Shipping.Courier": [],
-
-  // Medical with subs
-  Medical: [
-    "AMH",
-    "Genetic test",
-    "Hormones from stash",
-    "lab work",
-    "Meds.Hormones",
-    "Psych",
-    "Scans",
-  ],
-
-  // Travel with subs
-  Travel: [
-    "Accommodation",
-    "Flight",
-    "Baggage",
-    "Companion flight",
-    "rebooking",
-    "Ground Transport",
-    "Meals",
-    "Shuttle to&from airport",
-    "Stipend.Meals.Taxi.Petrol",
-    "Support Person",
-    "Travel Insurance",
-    "Visa",
-  ],
-};
-export const MAIN_CATEGORIES = Object.keys(CATEGORY_GROUPS) as (keyof typeof CATEGORY_GROUPS)[];
-
-/** Suggest a main/subcategory from free-text notes */
-const suggestCategory = (desc = ""): { main: string; sub?: string } => {
-  const d = desc.toLowerCase();
-  const match = (re: RegExp) => re.test(d);
-
-  // Travel
-  if (match(/(accommodation|hotel|airbnb|lodging)/)) return { main: "Travel", sub: "Accommodation" };
-  if (match(/(flight|airfare|ticket)/))              return { main: "Travel", sub: "Flight" };
-  if (match(/(baggage|luggage)/))                   return { main: "Travel", sub: "Baggage" };
-  if (match(/companion/))                           return { main: "Travel", sub: "Companion flight" };
-  if (match(/(rebook|change fee|rebooking)/))       return { main: "Travel", sub: "rebooking" };
-  if (match(/(ground transport|car hire|rental car|transport)/)) return { main: "Travel", sub: "Ground Transport" };
-  if (match(/(meal|food|dinner|lunch|breakfast)/))  return { main: "Travel", sub: "Meals" };
-  if (match(/(shuttle).*airport|airport shuttle/))  return { main: "Travel", sub: "Shuttle to&from airport" };
-  if (match(/(taxi|uber|lyft|petrol|gas)/))         return { main: "Travel", sub: "Stipend.Meals.Taxi.Petrol" };
-  if (match(/(support person|chaperone)/))          return { main: "Travel", sub: "Support Person" };
-  if (match(/(travel).*insurance|insurance/))       return { main: "Travel", sub: "Travel Insurance" };
-  if (match(/visa/))                                return { main: "Travel", sub: "Visa" };
-
-  // Medical
-  if (match(/\bamh\b/i))                             return { main: "Medical", sub: "AMH" };
-  if (match(/(genetic|karyotype|carrier)/))          return { main: "Medical", sub: "Genetic test" };
-  if (match(/(hormone).*(stash)|from stash/))        return { main: "Medical", sub: "Hormones from stash" };
-  if (match(/(hormone|progesterone|estradiol|meds?)/)) return { main: "Medical", sub: "Meds.Hormones" };
-  if (match(/(lab|blood|panel|cbc)/))                return { main: "Medical", sub: "lab work" };
-  if (match(/(scan|ultrasound|mri|sonogram)/))       return { main: "Medical", sub: "Scans" };
-  if (match(/(psych|counsel|therapy)/))              return { main: "Medical", sub: "Psych" };
-
-  // Others
-  if (match(/shipping|courier|fedex|dhl|ups/))       return { main: "Shipping.Courier" };
-  if (match(/essay/))                                return { main: "Essay" };
-  if (match(/medical|clinic|doctor|nurse/))          return { main: "Medical" };
-  if (match(/travel|trip|itinerary/))                return { main: "Travel" };
-
-  return { main: "Misc" };
-};
-
-/* =========================
-   Types
-   ========================= */
-export type Account = { id: string; name: string; balance: number };
-export type Expense = { id: string; date: string; amount: number; category: string; subCategory?: string; accountId: string; note?: string };
-export type Payment = {
-  id: string;
-  dueDate: string;
-  amount: number;
-  accountId: string;
-  status: "upcoming" | "completed" | "missed";
-  paidOn?: string;
-};
-export type Case = {
-  id: string;
-  code: string;
-  client: string;
-  donor: string;
-  accounts: Account[];
-  expenses: Expense[];
-  payments: Payment[];
-};
-
-/* =========================
-   Tone presets for reminders
-   ========================= */
-const tonePresets = {
-  polite: ({ client, amount, dueDate }: { client: string; amount: number; dueDate: string }) =>
-    `Hello ${client}, just a friendly reminder that a payment of ${currency(amount)} is due on ${dueDate}. Please let us know if you need anything.`,
-  urgent: ({ client, amount, dueDate }: { client: string; amount: number; dueDate: string }) =>
-    `URGENT: ${client}, ${currency(amount)} was due on ${dueDate}. Please complete payment today to avoid disruptions.`,
-  playful: ({ client, amount, dueDate }: { client: string; amount: number; dueDate: string }) =>
-    `Hi ${client}! Your ${currency(amount)} is doing a little "due-date dance" for ${dueDate}. Mind helping it find its way to us? 💃🕺`,
-};
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  allocatedByInvoice,
+  autoAllocate,
+  balancesByAccount,
+  caseTotals,
+  CURRENCIES,
+  currency,
+  invoiceState,
+  isReceipt,
+  openInvoices,
+  receiptAllocated,
+  receiptCredit,
+  recordCurrency,
+  reportingConverter,
+  type Converter,
+  type FxRate,
+} from "./ledger";
+import { ACCEPTED_TYPES, attachmentFor, fileSize, isImage, missingReceipt, rejectReason, type Attachment } from "./attachments";
+import { dateIn, isTimeZone, monthName, setBusinessTimeZone, todayISO } from "./dates";
+import { clientStatement, DEFAULT_DOCUMENT_SETTINGS, defaultLineItems, duplicateInvoiceNumbers, formatInvoiceNumber, invoiceHtml, statementHtml, type DocumentSettings, type DuplicateInvoiceNumber, type LineItem } from "./documents";
+import { caseKpis, periodSummaries, type PeriodSummary } from "./engine";
+import { AGING_BUCKETS, caseAging, cashFlowForecast, type Aging, type ForecastWeek, type PlannedExpense } from "./cashflow";
+import { caseStatuses, DEFAULT_STATUS_RULES, PAYMENT_STAGES, type OverrideStage, type PaymentStage, type PaymentStatus, type StatusRules } from "./status";
+import type { Account, Allocation, Case, Expense, Payment, Transfer } from "./model";
+import { SCHEMA_VERSION } from "./schema";
+import { blobToDataUrl, dataUrlToBlob, loadFile, loadWorkspace, saveFile, saveWorkspace } from "./storage";
+import { addConflicts, conflictValue, DEFAULT_SYNC, describeConflict, isOffline, keepLocal, rebase, syncWorkspace, type SyncConflict, type SyncedData, type SyncState } from "./sync";
+import { same } from "./merge";
+import { budgetKey, budgetWarnings, categoryVariance, type VarianceGroup, type VarianceLine } from "./budgets";
+import { currentStage, DEFAULT_LIFECYCLE, expenseStageId, stageAt, stageBudgets, type CaseStage, type LifecycleStage, type StageBudget } from "./lifecycle";
+import {
+  activeMains,
+  activeSubs,
+  addCategory,
+  categoryGroups,
+  DEFAULT_TAXONOMY,
+  isArchived,
+  mergeCategory,
+  moveCategory,
+  renameCategory,
+  resolveCategory,
+  setArchived,
+  type CategoryNode,
+  type CategoryPath,
+  type Taxonomy,
+} from "./taxonomy";
+import { deliver } from "./delivery";
+import { canDeliver, DEFAULT_DELIVERY, isEmail, MAX_ATTEMPTS, parseEmails, queueMessage, reminderSubject, scheduledReminders, type DeliverySettings, type OutboxMessage, type ReminderSchedule } from "./outbox";
+import { caseReminder, DEFAULT_REMINDER_TEMPLATES, logReminder, logSent, PLACEHOLDERS, remindersFor, unknownPlaceholders, type ReminderLogEntry, type ReminderTemplate } from "./reminders";
+import { DEFAULT_RULES, describeRule, learnKeyword, rulePattern, suggestCategory, type CategoryRule, type Suggestion } from "./rules";
+import {
+  CASE_FILTERS,
+  matchesFilter,
+  matchesSearch,
+  portfolioTotals,
+  sortSummaries,
+  summarizeCase,
+  type CaseFilter,
+  type CaseSummary,
+  type SortKey,
+} from "./portfolio";
+import { compensationCategory, compensationSchedule, donorOwed, isOpen, postPayable, rejectPayable, type DonorPayable } from "./payables";
+import { DEFAULT_CALENDAR, lockedCaseChange, lockedCasesChange, lockedChange, lockedRatesChange, lockFor, lockMonth, monthsIn, periodTitle, reopenMonth, type CalendarSettings, type FiscalUnit, type PeriodLock } from "./periods";
+import { changesBalance, clearedIn, discardReconciliation, lockReconciliation, openReconciliation, reconciliationHtml, reconcileState, startReconciliation, toggleCleared, updateReconciliation, type Reconciliation } from "./reconcile";
+import { applyPlan, DEFAULT_PLAN_TEMPLATES, planSchedule, shiftPlanDates, usesPercent, type PlanInstallment, type PlanTemplate } from "./plans";
+import { deleteRecord, diffFields, lastChange, recordHistory, undoLastChange, updateRecord, type ChangeEntry, type RecordKind } from "./history";
+import { DATE_FORMATS, duplicateReason, guessMapping, guessMoneyOut, mapRows, NUMBER_FORMATS, parseCsv, statementPostings, type ColumnMapping, type DateFormat, type MoneyOut, type NumberFormat } from "./statement";
+import { buildLedgerReport, ledgerCsv, ledgerHtml, periodsCsv } from "./report";
+import { applyImport, collectFiles, downloadFile, exportWorkspace, findCollisions, mergeCalendar, mergeDocumentSettings, mergeOutbox, mergeRates, mergeReminderTemplates, mergeRules, mergeStages, mergeTaxonomy, mergeTemplates, printHtml, type CollisionMode } from "./backup";
+import { parseBackup, type ParsedBackup } from "./validate";
 
 /* =========================
    Demo / Initial State
@@ -133,11 +78,25 @@ const blankCase = (): Case => ({
   code: "",
   client: "",
   donor: "",
+  reportingCurrency: "USD",
   accounts: [],
   expenses: [],
   payments: [],
+  transfers: [],
+  history: [],
+  statusRules: { ...DEFAULT_STATUS_RULES },
+  lifecycle: {},
+  categoryBudgets: {},
+  plannedExpenses: [],
+  reminderLog: [],
+  contactEmails: [],
+  reminderSchedules: [],
+  donorPayables: [],
+  reconciliations: [],
 });
 const initialCases: Case[] = [blankCase()];
+/** A starter case nobody has filled in */
+const isPlaceholder = (c: Case) => same({ ...c, id: "" }, { ...blankCase(), id: "" });
 
 /* =========================
    Tiny UI primitives
@@ -155,6 +114,33 @@ const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, ch
   </div>
 );
 
+/** Lifecycle stage picker; "" leaves it to the expense date */
+const LifecycleSelect: React.FC<{ stages: LifecycleStage[]; value: string; onChange: (id: string) => void }> = ({ stages, value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)}>
+    <option value="">by date</option>
+    {stages.map((s) => (
+      <option key={s.id} value={s.id}>{s.name}</option>
+    ))}
+  </select>
+);
+
+const CurrencySelect: React.FC<{ value: string; onChange: (code: string) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)}>
+    {[...new Set([value, ...CURRENCIES])].map((c) => (
+      <option key={c} value={c}>{c}</option>
+    ))}
+  </select>
+);
+
+const AccountSelect: React.FC<{ accounts: Account[]; value: string; onChange: (id: string) => void }> = ({ accounts, value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} disabled={accounts.length === 0}>
+    {accounts.length === 0 && <option value="">(no account)</option>}
+    {accounts.map((a) => (
+      <option key={a.id} value={a.id}>{a.name}</option>
+    ))}
+  </select>
+);
+
 /* =========================
    Forms
    ========================= */
@@ -162,6 +148,7 @@ function NewCaseForm({ onCreate }: { onCreate: (payload: Partial<Case> & { accou
   const [client, setClient] = useState("");
   const [donor, setDonor] = useState("");
   const [code, setCode] = useState("");
+  const [reportingCurrency, setReportingCurrency] = useState("USD");
   const [accountName, setAccountName] = useState("Client Escrow");
   const [balance, setBalance] = useState(0);
 
@@ -170,6 +157,7 @@ function NewCaseForm({ onCreate }: { onCreate: (payload: Partial<Case> & { accou
       <Row label="Client"><input value={client} onChange={(e) => setClient(e.target.value)} placeholder="e.g., The Parkers" /></Row>
       <Row label="Donor"><input value={donor} onChange={(e) => setDonor(e.target.value)} placeholder="e.g., Donor X15" /></Row>
       <Row label="Donation ID"><input value={code} onChange={(e) => setCode(e.target.value)} placeholder="e.g., DN-000000123" /></Row>
+      <Row label="Currency"><CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} /></Row>
       <Row label="Init. Account"><input value={accountName} onChange={(e) => setAccountName(e.target.value)} /></Row>
       <Row label="Start Balance"><input type="number" value={balance} onChange={(e) => setBalance(Number(e.target.value))} /></Row>
       <div style={{ display: "flex", justifyContent: "flex-end" }}>
@@ -179,7 +167,8 @@ function NewCaseForm({ onCreate }: { onCreate: (payload: Partial<Case> & { accou
               client,
               donor,
               code,
-              accounts: [{ id: `acc-${Date.now()}`, name: accountName, balance: Number(balance) || 0 }],
+              reportingCurrency,
+              accounts: [{ id: `acc-${Math.random().toString(36).slice(2)}`, name: accountName, balance: Number(balance) || 0 }],
             })
           }
           style={btnPrimary}
@@ -203,28 +192,60 @@ function AddAccountForm({ onAdd }: { onAdd: (name: string, balance: number) => v
   );
 }
 
-function ExpenseForm({ accounts, onAdd }: { accounts: Account[]; onAdd: (payload: Omit<Expense, "id">) => void }) {
+function ExpenseForm({ accounts, stages, taxonomy, defaultCurrency, suggest, warningsFor, onAdd, onLearn }: {
+  accounts: Account[];
+  stages: LifecycleStage[];
+  taxonomy: Taxonomy;
+  suggest: (text: string, amount?: number) => Suggestion;
+  defaultCurrency: string;
+  /** budgets this expense would push over */
+  warningsFor: (draft: Omit<Expense, "id">) => string[];
+  onAdd: (payload: Omit<Expense, "id">) => void;
+  /** save a rule learned from a corrected suggestion */
+  onLearn: (rule: Omit<CategoryRule, "id">) => void;
+}) {
   const [amount, setAmount] = useState<number>(0);
+  const [code, setCode] = useState<string>(defaultCurrency);
   const [note, setNote] = useState<string>("");
   const [date, setDate] = useState<string>(todayISO());
   const [mainCategory, setMainCategory] = useState<string>("");
   const [subCategory, setSubCategory] = useState<string>("");
-  const [accountId] = useState<string>(accounts[0]?.id || ""); // single account per case
+  const [accountId, setAccountId] = useState<string>(accounts[0]?.id || "");
+  const [stageId, setStageId] = useState<string>("");
+
+  // after an add where the user picked something other than the suggestion: the rule we could learn
+  const [offer, setOffer] = useState<Omit<CategoryRule, "id"> | null>(null);
 
-  const suggestion = suggestCategory(note);
-  const subs = CATEGORY_GROUPS[mainCategory as keyof typeof CATEGORY_GROUPS] || [];
+  const suggestion = suggest(note, Number(amount) || undefined);
+  const subs = activeSubs(taxonomy, mainCategory);
+  const draft: Omit<Expense, "id"> = {
+    amount: Number(amount) || 0,
+    currency: code,
+    note,
+    date,
+    category: (mainCategory || suggestion.main),
+    subCategory: (subCategory || suggestion.sub),
+    accountId,
+    stageId: stageId || undefined,
+  };
+  const warnings = warningsFor(draft);
 
   return (
-    <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr 1fr 1fr 1fr", gap: 8, alignItems: "end" }}>
+    <div style={{ display: "grid", gridTemplateColumns: "1fr auto 2fr 1fr 1fr 1fr", gap: 8, alignItems: "end" }}>
       <div>
         <div style={label}>Amount</div>
         <input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
       </div>
+      <div>
+        <div style={label}>Currency</div>
+        <CurrencySelect value={code} onChange={setCode} />
+      </div>
       <div>
         <div style={label}>Note</div>
         <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g., Clinic ultrasound / Uber" />
         <div style={{ fontSize: 12, color: "#6b7280", marginTop: 4 }}>
           Auto-suggest: {suggestion.main}{suggestion.sub ? ` › ${suggestion.sub}` : ""}
+          {suggestion.rule ? ` — rule ${describeRule(suggestion.rule)}, ${Math.round(suggestion.confidence * 100)}% sure` : " — no rule matched"}
         </div>
       </div>
       <div>
@@ -235,7 +256,7 @@ function ExpenseForm({ accounts, onAdd }: { accounts: Account[]; onAdd: (payload
         <div style={label}>Category</div>
         <select value={mainCategory} onChange={(e) => { setMainCategory(e.target.value); setSubCategory(""); }}>
           <option value="">— Select —</option>
-          {MAIN_CATEGORIES.map((c) => (
+          {activeMains(taxonomy).map((c) => (
             <option key={c} value={c}>{c}</option>
           ))}
         </select>
@@ -249,212 +270,2727 @@ function ExpenseForm({ accounts, onAdd }: { accounts: Account[]; onAdd: (payload
           ))}
         </select>
       </div>
-      <div style={{ gridColumn: "1 / -1", textAlign: "right", marginTop: 8 }}>
+      <div style={{ gridColumn: "1 / -1", display: "flex", justifyContent: "flex-end", alignItems: "center", gap: 8, marginTop: 8 }}>
+        <span style={label}>Stage</span>
+        <LifecycleSelect stages={stages} value={stageId} onChange={setStageId} />
+        <span style={label}>Paid from</span>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
         <button
           style={btnPrimary}
-          onClick={() => onAdd({
-            amount: Number(amount) || 0,
-            note,
-            date,
-            category: (mainCategory || suggestion.main),
-            subCategory: (subCategory || suggestion.sub),
-            accountId,
-          })}
+          onClick={() => {
+            onAdd(draft);
+            const corrected = mainCategory && (draft.category !== suggestion.main || (draft.subCategory || undefined) !== suggestion.sub);
+            setOffer(corrected && learnKeyword(note) ? { match: "keyword", pattern: learnKeyword(note), main: draft.category, sub: draft.subCategory || undefined, learned: true } : null);
+          }}
         >
           Add Expense
         </button>
       </div>
+      {offer && (
+        <div style={{ gridColumn: "1 / -1", display: "flex", alignItems: "center", gap: 8, padding: 8, borderRadius: 8, background: "#eef2ff", fontSize: 13 }}>
+          <span>Categorize notes containing</span>
+          <input value={offer.pattern} onChange={(e) => setOffer({ ...offer, pattern: e.target.value })} style={{ width: 140 }} />
+          <span>as <strong>{offer.main}{offer.sub ? ` › ${offer.sub}` : ""}</strong> from now on?</span>
+          <button style={{ ...btnTiny, background: "#2563eb" }} disabled={!offer.pattern.trim()} onClick={() => { onLearn({ ...offer, pattern: offer.pattern.trim() }); setOffer(null); }}>
+            Create rule
+          </button>
+          <button style={btnTiny} onClick={() => setOffer(null)}>No thanks</button>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div style={{ gridColumn: "1 / -1", padding: 8, borderRadius: 8, background: "#fffbeb", color: "#b45309", fontSize: 13 }}>
+          {warnings.map((w) => <div key={w}>⚠️ {w}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StatementImport({ accounts, expenses, taxonomy, defaultCurrency, suggest, onPost }: {
+  accounts: Account[];
+  expenses: Expense[];
+  taxonomy: Taxonomy;
+  suggest: (text: string, amount?: number) => Suggestion;
+  defaultCurrency: string;
+  onPost: (postings: ReturnType<typeof statementPostings>) => void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [code, setCode] = useState(defaultCurrency);
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [format, setFormat] = useState<DateFormat>("YYYY-MM-DD");
+  const [numbers, setNumbers] = useState<NumberFormat>("1,234.56");
+  const [moneyOut, setMoneyOut] = useState<MoneyOut>("negative");
+  const [mapping, setMapping] = useState<ColumnMapping>({ date: 0, amount: 1, description: 2 });
+  // per-line edits on top of the suggested category / duplicate default
+  const [edits, setEdits] = useState<Record<number, { include?: boolean; category?: string; subCategory?: string }>>({});
+
+  const headers = hasHeader && rows[0] ? rows[0] : (rows[0] || []).map((_, i) => `Column ${i + 1}`);
+  const { parsed, rejected } = useMemo(() => mapRows(rows, mapping, { dates: format, numbers, moneyOut, hasHeader }), [rows, mapping, format, numbers, moneyOut, hasHeader]);
+  const preview = parsed.map((r) => {
+    const suggestion = suggest(r.description, r.amount);
+    const duplicate = duplicateReason(r, expenses);
+    const edit = edits[r.line] || {};
+    const category = edit.category ?? suggestion.main;
+    return {
+      ...r,
+      duplicate,
+      // deposits and refunds are listed but not posted unless ticked
+      include: edit.include ?? (!duplicate && !r.credit),
+      category,
+      subCategory: edit.subCategory ?? (category === suggestion.main ? suggestion.sub || "" : ""),
+      suggestion,
+    };
+  });
+  const postings = statementPostings(preview.filter((r) => r.include), code, accountId);
+  const selected = postings.expenses.length + postings.receipts.length;
+
+  const load = async (file: File) => {
+    const next = parseCsv(await file.text());
+    setFileName(file.name);
+    setRows(next);
+    setEdits({});
+    if (next[0]) {
+      const guessed = guessMapping(next[0]);
+      setMapping(guessed);
+      setMoneyOut(guessMoneyOut(next, guessed, numbers, hasHeader));
+    }
+  };
+  const edit = (line: number, patch: { include?: boolean; category?: string; subCategory?: string }) =>
+    setEdits((prev) => ({ ...prev, [line]: { ...prev[line], ...patch } }));
+
+  return (
+    <div>
+      <input type="file" accept=".csv,text/csv" onChange={(e) => { const f = e.target.files?.[0]; if (f) load(f); e.target.value = ""; }} />
+      {fileName && <span style={{ fontSize: 12, color: "#6b7280", marginLeft: 8 }}>{fileName}: {rows.length} line(s)</span>}
+
+      {rows.length > 0 && (
+        <>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(6, 1fr)", gap: 8, alignItems: "end", marginTop: 12 }}>
+            {(["date", "amount", "description"] as const).map((key) => (
+              <div key={key}>
+                <div style={label}>{key[0].toUpperCase() + key.slice(1)} column</div>
+                <select value={mapping[key]} onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })}>
+                  {headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+                </select>
+              </div>
+            ))}
+            <div>
+              <div style={label}>Date format</div>
+              <select value={format} onChange={(e) => setFormat(e.target.value as DateFormat)}>
+                {DATE_FORMATS.map((f) => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={label}>Number format</div>
+              <select value={numbers} onChange={(e) => setNumbers(e.target.value as NumberFormat)}>
+                {NUMBER_FORMATS.map((f) => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={label}>Money out is</div>
+              <select value={moneyOut} onChange={(e) => setMoneyOut(e.target.value as MoneyOut)}>
+                <option value="negative">negative amounts</option>
+                <option value="positive">positive amounts</option>
+              </select>
+            </div>
+            <div>
+              <div style={label}>Statement currency</div>
+              <CurrencySelect value={code} onChange={setCode} />
+            </div>
+            <label style={{ fontSize: 14 }}>
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} /> First line is a header
+            </label>
+          </div>
+
+          {rejected.length > 0 && (
+            <div style={{ fontSize: 12, color: "#b91c1c", marginTop: 8 }}>
+              Skipped line(s) {rejected.join(", ")}: date or amount could not be read.
+            </div>
+          )}
+
+          <div style={{ display: "grid", gap: 6, marginTop: 12, maxHeight: 360, overflow: "auto" }}>
+            {preview.map((r) => {
+              const subs = activeSubs(taxonomy, r.category);
+              return (
+                <div key={r.line} style={{ display: "grid", gridTemplateColumns: "auto 100px 2fr 90px 1fr 1fr", gap: 8, alignItems: "center", border: "1px solid #e5e7eb", borderRadius: 12, padding: 8, background: r.duplicate ? "#fffbeb" : r.credit ? "#f0fdf4" : "#fff" }}>
+                  <input type="checkbox" checked={r.include} onChange={(e) => edit(r.line, { include: e.target.checked })} />
+                  <span style={{ fontSize: 12, color: "#6b7280" }}>{r.date}</span>
+                  <div>
+                    <div>{r.description || "—"}</div>
+                    {r.duplicate && <div style={{ fontSize: 12, color: "#b45309" }}>⚠️ Likely duplicate: {r.duplicate}</div>}
+                    {r.credit && <div style={{ fontSize: 12, color: "#047857" }}>Money in (deposit or refund): posted as a received payment, not an expense</div>}
+                    <div style={{ fontSize: 12, color: "#6b7280" }}>
+                      {r.suggestion.rule ? `rule ${describeRule(r.suggestion.rule)} · ${Math.round(r.suggestion.confidence * 100)}%` : "no rule matched"}
+                    </div>
+                  </div>
+                  <span style={{ color: r.credit ? "#059669" : "#b91c1c", textAlign: "right" }}>{r.credit ? "+" : "-"}{currency(r.amount, code)}</span>
+                  <select value={r.category} onChange={(e) => edit(r.line, { category: e.target.value, subCategory: "" })} disabled={r.credit}>
+                    {[...new Set([r.category, ...activeMains(taxonomy)])].map((c) => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <select value={r.subCategory} onChange={(e) => edit(r.line, { subCategory: e.target.value })} disabled={r.credit || subs.length === 0}>
+                    <option value="">{subs.length ? "— Select —" : "(none)"}</option>
+                    {subs.map((s) => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: 8, marginTop: 8 }}>
+            <span style={label}>Post to</span>
+            <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+            <button
+              style={btnPrimary}
+              disabled={selected === 0}
+              onClick={() => {
+                onPost(postings);
+                setRows([]);
+                setFileName("");
+                setEdits({});
+              }}
+            >
+              Post {postings.expenses.length} expense(s){postings.receipts.length ? ` and ${postings.receipts.length} received payment(s)` : ""}
+            </button>
+          </div>
+        </>
+      )}
     </div>
   );
 }
 
-function PaymentForm({ onAdd }: { onAdd: (payload: { amount: number; dueDate: string }) => void }) {
+function PaymentForm({ accounts, defaultCurrency, onAdd }: {
+  accounts: Account[];
+  defaultCurrency: string;
+  onAdd: (payload: { amount: number; currency: string; dueDate: string; accountId: string }) => void;
+}) {
   const [amount, setAmount] = useState<number>(0);
+  const [code, setCode] = useState<string>(defaultCurrency);
   const [dueDate, setDueDate] = useState<string>(todayISO());
+  const [accountId, setAccountId] = useState<string>(accounts[0]?.id || "");
   return (
-    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr auto", gap: 8, alignItems: "end" }}>
+    <div style={{ display: "grid", gridTemplateColumns: "1fr auto 1fr 1fr auto", gap: 8, alignItems: "end" }}>
       <div>
         <div style={label}>Amount</div>
         <input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
       </div>
+      <div>
+        <div style={label}>Currency</div>
+        <CurrencySelect value={code} onChange={setCode} />
+      </div>
       <div>
         <div style={label}>Due date</div>
         <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
       </div>
       <div>
-        <button style={btnPrimary} onClick={() => onAdd({ amount: Number(amount) || 0, dueDate })}>Add Invoice</button>
+        <div style={label}>Pay into</div>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+      </div>
+      <div>
+        <button style={btnPrimary} onClick={() => onAdd({ amount: Number(amount) || 0, currency: code, dueDate, accountId })}>Add Invoice</button>
+      </div>
+    </div>
+  );
+}
+
+/** Generate the case's invoices from a plan template, or move unpaid installments to a new start date */
+function ApplyPlanForm({ templates, accounts, defaultCurrency, caseStartDate, hasPlan, onApply, onShift }: {
+  templates: PlanTemplate[];
+  accounts: Account[];
+  defaultCurrency: string;
+  caseStartDate?: string;
+  hasPlan: boolean;
+  onApply: (t: PlanTemplate, opts: { startDate: string; total: number; currency: string; accountId: string }) => void;
+  onShift: (startDate: string) => void;
+}) {
+  const [templateId, setTemplateId] = useState<string>(templates[0]?.id || "");
+  const [startDate, setStartDate] = useState<string>(caseStartDate || todayISO());
+  const [total, setTotal] = useState<number>(0);
+  const [code, setCode] = useState<string>(defaultCurrency);
+  const [accountId, setAccountId] = useState<string>(accounts[0]?.id || "");
+  const template = templates.find((t) => t.id === templateId);
+
+  if (!template) return <div style={{ color: "#6b7280", fontSize: 14 }}>No plan templates yet — add one below.</div>;
+  const schedule = planSchedule(template, startDate, Number(total) || 0);
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 1fr auto 1fr", gap: 8, alignItems: "end" }}>
+        <div>
+          <div style={label}>Template</div>
+          <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} style={{ width: "100%" }}>
+            {templates.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </div>
+        <div><div style={label}>Case start date</div><input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} /></div>
+        <div>
+          <div style={label}>Plan total</div>
+          <input type="number" value={total} disabled={!usesPercent(template)} onChange={(e) => setTotal(Number(e.target.value))} />
+        </div>
+        <div><div style={label}>Currency</div><CurrencySelect value={code} onChange={setCode} /></div>
+        <div><div style={label}>Pay into</div><AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} /></div>
       </div>
+      <div style={{ fontSize: 13 }}>
+        {schedule.map((s) => (
+          <div key={s.step} style={{ display: "flex", justifyContent: "space-between", borderBottom: "1px dashed #e5e7eb", padding: "2px 0" }}>
+            <span>{s.label} <span style={{ color: "#6b7280" }}>· {s.dueDate}</span></span>
+            <span>{currency(s.amount, code)}</span>
+          </div>
+        ))}
+      </div>
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        {hasPlan && (
+          <button style={btn} disabled={startDate === caseStartDate} onClick={() => onShift(startDate)}>Move unpaid installments</button>
+        )}
+        <button style={btnPrimary} onClick={() => onApply(template, { startDate, total: Number(total) || 0, currency: code, accountId })}>
+          {hasPlan ? "Regenerate unpaid installments" : "Generate invoices"}
+        </button>
+      </div>
+      {hasPlan && (
+        <div style={{ fontSize: 12, color: "#6b7280" }}>
+          Installments with money received or an issued invoice stay as they are; the others are moved or regenerated, and each change goes to the history.
+        </div>
+      )}
     </div>
   );
 }
 
-function ReceivePaymentForm({ onAdd }: { onAdd: (payload: { amount: number; paidOn: string }) => void }) {
+function ReceivePaymentForm({ accounts, defaultCurrency, invoicesFor, onAdd }: {
+  accounts: Account[];
+  defaultCurrency: string;
+  invoicesFor: (code: string) => { invoice: Payment; remaining: number }[];
+  onAdd: (payload: { amount: number; currency: string; paidOn: string; accountId: string; allocations: Allocation[] }) => void;
+}) {
   const [amount, setAmount] = useState<number>(0);
+  const [code, setCode] = useState<string>(defaultCurrency);
   const [paidOn, setPaidOn] = useState<string>(todayISO());
+  const [accountId, setAccountId] = useState<string>(accounts[0]?.id || "");
+  // null = allocate oldest invoice first; otherwise the amounts typed per invoice
+  const [manual, setManual] = useState<Record<string, number> | null>(null);
+
+  const invoices = invoicesFor(code);
+  const allocations: Allocation[] = manual
+    ? Object.entries(manual).filter(([, v]) => v > 0).map(([invoiceId, v]) => ({ invoiceId, amount: v }))
+    : autoAllocate(amount, invoices);
+  const allocatedTotal = allocations.reduce((s, a) => s + a.amount, 0);
+  const credit = (Number(amount) || 0) - allocatedTotal;
+  const valueFor = (id: string) => allocations.find((a) => a.invoiceId === id)?.amount ?? 0;
+
   return (
-    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr auto", gap: 8, alignItems: "end" }}>
+    <div style={{ display: "grid", gridTemplateColumns: "1fr auto 1fr 1fr auto", gap: 8, alignItems: "end" }}>
       <div>
         <div style={label}>Amount received</div>
         <input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
       </div>
+      <div>
+        <div style={label}>Currency</div>
+        <CurrencySelect value={code} onChange={setCode} />
+      </div>
       <div>
         <div style={label}>Received on</div>
         <input type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
       </div>
       <div>
-        <button style={btnPrimary} onClick={() => onAdd({ amount: Number(amount) || 0, paidOn })}>Record Payment</button>
+        <div style={label}>Received into</div>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+      </div>
+      <div>
+        <button
+          style={btnPrimary}
+          disabled={credit < -0.005}
+          onClick={() => {
+            onAdd({ amount: Number(amount) || 0, currency: code, paidOn, accountId, allocations });
+            setManual(null);
+          }}
+        >
+          Record Payment
+        </button>
+      </div>
+      <div style={{ gridColumn: "1 / -1" }}>
+        <div style={{ ...label, display: "flex", justifyContent: "space-between" }}>
+          <span>Apply to invoices ({code})</span>
+          {manual && <button style={btnTiny} onClick={() => setManual(null)}>Oldest first</button>}
+        </div>
+        {invoices.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No open {code} invoices; the whole amount is held as client credit.</div>}
+        {invoices.map((i) => (
+          <div key={i.invoice.id} style={{ display: "grid", gridTemplateColumns: "1fr 1fr 120px", gap: 8, alignItems: "center", fontSize: 14, marginBottom: 4 }}>
+            <span>📅 Due {i.invoice.dueDate}</span>
+            <span style={{ color: "#6b7280" }}>{currency(i.remaining, code)} open</span>
+            <input
+              type="number"
+              value={valueFor(i.invoice.id)}
+              onChange={(e) => setManual({ ...Object.fromEntries(allocations.map((a) => [a.invoiceId, a.amount])), [i.invoice.id]: Math.min(Number(e.target.value) || 0, i.remaining) })}
+            />
+          </div>
+        ))}
+        {credit > 0.005 && <div style={{ fontSize: 12, color: "#059669" }}>{currency(credit, code)} not applied: held as client credit.</div>}
+        {credit < -0.005 && <div style={{ fontSize: 12, color: "#b91c1c" }}>Allocations exceed the amount received by {currency(-credit, code)}.</div>}
+      </div>
+    </div>
+  );
+}
+
+function TransferForm({ accounts, onAdd }: { accounts: Account[]; onAdd: (payload: Omit<Transfer, "id">) => void }) {
+  const [fromAccountId, setFromAccountId] = useState<string>(accounts[0]?.id || "");
+  const [toAccountId, setToAccountId] = useState<string>(accounts[1]?.id || "");
+  const [amount, setAmount] = useState<number>(0);
+  const [date, setDate] = useState<string>(todayISO());
+  const [note, setNote] = useState<string>("");
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, alignItems: "end" }}>
+      <div>
+        <div style={label}>From</div>
+        <AccountSelect accounts={accounts} value={fromAccountId} onChange={setFromAccountId} />
+      </div>
+      <div>
+        <div style={label}>To</div>
+        <AccountSelect accounts={accounts} value={toAccountId} onChange={setToAccountId} />
+      </div>
+      <div>
+        <div style={label}>Amount</div>
+        <input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
+      </div>
+      <div>
+        <div style={label}>Date</div>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+      </div>
+      <div style={{ gridColumn: "1 / -1" }}>
+        <div style={label}>Note</div>
+        <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="e.g., Top up travel card" style={{ width: "100%" }} />
+      </div>
+      <div style={{ gridColumn: "1 / -1", textAlign: "right" }}>
+        <button
+          style={btnPrimary}
+          disabled={!fromAccountId || !toAccountId || fromAccountId === toAccountId || !(amount > 0)}
+          onClick={() => onAdd({ fromAccountId, toAccountId, amount: Number(amount) || 0, date, note: note || undefined })}
+        >
+          Transfer
+        </button>
       </div>
     </div>
   );
 }
 
-function ReminderCenter({ payments, makeText }: { payments: Payment[]; makeText: (args: { tone: keyof typeof tonePresets; payment: Payment }) => string }) {
-  const [tone, setTone] = useState<keyof typeof tonePresets>("polite");
-  const [selected, setSelected] = useState<Payment | null>(null);
-  const eligible = payments.filter((p) => p.status !== "completed").slice(0, 6);
-  const text = selected ? makeText({ tone, payment: selected }) : "Select a payment to preview reminder text.";
+function ExpenseEditor({ expense, accounts, stages, taxonomy, defaultCurrency, onSave, onCancel }: {
+  expense: Expense;
+  accounts: Account[];
+  stages: LifecycleStage[];
+  taxonomy: Taxonomy;
+  defaultCurrency: string;
+  onSave: (patch: Partial<Expense>) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<Expense>(expense);
+  const set = (patch: Partial<Expense>) => setDraft((d) => ({ ...d, ...patch }));
+  // archived categories stay selectable on an expense that already uses them
+  const mains = [...new Set([draft.category, ...activeMains(taxonomy)])];
+  const subs = [...new Set([...(draft.subCategory ? [draft.subCategory] : []), ...activeSubs(taxonomy, draft.category)])];
+  const shown = (path: CategoryPath, name: string) => (isArchived(taxonomy, path) ? `${name} (archived)` : name);
 
   return (
-    <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 12 }}>
-      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8 }}>
-        {eligible.map((p) => (
-          <button
-            key={p.id}
-            onClick={() => setSelected(p)}
-            style={{ textAlign: "left", border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, background: selected?.id === p.id ? "#eef2ff" : "#fff" }}
-          >
-            <div style={{ display: "flex", justifyContent: "space-between" }}>
-              <div style={{ fontWeight: 600 }}>📅 {p.dueDate}</div>
-              <span style={{ fontSize: 12, background: new Date(p.dueDate) < new Date() ? "#fee2e2" : "#f3f4f6", padding: "2px 8px", borderRadius: 999 }}>
-                {new Date(p.dueDate) < new Date() ? "Overdue" : "Due"}
-              </span>
-            </div>
-            <div style={{ fontSize: 18, marginTop: 4 }}>{currency(p.amount)}</div>
-          </button>
-        ))}
+    <div style={{ display: "grid", gridTemplateColumns: "1fr auto 2fr 1fr 1fr 1fr 1fr 1fr", gap: 8, alignItems: "end", width: "100%" }}>
+      <div><div style={label}>Amount</div><input type="number" value={draft.amount} onChange={(e) => set({ amount: Number(e.target.value) })} /></div>
+      <div><div style={label}>Currency</div><CurrencySelect value={draft.currency || defaultCurrency} onChange={(code) => set({ currency: code })} /></div>
+      <div><div style={label}>Note</div><input value={draft.note || ""} onChange={(e) => set({ note: e.target.value })} /></div>
+      <div><div style={label}>Date</div><input type="date" value={draft.date} onChange={(e) => set({ date: e.target.value })} /></div>
+      <div>
+        <div style={label}>Category</div>
+        <select value={draft.category} onChange={(e) => set({ category: e.target.value, subCategory: undefined })}>
+          {mains.map((c) => <option key={c} value={c}>{shown({ main: c }, c)}</option>)}
+        </select>
       </div>
       <div>
-        <div style={label}>Tone</div>
-        <select value={tone} onChange={(e) => setTone(e.target.value as any)} style={{ width: "100%", marginBottom: 8 }}>
-          <option value="polite">Polite</option>
-          <option value="urgent">Urgent</option>
-          <option value="playful">Playful</option>
+        <div style={label}>Subcategory</div>
+        <select value={draft.subCategory || ""} onChange={(e) => set({ subCategory: e.target.value || undefined })} disabled={subs.length === 0}>
+          <option value="">{subs.length ? "— Select —" : "(none)"}</option>
+          {subs.map((s) => <option key={s} value={s}>{shown({ main: draft.category, sub: s }, s)}</option>)}
         </select>
-        <div style={label}>Preview</div>
-        <textarea value={text} readOnly style={{ width: "100%", minHeight: 140 }} />
-        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8 }}>
-          <button style={btn} onClick={() => navigator.clipboard?.writeText(text)}>Copy</button>
-          <button style={btnPrimary}>Send (simulated)</button>
+      </div>
+      <div><div style={label}>Account</div><AccountSelect accounts={accounts} value={draft.accountId} onChange={(id) => set({ accountId: id })} /></div>
+      <div><div style={label}>Stage</div><LifecycleSelect stages={stages} value={draft.stageId || ""} onChange={(id) => set({ stageId: id || undefined })} /></div>
+      <div style={{ gridColumn: "1 / -1", display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        <button style={btnTiny} onClick={onCancel}>Cancel</button>
+        <button style={{ ...btnTiny, background: "#2563eb" }} onClick={() => onSave({ ...draft, amount: Number(draft.amount) || 0 })}>Save</button>
+      </div>
+    </div>
+  );
+}
+
+function PaymentEditor({ payment, accounts, defaultCurrency, allocated, onSave, onCancel }: {
+  payment: Payment;
+  accounts: Account[];
+  defaultCurrency: string;
+  /** for a receipt, how much of it is already allocated to invoices; its amount can't go below that */
+  allocated: number;
+  onSave: (patch: Partial<Payment>) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<Payment>(payment);
+  const set = (patch: Partial<Payment>) => setDraft((d) => ({ ...d, ...patch }));
+  const overAllocated = isReceipt(draft) && (Number(draft.amount) || 0) < allocated - 0.005;
+
+  return (
+    <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+      <div><div style={label}>Amount</div><input type="number" value={draft.amount} onChange={(e) => set({ amount: Number(e.target.value) })} /></div>
+      <div><div style={label}>Currency</div><CurrencySelect value={draft.currency || defaultCurrency} onChange={(code) => set({ currency: code })} /></div>
+      <div><div style={label}>Due date</div><input type="date" value={draft.dueDate} onChange={(e) => set({ dueDate: e.target.value })} /></div>
+      {!isReceipt(draft) && (
+        <div>
+          <div style={label}>Status</div>
+          <StageSelect payment={draft} onChange={(stage) => set(stagePatch(draft, stage))} />
+        </div>
+      )}
+      <div><div style={label}>Paid on</div><input type="date" value={draft.paidOn || ""} onChange={(e) => set({ paidOn: e.target.value || undefined })} /></div>
+      <div><div style={label}>Account</div><AccountSelect accounts={accounts} value={draft.accountId} onChange={(id) => set({ accountId: id })} /></div>
+      {overAllocated && (
+        <div style={{ fontSize: 12, color: "#dc2626" }}>
+          {allocated.toFixed(2)} of this payment is already allocated to invoices, so its amount can't go below that.
         </div>
-        <div style={{ fontSize: 12, color: "#6b7280", marginTop: 6 }}>Note: “Send” is simulated in this prototype.</div>
+      )}
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        <button style={btnTiny} onClick={onCancel}>Cancel</button>
+        <button style={{ ...btnTiny, background: "#2563eb" }} disabled={overAllocated} onClick={() => onSave({ ...draft, amount: Number(draft.amount) || 0 })}>Save</button>
       </div>
     </div>
   );
 }
 
-/* =========================
-   Main App
-   ========================= */
-export default function App() {
-  const [cases, setCases] = useState<Case[]>(initialCases);
-  const [activeId, setActiveId] = useState<string>(initialCases[0].id);
-  const [tab, setTab] = useState<"overview" | "expenses" | "payments">("overview");
-  const [showNewCase, setShowNewCase] = useState(false);
+/** Pill colour per stage, shared by the board, timeline and reminders */
+const STAGE_COLORS: Record<PaymentStage, string> = {
+  upcoming: "#6b7280",
+  due: "#2563eb",
+  overdue: "#d97706",
+  missed: "#dc2626",
+  paid: "#16a34a",
+};
 
-  const activeCase = useMemo(() => cases.find((c) => c.id === activeId)!, [cases, activeId]);
-  const setActiveCase = (updater: (c: Case) => Case) => {
-    setCases((prev) => prev.map((c) => (c.id === activeCase.id ? updater(c) : c)));
-  };
+/**
+ * Patch that puts an invoice in a stage by hand. "auto" hands it back to the rules;
+ * "paid" completes it, any other stage reopens it with an override.
+ */
+const stagePatch = (p: Payment, stage: PaymentStage | "auto"): Partial<Payment> =>
+  stage === "auto"
+    ? { statusOverride: undefined }
+    : stage === "paid"
+      ? { status: "completed", paidOn: p.paidOn || todayISO(), statusOverride: undefined }
+      : { status: "upcoming", statusOverride: stage };
 
-  // derived balances
-  const accountBalances = useMemo(() => {
-    const map: Record<string, number> = {};
-    activeCase.accounts.forEach((a) => (map[a.id] = a.balance));
-    activeCase.expenses.forEach((e) => (map[e.accountId] = (map[e.accountId] || 0) - Number(e.amount)));
-    activeCase.payments.filter((p) => p.status === "completed").forEach((p) => (map[p.accountId] = (map[p.accountId] || 0) + Number(p.amount)));
-    return map;
-  }, [activeCase]);
-
-  const totals = useMemo(() => {
-    const receivedIn = activeCase.payments.filter((p) => p.status === "completed").reduce((s, p) => s + Number(p.amount), 0);
-    const expectedIn = activeCase.payments.filter((p) => p.status !== "completed").reduce((s, p) => s + Number(p.amount), 0);
-    const paidOut = activeCase.expenses.reduce((s, e) => s + Number(e.amount), 0);
-    return { receivedIn, expectedIn, paidOut };
-  }, [activeCase.payments, activeCase.expenses]);
-
-  const kpis = useMemo(() => {
-    const dueSoon = activeCase.payments.filter((p) => p.status !== "completed" && daysBetween(todayISO(), p.dueDate) <= 7 && daysBetween(todayISO(), p.dueDate) >= 0).length;
-    const overdue = activeCase.payments.filter((p) => p.status !== "completed" && new Date(p.dueDate) < new Date(todayISO())).length;
-    const monthSpend = activeCase.expenses.filter((e) => sameMonth(e.date)).reduce((s, e) => s + Number(e.amount), 0);
-    return { dueSoon, overdue, monthSpend };
-  }, [activeCase]);
+function StageSelect({ payment, onChange }: { payment: Payment; onChange: (stage: PaymentStage | "auto") => void }) {
+  const value = payment.status === "completed" ? "paid" : payment.statusOverride || "auto";
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as PaymentStage | "auto")}>
+      <option value="auto">auto (from rules)</option>
+      {PAYMENT_STAGES.map((s) => (
+        <option key={s} value={s}>{s === "paid" ? "paid (by hand)" : s}</option>
+      ))}
+    </select>
+  );
+}
 
-  /* ===== actions ===== */
-  const addExpense = (payload: Omit<Expense, "id">) =>
-    setActiveCase((c) => ({ ...c, expenses: [{ id: `e-${Math.random().toString(36).slice(2)}`, ...payload }, ...c.expenses] }));
+/** A logged value as text: lists item by item, records by their name or label, else field by field */
+const showValue = (v: unknown): string => {
+  if (v === undefined || v === null || v === "") return "—";
+  if (Array.isArray(v)) return v.length ? v.map(showValue).join("; ") : "none";
+  if (typeof v !== "object") return String(v);
+  const r = v as Record<string, unknown>;
+  if (typeof r.name === "string") return r.name;
+  if (typeof r.label === "string") return r.label;
+  return Object.entries(r).filter(([k, x]) => k !== "id" && x !== undefined).map(([k, x]) => `${k} ${showValue(x)}`).join(", ");
+};
 
-  const deleteExpense = (expenseId: string) =>
-    setActiveCase((c) => ({ ...c, expenses: c.expenses.filter((e) => e.id !== expenseId) }));
+/** Change log entries with their field-by-field diff; Undo shows on the entry it would revert */
+function HistoryList({ entries, undoable, onUndo, describe }: {
+  entries: ChangeEntry[];
+  undoable: (h: ChangeEntry) => boolean;
+  onUndo: (h: ChangeEntry) => void;
+  describe?: (h: ChangeEntry) => string;
+}) {
+  if (entries.length === 0) return <div style={{ color: "#6b7280", fontSize: 14 }}>No changes recorded.</div>;
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      {entries.map((h) => (
+        <div key={h.id} style={{ border: "1px solid #e5e7eb", borderRadius: 8, padding: 8, fontSize: 13, opacity: h.undoneAt ? 0.6 : 1 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+            <div>
+              <span style={pillFilled(h.action === "delete" ? "#dc2626" : "#4b5563")}>{h.action === "delete" ? "Deleted" : "Edited"}</span>{" "}
+              {describe && <strong>{describe(h)} </strong>}
+              <span style={{ color: "#6b7280" }}>{new Date(h.at).toLocaleString()}</span>
+              {h.undoneAt && <span style={{ color: "#6b7280" }}> · undone {new Date(h.undoneAt).toLocaleString()}</span>}
+            </div>
+            {undoable(h) && <button style={btnTiny} onClick={() => onUndo(h)}>Undo</button>}
+          </div>
+          {h.action === "update" && (
+            <div style={{ marginTop: 4, fontFamily: "monospace", fontSize: 12 }}>
+              {diffFields(h.before, h.after).map((d) => (
+                <div key={d.field}>{d.field}: {showValue(d.from)} → {showValue(d.to)}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
 
-  const addAccount = (name: string, balance: number) => {
-    if (activeCase.accounts.length >= 1) return; // enforce 1 account per case
-    setActiveCase((c) => ({ ...c, accounts: [...c.accounts, { id: `${c.id}-acc-${c.accounts.length + 1}`, name, balance: Number(balance) || 0 }] }));
-  };
+type ReminderDraft = Pick<ReminderLogEntry, "paymentIds" | "templateId" | "templateName" | "text">;
 
-  const deleteCase = (id: string) => {
-    setCases((prev) => {
-      const next = prev.filter((c) => c.id !== id);
-      if (next.length === 0) {
-        const empty = blankCase();
-        setActiveId(empty.id);
-        return [empty];
-      }
-      if (id === activeId) setActiveId(next[0].id);
-      return next;
-    });
+/** Pick one or more open invoices and a template; every copy or send is logged against those invoices */
+function ReminderCenter({ payments, reportingCurrency, remaining, statusOf, templates, render, lastReminder, canSend, onCopy, onSend }: {
+  payments: Payment[];
+  reportingCurrency: string;
+  remaining: (p: Payment) => number;
+  statusOf: (p: Payment) => PaymentStatus;
+  templates: ReminderTemplate[];
+  render: (t: ReminderTemplate, payments: Payment[]) => string;
+  lastReminder: (p: Payment) => ReminderLogEntry | undefined;
+  /** false while the case has no contact email */
+  canSend: boolean;
+  onCopy: (reminder: ReminderDraft) => void;
+  onSend: (reminder: ReminderDraft) => void;
+}) {
+  const [templateId, setTemplateId] = useState(templates[0]?.id || "");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [flash, setFlash] = useState("");
+  const eligible = payments.filter((p) => statusOf(p).stage !== "paid");
+  const selected = eligible.filter((p) => selectedIds.includes(p.id));
+  const template = templates.find((t) => t.id === templateId) || templates[0];
+  const text = selected.length && template ? render(template, selected) : "Select one or more invoices to preview reminder text.";
+  const toggle = (id: string) => setSelectedIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+  const record = (channel: ReminderLogEntry["channel"]) => {
+    if (!selected.length || !template) return;
+    (channel === "sent" ? onSend : onCopy)({ paymentIds: selected.map((p) => p.id), templateId: template.id, templateName: template.name, text });
+    setFlash(channel === "sent" ? `Queued for ${selected.length} invoice(s); see the outbox.` : `Copied and logged for ${selected.length} invoice(s).`);
   };
 
-  const updatePayment = (id: string, patch: Partial<Payment>) =>
-    setActiveCase((c) => ({ ...c, payments: c.payments.map((p) => (p.id === id ? { ...p, ...patch } : p)) }));
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 12 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 8, alignContent: "start", maxHeight: 420, overflow: "auto" }}>
+        {eligible.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No open invoices.</div>}
+        {eligible.map((p) => {
+          const last = lastReminder(p);
+          return (
+            <button
+              key={p.id}
+              onClick={() => toggle(p.id)}
+              style={{ textAlign: "left", border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, background: selectedIds.includes(p.id) ? "#eef2ff" : "#fff" }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between" }}>
+                <div style={{ fontWeight: 600 }}>📅 {p.dueDate}</div>
+                <span style={pillFilled(STAGE_COLORS[statusOf(p).stage])}>{statusOf(p).stage}</span>
+              </div>
+              <div style={{ fontSize: 18, marginTop: 4 }}>{currency(remaining(p), p.currency || reportingCurrency)}</div>
+              <div style={{ fontSize: 12, color: "#6b7280", marginTop: 4 }}>
+                {last ? `Last reminded ${dateIn(new Date(last.at))} · ${last.templateName}` : "Not reminded yet"}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+      <div>
+        <div style={label}>Template</div>
+        <select value={template?.id || ""} onChange={(e) => setTemplateId(e.target.value)} style={{ width: "100%", marginBottom: 8 }}>
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <div style={label}>Preview{selected.length > 1 ? ` (${selected.length} invoices)` : ""}</div>
+        <textarea value={text} readOnly style={{ width: "100%", minHeight: 140 }} />
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 8 }}>
+          <button style={btn} disabled={!selected.length} onClick={() => { navigator.clipboard?.writeText(text); record("copied"); }}>Copy</button>
+          <button style={btnPrimary} disabled={!selected.length || !canSend} onClick={() => record("sent")}>Send</button>
+        </div>
+        <div style={{ fontSize: 12, color: "#6b7280", marginTop: 6 }}>{flash || (canSend ? "Sent reminders go through the outbox." : "Add a contact email on the Overview tab to send.")}</div>
+      </div>
+    </div>
+  );
+}
 
-  const addPayment = (payload: { amount: number; dueDate: string }) =>
-    setActiveCase((c) => {
-      const acct = c.accounts[0]?.id;
-      const p: Payment = { id: `p-${Math.random().toString(36).slice(2)}`, status: "upcoming", accountId: acct || "", ...payload };
-      return { ...c, payments: [p, ...(c.payments || [])] };
-    });
+/** Workspace reminder templates; bodies use `{placeholders}` filled in per case and invoice */
+function ReminderTemplateEditor({ templates, onSave, onDelete }: {
+  templates: ReminderTemplate[];
+  onSave: (t: ReminderTemplate) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<ReminderTemplate | null>(null);
 
-  const addReceivedPayment = (payload: { amount: number; paidOn?: string }) =>
-    setActiveCase((c) => {
-      const acct = c.accounts[0]?.id;
-      const p: Payment = {
-        id: `p-${Math.random().toString(36).slice(2)}`,
-        status: "completed",
-        accountId: acct || "",
-        amount: Number(payload.amount) || 0,
-        dueDate: payload.paidOn || todayISO(),
-        paidOn: payload.paidOn || todayISO(),
-      };
-      return { ...c, payments: [p, ...(c.payments || [])] };
-    });
+  if (!draft) {
+    return (
+      <div style={{ display: "grid", gap: 6 }}>
+        {templates.map((t) => (
+          <div key={t.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 14 }}>
+            <span><strong>{t.name}</strong> <span style={{ color: "#6b7280" }}>· {t.body.slice(0, 60)}{t.body.length > 60 ? "…" : ""}</span></span>
+            <div style={{ display: "flex", gap: 6 }}>
+              <button style={btnTiny} onClick={() => setDraft(t)}>Edit</button>
+              <button style={btnTinyDanger} onClick={() => { if (confirm(`Delete template "${t.name}"? Logged reminders stay.`)) onDelete(t.id); }}>Delete</button>
+            </div>
+          </div>
+        ))}
+        <div>
+          <button style={btn} onClick={() => setDraft({ id: `rt-${Math.random().toString(36).slice(2)}`, name: "", body: "" })}>New template</button>
+        </div>
+      </div>
+    );
+  }
 
-  const reminderPreview = ({ tone, payment }: { tone: keyof typeof tonePresets; payment: Payment }) =>
-    tonePresets[tone]({ client: activeCase.client || "Client", amount: payment.amount, dueDate: payment.dueDate });
+  const unknown = unknownPlaceholders(draft.body);
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <Row label="Name"><input value={draft.name} placeholder="e.g. Firm" onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={{ width: "100%" }} /></Row>
+      <textarea value={draft.body} onChange={(e) => setDraft({ ...draft, body: e.target.value })} style={{ width: "100%", minHeight: 120 }} />
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 6 }}>
+        {PLACEHOLDERS.map((p) => (
+          <button key={p.key} style={btnTiny} title={p.help} onClick={() => setDraft({ ...draft, body: `${draft.body}{${p.key}}` })}>{`{${p.key}}`}</button>
+        ))}
+      </div>
+      {unknown.length > 0 && <div style={{ fontSize: 12, color: "#b45309" }}>Not a known placeholder: {unknown.map((k) => `{${k}}`).join(", ")}</div>}
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        <button style={btnTiny} onClick={() => setDraft(null)}>Cancel</button>
+        <button
+          style={{ ...btnTiny, background: "#2563eb" }}
+          disabled={!draft.name.trim() || !draft.body.trim()}
+          onClick={() => { onSave({ ...draft, name: draft.name.trim() }); setDraft(null); }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
 
-  const upcoming = activeCase.payments.filter((p) => p.status === "upcoming").sort((a, b) => a.dueDate.localeCompare(b.dueDate));
-  const completed = activeCase.payments.filter((p) => p.status === "completed").sort((a, b) => (b.paidOn || "").localeCompare(a.paidOn || ""));
-  const missed = activeCase.payments.filter((p) => p.status === "missed").sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+function ImportPanel({ cases, fileName, parsed, onApply, onCancel }: {
+  cases: Case[];
+  fileName: string;
+  parsed: ParsedBackup;
+  onApply: (mode: CollisionMode) => void;
+  onCancel: () => void;
+}) {
+  const [mode, setMode] = useState<CollisionMode>("merge");
+  const collisions = findCollisions(cases, parsed.cases);
 
-  /* ===== UI ===== */
   return (
-    <div style={{ padding: 24, maxWidth: 1200, margin: "0 auto", fontFamily: "system-ui,Segoe UI,Roboto,sans-serif", background: "#f9fafb", minHeight: "100vh" }}>
-      {/* Header */}
-      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 16 }}>
-        <div>
-          <div style={{ fontSize: 22, fontWeight: 800 }}>Egg Donor & Client Finance Manager</div>
-          <div style={{ color: "#6b7280", fontSize: 13 }}>Track expected invoices, client payments, and expenses ✨</div>
+    <Card title={`📥 Import ${fileName}`}>
+      <div style={{ fontSize: 14, marginBottom: 8 }}>
+        {parsed.cases.length} case(s) ready to import
+        {collisions.length > 0 && `, ${collisions.length} already loaded`}.
+      </div>
+      {parsed.issues.length > 0 && (
+        <div style={{ marginBottom: 8 }}>
+          <div style={label}>Skipped rows ({parsed.issues.length})</div>
+          <div style={{ maxHeight: 160, overflow: "auto", fontSize: 12, fontFamily: "monospace", background: "#fef2f2", borderRadius: 8, padding: 8 }}>
+            {parsed.issues.map((issue, i) => (
+              <div key={i}><strong>{issue.path}</strong>: {issue.message}</div>
+            ))}
+          </div>
+        </div>
+      )}
+      {collisions.length > 0 && (
+        <div style={{ marginBottom: 8 }}>
+          <div style={label}>Cases with matching IDs</div>
+          <label style={{ display: "block", fontSize: 14 }}>
+            <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} /> Merge — keep existing records, add or update records from the file
+          </label>
+          <label style={{ display: "block", fontSize: 14 }}>
+            <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} /> Replace — use the case from the file as-is
+          </label>
+        </div>
+      )}
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        <button style={btn} onClick={onCancel}>Cancel</button>
+        <button style={btnPrimary} disabled={parsed.cases.length === 0} onClick={() => onApply(mode)}>Import</button>
+      </div>
+    </Card>
+  );
+}
+
+function CurrencySettings({ reportingCurrency, rates, onReportingCurrency, onAddRate, onDeleteRate }: {
+  reportingCurrency: string;
+  rates: FxRate[];
+  onReportingCurrency: (code: string) => void;
+  onAddRate: (rate: Omit<FxRate, "id">) => void;
+  onDeleteRate: (id: string) => void;
+}) {
+  const [date, setDate] = useState(todayISO());
+  const [from, setFrom] = useState("EUR");
+  const [rate, setRate] = useState<number>(1);
+  const sorted = [...rates].sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from));
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <Row label="Reporting currency"><CurrencySelect value={reportingCurrency} onChange={onReportingCurrency} /></Row>
+      <div style={label}>Exchange rates (shared by all cases)</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto 1fr auto", gap: 8, alignItems: "end" }}>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        <CurrencySelect value={from} onChange={setFrom} />
+        <input type="number" step="0.0001" value={rate} onChange={(e) => setRate(Number(e.target.value))} />
+        <button
+          style={btnTiny}
+          disabled={from === reportingCurrency || !(rate > 0)}
+          onClick={() => onAddRate({ date, from, to: reportingCurrency, rate: Number(rate) })}
+        >
+          Add 1 {from} = {rate} {reportingCurrency}
+        </button>
+      </div>
+      <div style={{ display: "grid", gap: 4, maxHeight: 180, overflow: "auto" }}>
+        {sorted.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No rates yet.</div>}
+        {sorted.map((r) => (
+          <div key={r.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 14 }}>
+            <span><span style={{ color: "#6b7280" }}>{r.date}</span> 1 {r.from} = {r.rate} {r.to}</span>
+            <button style={btnTinyDanger} onClick={() => onDeleteRate(r.id)}>Delete</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const blankInstallment = (): PlanInstallment => ({ label: "", unit: "percent", value: 0, offsetDays: 0 });
+
+/** Create, edit and delete the workspace's payment plan templates */
+function PlanTemplateEditor({ templates, onSave, onDelete }: {
+  templates: PlanTemplate[];
+  onSave: (t: PlanTemplate) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [draft, setDraft] = useState<PlanTemplate | null>(null);
+  const setStep = (i: number, patch: Partial<PlanInstallment>) =>
+    setDraft((d) => d && { ...d, installments: d.installments.map((s, j) => (j === i ? { ...s, ...patch } : s)) });
+  const percentTotal = draft?.installments.filter((s) => s.unit === "percent").reduce((sum, s) => sum + Number(s.value), 0) ?? 0;
+
+  if (!draft) {
+    return (
+      <div style={{ display: "grid", gap: 6 }}>
+        {templates.map((t) => (
+          <div key={t.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 14 }}>
+            <span><strong>{t.name}</strong> <span style={{ color: "#6b7280" }}>· {t.installments.length} installments</span></span>
+            <div style={{ display: "flex", gap: 6 }}>
+              <button style={btnTiny} onClick={() => setDraft(t)}>Edit</button>
+              <button style={btnTinyDanger} onClick={() => { if (confirm(`Delete template "${t.name}"? Invoices already generated stay.`)) onDelete(t.id); }}>Delete</button>
+            </div>
+          </div>
+        ))}
+        <div>
+          <button style={btn} onClick={() => setDraft({ id: `plan-${Math.random().toString(36).slice(2)}`, name: "", installments: [blankInstallment()] })}>
+            New template
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <Row label="Name"><input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={{ width: "100%" }} /></Row>
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto 1fr auto", gap: 6, fontSize: 12, color: "#6b7280" }}>
+        <span>Installment</span><span>Value</span><span>Unit</span><span>Days after start</span><span />
+      </div>
+      {draft.installments.map((s, i) => (
+        <div key={i} style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto 1fr auto", gap: 6 }}>
+          <input value={s.label} placeholder="e.g. Matching fee" onChange={(e) => setStep(i, { label: e.target.value })} />
+          <input type="number" value={s.value} onChange={(e) => setStep(i, { value: Number(e.target.value) })} />
+          <select value={s.unit} onChange={(e) => setStep(i, { unit: e.target.value as PlanInstallment["unit"] })}>
+            <option value="percent">% of total</option>
+            <option value="amount">amount</option>
+          </select>
+          <input type="number" value={s.offsetDays} onChange={(e) => setStep(i, { offsetDays: Math.floor(Number(e.target.value) || 0) })} />
+          <button style={btnTinyDanger} onClick={() => setDraft({ ...draft, installments: draft.installments.filter((_, j) => j !== i) })}>✕</button>
+        </div>
+      ))}
+      {percentTotal > 0 && Math.abs(percentTotal - 100) > 0.001 && (
+        <div style={{ fontSize: 12, color: "#b45309" }}>Percentages add up to {percentTotal}%, not 100%.</div>
+      )}
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <button style={btnTiny} onClick={() => setDraft({ ...draft, installments: [...draft.installments, blankInstallment()] })}>Add installment</button>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button style={btnTiny} onClick={() => setDraft(null)}>Cancel</button>
+          <button
+            style={{ ...btnTiny, background: "#2563eb" }}
+            disabled={!draft.name.trim() || draft.installments.length === 0}
+            onClick={() => { onSave({ ...draft, name: draft.name.trim() }); setDraft(null); }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Object URL for a stored attachment, typed as the image or PDF it was attached as; revoked when the component goes away */
+const useFileUrl = (attachment: Attachment) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const { id, type } = attachment;
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    if (!ACCEPTED_TYPES.includes(type)) return;
+    loadFile(id)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(new Blob([blob], { type }));
+        setUrl(objectUrl);
+      })
+      .catch(() => !cancelled && setUrl(null)); // shown as not stored on this device
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, type]);
+  return url;
+};
+
+function AttachmentThumb({ attachment, selected, onClick }: { attachment: Attachment; selected: boolean; onClick: () => void }) {
+  const url = useFileUrl(attachment);
+  return (
+    <button
+      onClick={onClick}
+      title={`${attachment.name} · ${fileSize(attachment.size)}`}
+      style={{ width: 56, height: 56, padding: 0, borderRadius: 8, overflow: "hidden", cursor: "pointer", background: "#f3f4f6", border: selected ? "2px solid #2563eb" : "1px solid #e5e7eb" }}
+    >
+      {url && isImage(attachment) ? <img src={url} alt={attachment.name} style={{ width: "100%", height: "100%", objectFit: "cover" }} /> : <span style={{ fontSize: 12 }}>{isImage(attachment) ? "…" : "PDF"}</span>}
+    </button>
+  );
+}
+
+function AttachmentPreview({ attachment, onRemove, onClose }: { attachment: Attachment; onRemove: () => void; onClose: () => void }) {
+  const url = useFileUrl(attachment);
+  return (
+    <div style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 8, marginTop: 8 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 13, marginBottom: 6 }}>
+        <span><strong>{attachment.name}</strong> <span style={{ color: "#6b7280" }}>· {fileSize(attachment.size)}</span></span>
+        <div style={{ display: "flex", gap: 6 }}>
+          {url && !isImage(attachment) && <a href={url} target="_blank" rel="noopener noreferrer" style={btnTiny}>Open in new tab</a>}
+          {url && <a href={url} download={attachment.name} style={btnTiny}>Download</a>}
+          <button style={btnTinyDanger} onClick={onRemove}>Remove</button>
+          <button style={btnTiny} onClick={onClose}>Close</button>
+        </div>
+      </div>
+      {!url && <div style={{ color: "#6b7280", fontSize: 13 }}>This file isn't stored on this device.</div>}
+      {url && (isImage(attachment)
+        ? <img src={url} alt={attachment.name} style={{ maxWidth: "100%", maxHeight: 480, display: "block", margin: "0 auto" }} />
+        // the blob always carries the stored PDF type, so the browser's own PDF viewer shows it and nothing in it runs as a page;
+        // a sandboxed iframe would keep Chromium's viewer from loading at all
+        : (
+          <object data={url} type="application/pdf" aria-label={attachment.name} style={{ width: "100%", height: 480, display: "block" }}>
+            <div style={{ color: "#6b7280", fontSize: 13 }}>This browser can't show the PDF here; open it in a new tab or download it.</div>
+          </object>
+        ))}
+    </div>
+  );
+}
+
+/** Thumbnails of an expense's receipts, with a file picker; files can also be dropped anywhere on the row */
+function ExpenseAttachments({ attachments, onAdd, onRemove }: {
+  attachments: Attachment[];
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+}) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = attachments.find((a) => a.id === openId);
+  return (
+    <div>
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6 }}>
+        {attachments.map((a) => (
+          <AttachmentThumb key={a.id} attachment={a} selected={a.id === openId} onClick={() => setOpenId(a.id === openId ? null : a.id)} />
+        ))}
+        <label style={{ ...btnTiny, cursor: "pointer" }}>
+          📎 Attach
+          <input
+            type="file"
+            multiple
+            accept="image/*,application/pdf"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              onAdd([...(e.target.files || [])]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {attachments.length === 0 && <span style={{ fontSize: 12, color: "#b45309" }}>No receipt — attach or drop one here</span>}
+      </div>
+      {open && <AttachmentPreview attachment={open} onRemove={() => { onRemove(open.id); setOpenId(null); }} onClose={() => setOpenId(null)} />}
+    </div>
+  );
+}
+
+/** Split a compensation total into dated installments owed to the donor */
+function CompensationForm({ taxonomy, defaultCurrency, onAdd }: {
+  taxonomy: Taxonomy;
+  defaultCurrency: string;
+  onAdd: (payables: Omit<DonorPayable, "id">[]) => void;
+}) {
+  const [description, setDescription] = useState("Compensation");
+  const [total, setTotal] = useState<number>(0);
+  const [code, setCode] = useState(defaultCurrency);
+  const [count, setCount] = useState(1);
+  const [firstDate, setFirstDate] = useState(todayISO());
+  const [everyDays, setEveryDays] = useState(30);
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto 1fr 1fr 1fr auto", gap: 8, alignItems: "end" }}>
+      <div><div style={label}>Description</div><input value={description} onChange={(e) => setDescription(e.target.value)} /></div>
+      <div><div style={label}>Total</div><input type="number" value={total} onChange={(e) => setTotal(Number(e.target.value))} /></div>
+      <div><div style={label}>Currency</div><CurrencySelect value={code} onChange={setCode} /></div>
+      <div><div style={label}>Installments</div><input type="number" min={1} value={count} onChange={(e) => setCount(Math.max(1, Math.floor(Number(e.target.value) || 1)))} /></div>
+      <div><div style={label}>First due</div><input type="date" value={firstDate} onChange={(e) => setFirstDate(e.target.value)} /></div>
+      <div><div style={label}>Days apart</div><input type="number" min={1} value={everyDays} disabled={count === 1} onChange={(e) => setEveryDays(Math.max(1, Math.floor(Number(e.target.value) || 1)))} /></div>
+      <div>
+        <button
+          style={btnPrimary}
+          disabled={!total || !description.trim()}
+          onClick={() => {
+            const { main, sub } = compensationCategory(taxonomy);
+            onAdd(compensationSchedule(Number(total), count, firstDate, everyDays).map((step, i) => ({
+              kind: "compensation",
+              description: count > 1 ? `${description.trim()} (${i + 1}/${count})` : description.trim(),
+              amount: step.amount,
+              currency: code,
+              category: main,
+              subCategory: sub,
+              date: step.date,
+              status: "scheduled",
+            })));
+            setTotal(0);
+          }}
+        >
+          Schedule
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** A reimbursement the donor asks for; it waits for approval before anything is posted */
+function ClaimForm({ taxonomy, defaultCurrency, onSubmit }: {
+  taxonomy: Taxonomy;
+  defaultCurrency: string;
+  onSubmit: (payable: Omit<DonorPayable, "id">) => void;
+}) {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState<number>(0);
+  const [code, setCode] = useState(defaultCurrency);
+  const [date, setDate] = useState(todayISO());
+  const [main, setMain] = useState("");
+  const [sub, setSub] = useState("");
+  const subs = activeSubs(taxonomy, main);
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto 1fr 1fr 1fr auto", gap: 8, alignItems: "end" }}>
+      <div><div style={label}>What for</div><input value={description} placeholder="e.g. Taxi to clinic" onChange={(e) => setDescription(e.target.value)} /></div>
+      <div><div style={label}>Amount</div><input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} /></div>
+      <div><div style={label}>Currency</div><CurrencySelect value={code} onChange={setCode} /></div>
+      <div><div style={label}>Submitted</div><input type="date" value={date} onChange={(e) => setDate(e.target.value)} /></div>
+      <div>
+        <div style={label}>Category</div>
+        <select value={main} onChange={(e) => { setMain(e.target.value); setSub(""); }}>
+          <option value="">— Select —</option>
+          {activeMains(taxonomy).map((c) => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <div style={label}>Subcategory</div>
+        <select value={sub} onChange={(e) => setSub(e.target.value)} disabled={subs.length === 0}>
+          <option value="">{subs.length ? "— Select —" : "(none)"}</option>
+          {subs.map((x) => (
+            <option key={x} value={x}>{x}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <button
+          style={btnPrimary}
+          disabled={!amount || !description.trim() || !main}
+          onClick={() => {
+            onSubmit({ kind: "reimbursement", description: description.trim(), amount: Number(amount) || 0, currency: code, category: main, subCategory: sub || undefined, date, status: "submitted" });
+            setDescription("");
+            setAmount(0);
+          }}
+        >
+          Submit claim
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const PAYABLE_COLORS: Record<DonorPayable["status"], string> = { scheduled: "#6b7280", submitted: "#d97706", posted: "#16a34a", rejected: "#dc2626" };
+
+/** The donor's payable ledger: pay installments, approve or reject claims */
+function PayablesList({ payables, accounts, defaultCurrency, onPost, onReject, onDelete }: {
+  payables: DonorPayable[];
+  accounts: Account[];
+  defaultCurrency: string;
+  onPost: (id: string, accountId: string) => void;
+  onReject: (id: string, reason: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+  const sorted = [...payables].sort((a, b) => Number(isOpen(b)) - Number(isOpen(a)) || a.date.localeCompare(b.date));
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+        <span style={{ color: "#6b7280" }}>Pay out from</span>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+      </div>
+      {payables.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>Nothing owed to the donor yet.</div>}
+      {sorted.map((p) => (
+        <div key={p.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, border: "1px solid #e5e7eb", borderRadius: 12, padding: 10, fontSize: 14 }}>
+          <div>
+            <span style={pillFilled(PAYABLE_COLORS[p.status])}>{p.status === "submitted" ? "awaiting approval" : p.status}</span>{" "}
+            <strong>{p.description}</strong>{" "}
+            <span style={{ fontSize: 12, color: "#6b7280" }}>
+              {p.kind === "compensation" ? `due ${p.date}` : `submitted ${p.date} · ${p.category}${p.subCategory ? ` › ${p.subCategory}` : ""}`}
+              {p.decidedOn ? ` · ${p.status} ${p.decidedOn}` : ""}
+              {p.reason ? ` · ${p.reason}` : ""}
+            </span>
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <span>{currency(p.amount, p.currency || defaultCurrency)}</span>
+            {p.status === "scheduled" && <button style={btnTiny} disabled={!accountId} onClick={() => onPost(p.id, accountId)}>Pay</button>}
+            {p.status === "submitted" && (
+              <>
+                <button style={{ ...btnTiny, background: "#16a34a" }} disabled={!accountId} onClick={() => onPost(p.id, accountId)}>Approve</button>
+                <button style={btnTinyDanger} onClick={() => { const reason = prompt("Reason for rejecting this claim?"); if (reason !== null) onReject(p.id, reason); }}>Reject</button>
+              </>
+            )}
+            {isOpen(p) && <button style={btnTinyDanger} onClick={() => { if (confirm("Delete this item?")) onDelete(p.id); }}>✕</button>}
+          </div>
+        </div>
+      ))}
+      <div style={{ fontSize: 12, color: "#6b7280" }}>Paying an installment or approving a claim posts it as an expense on the chosen account.</div>
+    </div>
+  );
+}
+
+/** Budget, spent and remaining per category; subcategory budgets roll up into their main category */
+function CategoryBudgets({ groups, budgets, money, onChange }: {
+  groups: VarianceGroup[];
+  budgets: Record<string, number>;
+  money: (n: number) => string;
+  onChange: (key: string, amount: number | undefined) => void;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const relevant = (l: VarianceLine) => showAll || l.budget > 0 || l.spent > 0;
+  const cols = "2fr 1fr 1fr 1fr";
+
+  const row = (l: VarianceLine, name: string, indent: boolean) => (
+    <div key={l.key} style={{ display: "grid", gridTemplateColumns: cols, gap: 6, alignItems: "center", fontSize: 14, paddingLeft: indent ? 16 : 0, fontWeight: indent ? 400 : 600 }}>
+      <span>{name}{l.over && <span style={{ ...pillFilled("#dc2626"), marginLeft: 6 }}>over</span>}</span>
+      <input
+        type="number"
+        value={budgets[l.key] ?? ""}
+        placeholder={l.rolledUp && l.budget ? `${l.budget} (subs)` : "—"}
+        onChange={(e) => onChange(l.key, e.target.value === "" ? undefined : Number(e.target.value))}
+      />
+      <span style={{ textAlign: "right" }}>{money(l.spent)}</span>
+      <span style={{ textAlign: "right", color: l.over ? "#b91c1c" : "#6b7280" }}>{l.budget > 0 ? money(l.remaining) : "—"}</span>
+    </div>
+  );
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ display: "grid", gridTemplateColumns: cols, gap: 6, fontSize: 12, color: "#6b7280" }}>
+        <span>Category</span><span>Budget</span><span style={{ textAlign: "right" }}>Spent</span><span style={{ textAlign: "right" }}>Remaining</span>
+      </div>
+      {groups.filter((g) => relevant(g) || g.subs.some(relevant)).map((g) => (
+        <div key={g.key} style={{ display: "grid", gap: 4, borderTop: "1px solid #e5e7eb", paddingTop: 4 }}>
+          {row(g, g.main, false)}
+          {g.subs.filter(relevant).map((sub) => row(sub, sub.sub, true))}
+        </div>
+      ))}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+        <span>Leave a main category blank to use the sum of its subcategory budgets.</span>
+        <button style={btnTiny} onClick={() => setShowAll((v) => !v)}>{showAll ? "Hide unused" : "Show all categories"}</button>
+      </div>
+    </div>
+  );
+}
+
+/** Workspace category list: add, rename, reorder, merge and archive; renames and merges rewrite existing expenses */
+function TaxonomyEditor({ taxonomy, usage, onChange, onRename, onMerge }: {
+  taxonomy: Taxonomy;
+  /** expenses per category key, across every case */
+  usage: Record<string, number>;
+  onChange: (t: Taxonomy) => void;
+  onRename: (path: CategoryPath, name: string) => void;
+  onMerge: (from: CategoryPath, into: CategoryPath) => void;
+}) {
+  const [renaming, setRenaming] = useState<{ path: CategoryPath; name: string } | null>(null);
+  const [newMain, setNewMain] = useState("");
+  const [newSubs, setNewSubs] = useState<Record<string, string>>({});
+
+  const siblings = ({ main, sub }: CategoryPath) =>
+    sub === undefined ? taxonomy.map((m) => m.name) : taxonomy.find((m) => m.name === main)?.subs.map((s) => s.name) || [];
+  const nameTaken = (path: CategoryPath, name: string) => siblings(path).includes(name.trim());
+  // merge targets: other main categories for a main; any main or subcategory for a subcategory
+  const targets = (path: CategoryPath) =>
+    taxonomy.flatMap((m): CategoryPath[] =>
+      path.sub === undefined
+        ? m.name === path.main ? [] : [{ main: m.name }]
+        : [{ main: m.name }, ...m.subs.filter((s) => m.name !== path.main || s.name !== path.sub).map((s) => ({ main: m.name, sub: s.name }))]);
+
+  const row = (path: CategoryPath, node: CategoryNode, index: number, count: number) => {
+    const key = budgetKey(path.main, path.sub);
+    const editing = renaming && budgetKey(renaming.path.main, renaming.path.sub) === key;
+    return (
+      <div key={key} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 14, paddingLeft: path.sub === undefined ? 0 : 16, opacity: node.archived ? 0.6 : 1 }}>
+        {editing ? (
+          <>
+            <input value={renaming.name} onChange={(e) => setRenaming({ ...renaming, name: e.target.value })} />
+            <button
+              style={{ ...btnTiny, background: "#2563eb" }}
+              disabled={!renaming.name.trim() || nameTaken(path, renaming.name)}
+              onClick={() => { onRename(path, renaming.name.trim()); setRenaming(null); }}
+            >
+              Save
+            </button>
+            <button style={btnTiny} onClick={() => setRenaming(null)}>Cancel</button>
+            {nameTaken(path, renaming.name) && renaming.name.trim() !== node.name && <span style={{ fontSize: 12, color: "#b45309" }}>already exists — merge instead</span>}
+          </>
+        ) : (
+          <>
+            <span style={{ flex: 1, fontWeight: path.sub === undefined ? 600 : 400 }}>
+              {node.name}
+              {node.archived && <span style={{ ...pill, marginLeft: 6 }}>archived</span>}
+              <span style={{ fontSize: 12, color: "#6b7280" }}> · {usage[key] || 0} expense(s)</span>
+            </span>
+            <button style={btnTiny} disabled={index === 0} onClick={() => onChange(moveCategory(taxonomy, path, -1))}>↑</button>
+            <button style={btnTiny} disabled={index === count - 1} onClick={() => onChange(moveCategory(taxonomy, path, 1))}>↓</button>
+            <button style={btnTiny} onClick={() => setRenaming({ path, name: node.name })}>Rename</button>
+            <button style={btnTiny} onClick={() => onChange(setArchived(taxonomy, path, !node.archived))}>{node.archived ? "Restore" : "Archive"}</button>
+            <select
+              value=""
+              onChange={(e) => {
+                const [main, sub] = e.target.value.split(" › ");
+                if (confirm(`Merge "${key}" into "${e.target.value}"? Every expense using it is moved across.`)) onMerge(path, { main, sub });
+              }}
+            >
+              <option value="">Merge into…</option>
+              {targets(path).map((t) => {
+                const value = budgetKey(t.main, t.sub);
+                return <option key={value} value={value}>{value}</option>;
+              })}
+            </select>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      {taxonomy.map((m, i) => (
+        <div key={m.name} style={{ display: "grid", gap: 4, borderTop: "1px solid #e5e7eb", paddingTop: 4 }}>
+          {row({ main: m.name }, m, i, taxonomy.length)}
+          {m.subs.map((s, j) => row({ main: m.name, sub: s.name }, s, j, m.subs.length))}
+          <div style={{ display: "flex", gap: 6, paddingLeft: 16 }}>
+            <input
+              value={newSubs[m.name] || ""}
+              placeholder="New subcategory"
+              onChange={(e) => setNewSubs({ ...newSubs, [m.name]: e.target.value })}
+            />
+            <button
+              style={btnTiny}
+              disabled={!newSubs[m.name]?.trim() || nameTaken({ main: m.name, sub: "" }, newSubs[m.name])}
+              onClick={() => { onChange(addCategory(taxonomy, { main: m.name, sub: newSubs[m.name].trim() })); setNewSubs({ ...newSubs, [m.name]: "" }); }}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      ))}
+      <div style={{ display: "flex", gap: 6, borderTop: "1px solid #e5e7eb", paddingTop: 8 }}>
+        <input value={newMain} placeholder="New main category" onChange={(e) => setNewMain(e.target.value)} />
+        <button
+          style={btn}
+          disabled={!newMain.trim() || nameTaken({ main: "" }, newMain)}
+          onClick={() => { onChange(addCategory(taxonomy, { main: newMain.trim() })); setNewMain(""); }}
+        >
+          Add category
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RuleForm({ rule, taxonomy, onSave, onCancel }: {
+  rule: CategoryRule;
+  taxonomy: Taxonomy;
+  onSave: (rule: CategoryRule) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<CategoryRule>(rule);
+  const set = (patch: Partial<CategoryRule>) => setDraft((d) => ({ ...d, ...patch }));
+  const amount = (v: string) => (v === "" ? undefined : Number(v));
+  const mains = [...new Set([draft.main, ...activeMains(taxonomy)])];
+  const subs = [...new Set([...(draft.sub ? [draft.sub] : []), ...activeSubs(taxonomy, draft.main)])];
+  const invalid = !draft.pattern.trim() || !rulePattern(draft);
+
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "auto 2fr 1fr 1fr 1fr 1fr", gap: 6, alignItems: "end", padding: 8, background: "#f9fafb", borderRadius: 8 }}>
+      <div>
+        <div style={label}>Match</div>
+        <select value={draft.match} onChange={(e) => set({ match: e.target.value as CategoryRule["match"] })}>
+          <option value="keyword">keyword</option>
+          <option value="regex">regex</option>
+        </select>
+      </div>
+      <div><div style={label}>Pattern</div><input value={draft.pattern} onChange={(e) => set({ pattern: e.target.value })} style={{ width: "100%" }} /></div>
+      <div><div style={label}>Min amount</div><input type="number" value={draft.minAmount ?? ""} onChange={(e) => set({ minAmount: amount(e.target.value) })} /></div>
+      <div><div style={label}>Max amount</div><input type="number" value={draft.maxAmount ?? ""} onChange={(e) => set({ maxAmount: amount(e.target.value) })} /></div>
+      <div>
+        <div style={label}>Category</div>
+        <select value={draft.main} onChange={(e) => set({ main: e.target.value, sub: undefined })}>
+          {mains.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+      <div>
+        <div style={label}>Subcategory</div>
+        <select value={draft.sub || ""} onChange={(e) => set({ sub: e.target.value || undefined })} disabled={subs.length === 0}>
+          <option value="">{subs.length ? "— None —" : "(none)"}</option>
+          {subs.map((sub) => <option key={sub} value={sub}>{sub}</option>)}
+        </select>
+      </div>
+      <div style={{ gridColumn: "1 / -1", display: "flex", justifyContent: "flex-end", alignItems: "center", gap: 8 }}>
+        {draft.pattern.trim() && !rulePattern(draft) && <span style={{ fontSize: 12, color: "#b91c1c" }}>Not a valid regular expression</span>}
+        <button style={btnTiny} onClick={onCancel}>Cancel</button>
+        <button style={{ ...btnTiny, background: "#2563eb" }} disabled={invalid} onClick={() => onSave({ ...draft, pattern: draft.pattern.trim() })}>Save</button>
+      </div>
+    </div>
+  );
+}
+
+/** Categorization rules in priority order, with a box to try a note against them */
+function RulesEditor({ rules, taxonomy, onChange }: { rules: CategoryRule[]; taxonomy: Taxonomy; onChange: (rules: CategoryRule[]) => void }) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [testText, setTestText] = useState("");
+  const [testAmount, setTestAmount] = useState("");
+  const test = testText ? suggestCategory(rules, taxonomy, testText, testAmount === "" ? undefined : Number(testAmount)) : null;
+
+  const replace = (rule: CategoryRule) => onChange(rules.map((r) => (r.id === rule.id ? rule : r)));
+  const move = (i: number, by: number) => {
+    const next = [...rules];
+    [next[i], next[i + by]] = [next[i + by], next[i]];
+    onChange(next);
+  };
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 8 }}>
+        <input value={testText} onChange={(e) => setTestText(e.target.value)} placeholder="Try a note, e.g. “Uber to clinic”" />
+        <input type="number" value={testAmount} onChange={(e) => setTestAmount(e.target.value)} placeholder="Amount (optional)" />
+      </div>
+      {test && (
+        <div style={{ fontSize: 13 }}>
+          → <strong>{test.main}{test.sub ? ` › ${test.sub}` : ""}</strong>{" "}
+          <span style={{ color: "#6b7280" }}>
+            {test.rule ? `rule #${rules.indexOf(test.rule) + 1} ${describeRule(test.rule)}, ${Math.round(test.confidence * 100)}% sure` : "no rule matched"}
+          </span>
+        </div>
+      )}
+      <div style={{ display: "grid", gap: 4, maxHeight: 420, overflow: "auto" }}>
+        {rules.map((r, i) =>
+          editingId === r.id ? (
+            <RuleForm key={r.id} rule={r} taxonomy={taxonomy} onSave={(rule) => { replace(rule); setEditingId(null); }} onCancel={() => setEditingId(null)} />
+          ) : (
+            <div key={r.id} style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13, opacity: r.disabled ? 0.5 : 1, background: test?.rule?.id === r.id ? "#eef2ff" : undefined }}>
+              <input type="checkbox" checked={!r.disabled} title="Enabled" onChange={(e) => replace({ ...r, disabled: e.target.checked ? undefined : true })} />
+              <span style={{ color: "#6b7280", width: 24 }}>{i + 1}.</span>
+              <span style={{ flex: 1, fontFamily: "monospace", color: rulePattern(r) ? undefined : "#b91c1c" }}>{describeRule(r)}</span>
+              <span>→ {r.main}{r.sub ? ` › ${r.sub}` : ""}</span>
+              {r.learned && <span style={pill}>learned</span>}
+              <button style={btnTiny} disabled={i === 0} onClick={() => move(i, -1)}>↑</button>
+              <button style={btnTiny} disabled={i === rules.length - 1} onClick={() => move(i, 1)}>↓</button>
+              <button style={btnTiny} onClick={() => setEditingId(r.id)}>Edit</button>
+              <button style={btnTinyDanger} onClick={() => onChange(rules.filter((x) => x.id !== r.id))}>Delete</button>
+            </div>
+          ))}
+      </div>
+      {adding ? (
+        <RuleForm
+          rule={{ id: `rule-${Math.random().toString(36).slice(2)}`, match: "keyword", pattern: "", main: activeMains(taxonomy)[0] || "Misc" }}
+          taxonomy={taxonomy}
+          onSave={(rule) => { onChange([rule, ...rules]); setAdding(false); }}
+          onCancel={() => setAdding(false)}
+        />
+      ) : (
+        <div><button style={btn} onClick={() => setAdding(true)}>Add rule</button> <span style={{ fontSize: 12, color: "#6b7280" }}>New rules go to the top; the first match wins.</span></div>
+      )}
+    </div>
+  );
+}
+
+/** Budget vs. actual per lifecycle stage, with the stage dates that place a case in its current stage */
+function LifecycleTracker({ stages, lifecycle, budgets, unstaged, current, money, onChange, onStagesChange }: {
+  stages: LifecycleStage[];
+  lifecycle: Record<string, CaseStage>;
+  budgets: StageBudget[];
+  unstaged: number;
+  current?: LifecycleStage;
+  money: (n: number) => string;
+  onChange: (stageId: string, patch: CaseStage) => void;
+  onStagesChange: (stages: LifecycleStage[]) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const now = budgets.find((b) => b.stage.id === current?.id);
+
+  if (editing) return <StageListEditor stages={stages} onDone={(next) => { onStagesChange(next); setEditing(false); }} onCancel={() => setEditing(false)} />;
+
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {now ? (
+        <div style={{ padding: 10, borderRadius: 12, background: now.remaining < 0 ? "#fef2f2" : "#f0fdf4", fontSize: 14 }}>
+          <div style={{ display: "flex", justifyContent: "space-between" }}>
+            <strong>Now: {now.stage.name}</strong>
+            <span>{money(now.actual)} of {money(now.budget)}</span>
+          </div>
+          <div style={{ height: 6, background: "#e5e7eb", borderRadius: 999, marginTop: 6 }}>
+            <div style={{ height: 6, borderRadius: 999, width: `${Math.min(100, now.budget ? (now.actual / now.budget) * 100 : 100)}%`, background: now.remaining < 0 ? "#dc2626" : "#16a34a" }} />
+          </div>
+          <div style={{ fontSize: 12, color: now.remaining < 0 ? "#b91c1c" : "#6b7280", marginTop: 4 }}>
+            {now.remaining < 0 ? `${money(-now.remaining)} over budget` : `${money(now.remaining)} left`}
+          </div>
+        </div>
+      ) : (
+        <div style={{ color: "#6b7280", fontSize: 14 }}>Not started — set the date the first stage began.</div>
+      )}
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr", gap: 6, fontSize: 12, color: "#6b7280" }}>
+        <span>Stage</span><span>Started on</span><span>Budget</span><span style={{ textAlign: "right" }}>Spent</span><span style={{ textAlign: "right" }}>Left</span>
+      </div>
+      {budgets.map((b) => (
+        <div key={b.stage.id} style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr", gap: 6, alignItems: "center", fontSize: 14 }}>
+          <span style={{ fontWeight: b.stage.id === current?.id ? 700 : 400 }}>{b.stage.name}</span>
+          <input type="date" value={b.startedOn || ""} onChange={(e) => onChange(b.stage.id, { ...lifecycle[b.stage.id], startedOn: e.target.value || undefined })} />
+          <input type="number" value={lifecycle[b.stage.id]?.budget ?? 0} onChange={(e) => onChange(b.stage.id, { ...lifecycle[b.stage.id], budget: Number(e.target.value) || 0 })} />
+          <span style={{ textAlign: "right" }}>{money(b.actual)}</span>
+          <span style={{ textAlign: "right", color: b.remaining < 0 ? "#b91c1c" : undefined }}>{money(b.remaining)}</span>
+        </div>
+      ))}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: 12, color: "#6b7280" }}>
+        <span>{unstaged > 0.005 ? `${money(unstaged)} spent before the first stage or in a removed stage` : ""}</span>
+        <button style={btnTiny} onClick={() => setEditing(true)}>Edit stages</button>
+      </div>
+    </div>
+  );
+}
+
+/** Rename, reorder, add and remove the workspace's lifecycle stages */
+function StageListEditor({ stages, onDone, onCancel }: {
+  stages: LifecycleStage[];
+  onDone: (stages: LifecycleStage[]) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<LifecycleStage[]>(stages);
+  const move = (i: number, by: number) =>
+    setDraft((d) => {
+      const next = [...d];
+      [next[i], next[i + by]] = [next[i + by], next[i]];
+      return next;
+    });
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={label}>Stages, in the order a case moves through them (shared by all cases)</div>
+      {draft.map((s, i) => (
+        <div key={s.id} style={{ display: "grid", gridTemplateColumns: "1fr auto auto auto", gap: 6 }}>
+          <input value={s.name} onChange={(e) => setDraft((d) => d.map((x) => (x.id === s.id ? { ...x, name: e.target.value } : x)))} />
+          <button style={btnTiny} disabled={i === 0} onClick={() => move(i, -1)}>↑</button>
+          <button style={btnTiny} disabled={i === draft.length - 1} onClick={() => move(i, 1)}>↓</button>
+          <button style={btnTinyDanger} onClick={() => setDraft((d) => d.filter((x) => x.id !== s.id))}>✕</button>
+        </div>
+      ))}
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <button style={btnTiny} onClick={() => setDraft((d) => [...d, { id: `stage-${Math.random().toString(36).slice(2)}`, name: "New stage" }])}>Add stage</button>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button style={btnTiny} onClick={onCancel}>Cancel</button>
+          <button style={{ ...btnTiny, background: "#2563eb" }} disabled={draft.some((s) => !s.name.trim())} onClick={() => onDone(draft)}>Save</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Per-case thresholds for the payment status engine */
+function StatusRulesSettings({ rules, onChange }: { rules: StatusRules; onChange: (rules: StatusRules) => void }) {
+  const field = (key: keyof StatusRules, text: string) => (
+    <Row label={text}>
+      <input
+        type="number"
+        min={0}
+        value={rules[key]}
+        onChange={(e) => onChange({ ...rules, [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+        style={{ width: 80 }}
+      />
+    </Row>
+  );
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {field("dueWindowDays", "Due window (days)")}
+      {field("graceDays", "Grace period (days)")}
+      {field("missedAfterDays", "Missed after (days)")}
+      <div style={{ fontSize: 12, color: "#6b7280" }}>
+        An invoice is due this many days before its due date, overdue once the grace period has passed, and missed after a further
+        “missed after” days. Set a stage by hand on the Payments board; choose “auto” to hand it back to these rules.
+      </div>
+    </div>
+  );
+}
+
+/** Unpaid invoice amounts by days past due; one row per case, or a single row for the open case */
+function AgingTable({ rows, money, onOpen }: {
+  rows: { id: string; name: string; aging: Aging }[];
+  money: (n: number) => string;
+  onOpen?: (id: string) => void;
+}) {
+  const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #f3f4f6", textAlign: "right" };
+  const late = (k: (typeof AGING_BUCKETS)[number]) => k !== "current";
+  return (
+    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+      <thead>
+        <tr style={{ fontSize: 12, color: "#6b7280" }}>
+          {rows.length > 1 && <th style={{ ...cell, textAlign: "left" }}>Case</th>}
+          {AGING_BUCKETS.map((k) => <th key={k} style={cell}>{k === "current" ? "Current" : `${k} days`}</th>)}
+          <th style={cell}>Total</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.id} onClick={onOpen && (() => onOpen(r.id))} style={{ cursor: onOpen ? "pointer" : undefined, fontWeight: r.id === "total" ? 700 : 400 }}>
+            {rows.length > 1 && <td style={{ ...cell, textAlign: "left" }}>{r.name}</td>}
+            {AGING_BUCKETS.map((k) => (
+              <td key={k} style={{ ...cell, color: late(k) && r.aging[k] > 0.005 ? "#b91c1c" : undefined }}>{r.aging[k] > 0.005 ? money(r.aging[k]) : "—"}</td>
+            ))}
+            <td style={cell}>{money(r.aging.total)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function PlannedExpenseForm({ accounts, defaultCurrency, onAdd }: {
+  accounts: Account[];
+  defaultCurrency: string;
+  onAdd: (payload: Omit<PlannedExpense, "id">) => void;
+}) {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState<number>(0);
+  const [code, setCode] = useState(defaultCurrency);
+  const [date, setDate] = useState(todayISO());
+  const [repeat, setRepeat] = useState<PlannedExpense["repeat"]>("once");
+  const [until, setUntil] = useState("");
+  const [accountId, setAccountId] = useState(accounts[0]?.id || "");
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto 1fr 1fr 1fr 1fr auto", gap: 8, alignItems: "end" }}>
+      <div>
+        <div style={label}>Description</div>
+        <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g. Monitoring visits" />
+      </div>
+      <div>
+        <div style={label}>Amount</div>
+        <input type="number" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
+      </div>
+      <div>
+        <div style={label}>Currency</div>
+        <CurrencySelect value={code} onChange={setCode} />
+      </div>
+      <div>
+        <div style={label}>{repeat === "once" ? "Date" : "First date"}</div>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+      </div>
+      <div>
+        <div style={label}>Repeats</div>
+        <select value={repeat} onChange={(e) => setRepeat(e.target.value as PlannedExpense["repeat"])}>
+          <option value="once">Once</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </div>
+      <div>
+        <div style={label}>Until</div>
+        <input type="date" value={until} disabled={repeat === "once"} onChange={(e) => setUntil(e.target.value)} />
+      </div>
+      <div>
+        <div style={label}>Paid from</div>
+        <AccountSelect accounts={accounts} value={accountId} onChange={setAccountId} />
+      </div>
+      <div>
+        <button
+          style={btnPrimary}
+          disabled={!description.trim() || !amount || !accountId}
+          onClick={() => {
+            onAdd({ description: description.trim(), amount: Number(amount) || 0, currency: code, date, repeat, until: repeat !== "once" && until ? until : undefined, accountId });
+            setDescription("");
+            setAmount(0);
+          }}
+        >
+          Plan
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Weekly projected balance per account, flagging the first week an account would be overdrawn */
+function CashFlowForecast({ weeks, firstNegative, accounts, planned, defaultCurrency, money, onAdd, onDelete }: {
+  weeks: ForecastWeek[];
+  firstNegative: Record<string, string>;
+  accounts: Account[];
+  planned: PlannedExpense[];
+  defaultCurrency: string;
+  money: (n: number) => string;
+  onAdd: (payload: Omit<PlannedExpense, "id">) => void;
+  onDelete: (id: string) => void;
+}) {
+  const cell: React.CSSProperties = { padding: "4px 8px", borderBottom: "1px solid #f3f4f6", textAlign: "right" };
+  const warnings = accounts.filter((a) => firstNegative[a.id]);
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {warnings.map((a) => (
+        <div key={a.id} style={{ padding: 10, borderRadius: 12, background: "#fef2f2", color: "#b91c1c", fontSize: 14 }}>
+          ⚠️ {a.name} is projected to go negative in the week of {firstNegative[a.id]}.
+        </div>
+      ))}
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ fontSize: 12, color: "#6b7280" }}>
+              <th style={{ ...cell, textAlign: "left" }}>Week of</th>
+              <th style={cell}>In</th>
+              <th style={cell}>Out</th>
+              {accounts.map((a) => <th key={a.id} style={cell}>{a.name}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {weeks.map((w) => (
+              <tr key={w.start}>
+                <td style={{ ...cell, textAlign: "left" }}>{w.start}</td>
+                <td style={cell}>{w.inflow ? money(w.inflow) : "—"}</td>
+                <td style={cell}>{w.outflow ? money(w.outflow) : "—"}</td>
+                {accounts.map((a) => {
+                  const balance = w.balances[a.id] ?? 0;
+                  return <td key={a.id} style={{ ...cell, color: balance < -0.005 ? "#b91c1c" : undefined, fontWeight: firstNegative[a.id] === w.start ? 700 : 400 }}>{money(balance)}</td>;
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ fontSize: 12, color: "#6b7280" }}>
+        Starts from today's balances. Unpaid invoices are counted on their due date (past-due ones this week, missed ones not at all); planned expenses go out on their dates.
+      </div>
+      <div style={{ fontWeight: 600, fontSize: 14 }}>Planned expenses</div>
+      {planned.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>Nothing planned yet.</div>}
+      {planned.map((pe) => (
+        <div key={pe.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", border: "1px solid #e5e7eb", borderRadius: 12, padding: 8, fontSize: 14 }}>
+          <div>
+            <strong>{pe.description}</strong>{" "}
+            <span style={{ fontSize: 12, color: "#6b7280" }}>
+              {pe.repeat === "once" ? pe.date : `${pe.repeat} from ${pe.date}${pe.until ? ` to ${pe.until}` : ""}`} · {accounts.find((a) => a.id === pe.accountId)?.name || "—"}
+            </span>
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <span>{currency(pe.amount, pe.currency || defaultCurrency)}</span>
+            <button style={btnTinyDanger} onClick={() => onDelete(pe.id)}>Delete</button>
+          </div>
+        </div>
+      ))}
+      <PlannedExpenseForm accounts={accounts} defaultCurrency={defaultCurrency} onAdd={onAdd} />
+    </div>
+  );
+}
+
+/** Comma-separated contact addresses, saved when the field loses focus */
+function ContactEmails({ emails, onChange }: { emails: string[]; onChange: (emails: string[]) => void }) {
+  const [text, setText] = useState(emails.join(", "));
+  const invalid = parseEmails(text).filter((e) => !isEmail(e));
+  return (
+    <div>
+      <input
+        value={text}
+        placeholder="client@example.com"
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(parseEmails(text).filter(isEmail))}
+        style={{ width: "100%" }}
+      />
+      {invalid.length > 0 && <div style={{ fontSize: 12, color: "#b45309" }}>Not an email address: {invalid.join(", ")}</div>}
+    </div>
+  );
+}
+
+const OUTBOX_COLORS: Record<OutboxMessage["status"], string> = { queued: "#6b7280", sent: "#059669", failed: "#dc2626" };
+
+/** Delivery settings and the case's queued, sent and failed reminder emails */
+function OutboxPanel({ messages, settings, onSettings, onDeliver, onDelete }: {
+  messages: OutboxMessage[];
+  settings: DeliverySettings;
+  onSettings: (settings: DeliverySettings) => void;
+  onDeliver: (ids: string[]) => void;
+  onDelete: (id: string) => void;
+}) {
+  const pending = messages.filter(canDeliver);
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <Row label="Deliver by">
+        <select value={settings.transport} onChange={(e) => onSettings({ ...settings, transport: e.target.value as DeliverySettings["transport"] })}>
+          <option value="file">Local outbox (save .eml files)</option>
+          <option value="smtp">Mail relay on the sync server (SMTP)</option>
+        </select>
+      </Row>
+      <Row label="From address">
+        <input value={settings.from} placeholder="billing@example.com" onChange={(e) => onSettings({ ...settings, from: e.target.value })} style={{ width: "100%" }} />
+      </Row>
+      {settings.transport === "smtp" && (
+        <>
+          <Row label="Relay URL">
+            <input value={settings.relayUrl || ""} placeholder="http://localhost:8787/api/mail" onChange={(e) => onSettings({ ...settings, relayUrl: e.target.value })} style={{ width: "100%" }} />
+          </Row>
+          <Row label="Sync token">
+            <input type="password" value={settings.relayToken || ""} placeholder="if the server has SYNC_TOKEN" onChange={(e) => onSettings({ ...settings, relayToken: e.target.value || undefined })} style={{ width: "100%" }} />
+          </Row>
+          <div style={{ fontSize: 12, color: "#6b7280" }}>The sync server sends mail once it is started with SMTP_URL (see server/index.ts).</div>
+        </>
+      )}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <span style={{ fontSize: 13, color: "#6b7280" }}>{pending.length} message(s) waiting</span>
+        <button style={btnPrimary} disabled={!pending.length} onClick={() => onDeliver(pending.map((m) => m.id))}>Send queued</button>
+      </div>
+      {messages.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>Nothing in the outbox.</div>}
+      {[...messages].reverse().map((m) => (
+        <div key={m.id} style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10, fontSize: 14 }}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+            <div>
+              <span style={pillFilled(OUTBOX_COLORS[m.status])}>{m.status}</span> <strong>{m.templateName}</strong>{" "}
+              <span style={{ fontSize: 12, color: "#6b7280" }}>to {m.to.join(", ") || "(nobody)"}{m.scheduleId ? " · scheduled" : ""}</span>
+            </div>
+            <div style={{ display: "flex", gap: 6 }}>
+              {m.status === "failed" && <button style={btnTiny} disabled={!canDeliver(m)} onClick={() => onDeliver([m.id])}>Retry</button>}
+              {m.status !== "sent" && <button style={btnTinyDanger} onClick={() => onDelete(m.id)}>Delete</button>}
+            </div>
+          </div>
+          <div style={{ fontSize: 12, color: "#6b7280", marginTop: 4 }}>
+            Queued {new Date(m.createdAt).toLocaleString()}
+            {m.sentAt ? ` · sent ${new Date(m.sentAt).toLocaleString()}` : ""}
+            {m.attempts ? ` · ${m.attempts} of ${MAX_ATTEMPTS} attempts` : ""}
+          </div>
+          {m.lastError && m.status === "failed" && <div style={{ fontSize: 12, color: "#b91c1c" }}>{m.lastError}</div>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Recurring reminders: queue a template every N days while invoices sit in the chosen stages */
+function ReminderSchedules({ schedules, templates, onChange }: {
+  schedules: ReminderSchedule[];
+  templates: ReminderTemplate[];
+  onChange: (schedules: ReminderSchedule[]) => void;
+}) {
+  const update = (id: string, patch: Partial<ReminderSchedule>) => onChange(schedules.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  const stages = PAYMENT_STAGES.filter((s): s is OverrideStage => s !== "paid");
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      {schedules.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No recurring reminders.</div>}
+      {schedules.map((s) => (
+        <div key={s.id} style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 6, fontSize: 14, opacity: s.paused ? 0.6 : 1 }}>
+          <select value={s.templateId} onChange={(e) => update(s.id, { templateId: e.target.value })}>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          every
+          <input type="number" min={1} value={s.everyDays} onChange={(e) => update(s.id, { everyDays: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} style={{ width: 60 }} />
+          days while
+          {stages.map((stage) => (
+            <label key={stage} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+              <input
+                type="checkbox"
+                checked={s.stages.includes(stage)}
+                onChange={(e) => update(s.id, { stages: e.target.checked ? [...s.stages, stage] : s.stages.filter((x) => x !== stage) })}
+              />
+              {stage}
+            </label>
+          ))}
+          <button style={btnTiny} onClick={() => update(s.id, { paused: !s.paused })}>{s.paused ? "Resume" : "Pause"}</button>
+          <button style={btnTinyDanger} onClick={() => onChange(schedules.filter((x) => x.id !== s.id))}>✕</button>
+        </div>
+      ))}
+      <div>
+        <button
+          style={btn}
+          disabled={!templates.length}
+          onClick={() => onChange([...schedules, { id: `sched-${Math.random().toString(36).slice(2)}`, templateId: templates[0].id, everyDays: 3, stages: ["overdue"] }])}
+        >
+          Add schedule
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Line items for an invoice document; issuing numbers it (once) and opens it for printing */
+function InvoiceComposer({ payment, initial, nextNumber, currencyCode, onIssue, onCancel }: {
+  payment: Payment;
+  initial: LineItem[];
+  /** number it will get if it hasn't been issued yet */
+  nextNumber: string;
+  currencyCode: string;
+  onIssue: (lineItems: LineItem[]) => void;
+  onCancel: () => void;
+}) {
+  const [lines, setLines] = useState<LineItem[]>(initial);
+  const setLine = (i: number, patch: Partial<LineItem>) => setLines((ls) => ls.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+  const total = lines.reduce((s, l) => s + Number(l.amount), 0);
+  return (
+    <div style={{ display: "grid", gap: 6, marginTop: 8 }}>
+      <div style={{ fontSize: 12, color: "#6b7280" }}>
+        {payment.invoiceNumber ? `Invoice ${payment.invoiceNumber}, issued ${payment.issuedOn}` : `Will be issued as ${nextNumber}`}
+      </div>
+      {lines.map((l, i) => (
+        <div key={i} style={{ display: "grid", gridTemplateColumns: "2fr 1fr auto", gap: 4 }}>
+          <input value={l.description} placeholder="Description" onChange={(e) => setLine(i, { description: e.target.value })} />
+          <input type="number" value={l.amount} onChange={(e) => setLine(i, { amount: Number(e.target.value) })} />
+          <button style={btnTinyDanger} onClick={() => setLines(lines.filter((_, j) => j !== i))}>✕</button>
+        </div>
+      ))}
+      {Math.abs(total - Number(payment.amount)) > 0.005 && (
+        <div style={{ fontSize: 12, color: "#b45309" }}>Lines add up to {currency(total, currencyCode)}, the invoice is for {currency(payment.amount, currencyCode)}.</div>
+      )}
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 6 }}>
+        <button style={btnTiny} onClick={() => setLines([...lines, { description: "", amount: 0 }])}>Add line</button>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button style={btnTiny} onClick={onCancel}>Cancel</button>
+          <button style={{ ...btnTiny, background: "#2563eb" }} disabled={!lines.length} onClick={() => onIssue(lines.map((l) => ({ ...l, amount: Number(l.amount) || 0 })))}>
+            {payment.invoiceNumber ? "Print" : "Issue & print"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Agency details, logo and invoice numbering printed on invoices and statements */
+function DocumentSettingsEditor({ settings, onChange }: { settings: DocumentSettings; onChange: (settings: DocumentSettings) => void }) {
+  const set = (patch: Partial<DocumentSettings>) => onChange({ ...settings, ...patch });
+  return (
+    <div>
+      <Row label="Agency name"><input value={settings.agencyName} onChange={(e) => set({ agencyName: e.target.value })} style={{ width: "100%" }} /></Row>
+      <Row label="Address"><textarea value={settings.address} onChange={(e) => set({ address: e.target.value })} style={{ width: "100%", minHeight: 50 }} /></Row>
+      <Row label="Email"><input value={settings.email} onChange={(e) => set({ email: e.target.value })} style={{ width: "100%" }} /></Row>
+      <Row label="Phone"><input value={settings.phone} onChange={(e) => set({ phone: e.target.value })} style={{ width: "100%" }} /></Row>
+      <Row label="Logo">
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          {settings.logo && <img src={settings.logo} alt="" style={{ maxHeight: 32 }} />}
+          <input
+            type="file"
+            accept="image/*"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) set({ logo: await blobToDataUrl(file) });
+            }}
+          />
+          {settings.logo && <button style={btnTinyDanger} onClick={() => set({ logo: undefined })}>Remove</button>}
+        </div>
+      </Row>
+      <Row label="Accent colour"><input type="color" value={settings.accentColor} onChange={(e) => set({ accentColor: e.target.value })} /></Row>
+      <Row label="Payment instructions">
+        <textarea value={settings.paymentInstructions} placeholder="Bank, account number, reference…" onChange={(e) => set({ paymentInstructions: e.target.value })} style={{ width: "100%", minHeight: 60 }} />
+      </Row>
+      <Row label="Footer"><input value={settings.footer} onChange={(e) => set({ footer: e.target.value })} style={{ width: "100%" }} /></Row>
+      <Row label="Invoice numbers">
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input value={settings.invoicePrefix} onChange={(e) => set({ invoicePrefix: e.target.value })} style={{ width: 80 }} />
+          <input type="number" min={1} value={settings.nextInvoiceNumber} onChange={(e) => set({ nextInvoiceNumber: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} style={{ width: 80 }} />
+          <span style={{ fontSize: 12, color: "#6b7280" }}>next: {formatInvoiceNumber(settings)}</span>
+        </div>
+      </Row>
+    </div>
+  );
+}
+
+/** Pick a period and print or download the client's account statement for it */
+function StatementPanel({ onPrint, onDownload }: { onPrint: (from: string, to: string) => void; onDownload: (from: string, to: string) => void }) {
+  const today = todayISO();
+  const [from, setFrom] = useState(`${today.slice(0, 7)}-01`);
+  const [to, setTo] = useState(today);
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", alignItems: "end", gap: 8 }}>
+      <div><div style={label}>From</div><input type="date" value={from} onChange={(e) => setFrom(e.target.value)} /></div>
+      <div><div style={label}>To</div><input type="date" value={to} onChange={(e) => setTo(e.target.value)} /></div>
+      <button style={btn} disabled={!from || !to || from > to} onClick={() => onDownload(from, to)}>Download HTML</button>
+      <button style={btnPrimary} disabled={!from || !to || from > to} onClick={() => onPrint(from, to)}>Print / save as PDF</button>
+    </div>
+  );
+}
+
+/** Tick transactions off against a bank statement until the difference is zero, then lock */
+function ReconcilePanel({ c, fx, money, onStart, onUpdate, onToggle, onLock, onDiscard, onPrint, onDownload }: {
+  c: Case;
+  fx: Converter;
+  money: (n: number) => string;
+  onStart: (accountId: string, statementDate: string, statementBalance: number) => void;
+  onUpdate: (id: string, patch: Partial<Pick<Reconciliation, "statementDate" | "statementBalance">>) => void;
+  onToggle: (id: string, recordId: string) => void;
+  onLock: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onPrint: (r: Reconciliation) => void;
+  onDownload: (r: Reconciliation) => void;
+}) {
+  const [accountId, setAccountId] = useState(c.accounts[0]?.id || "");
+  const [statementDate, setStatementDate] = useState(todayISO());
+  const [statementBalance, setStatementBalance] = useState<number>(0);
+  const open = openReconciliation(c, accountId);
+  const state = open && reconcileState(c, fx, open);
+  const history = c.reconciliations.filter((r) => r.accountId === accountId && r.lockedOn).sort((a, b) => b.statementDate.localeCompare(a.statementDate));
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={{ display: "flex", alignItems: "end", gap: 8, flexWrap: "wrap" }}>
+        <div><div style={label}>Account</div><AccountSelect accounts={c.accounts} value={accountId} onChange={setAccountId} /></div>
+        {!open && (
+          <>
+            <div><div style={label}>Statement date</div><input type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} /></div>
+            <div><div style={label}>Ending balance</div><input type="number" value={statementBalance} onChange={(e) => setStatementBalance(Number(e.target.value))} /></div>
+            <button style={btnPrimary} disabled={!accountId || !statementDate} onClick={() => onStart(accountId, statementDate, Number(statementBalance) || 0)}>Start reconciling</button>
+          </>
+        )}
+        {open && (
+          <>
+            <div><div style={label}>Statement date</div><input type="date" value={open.statementDate} onChange={(e) => e.target.value && onUpdate(open.id, { statementDate: e.target.value })} /></div>
+            <div><div style={label}>Ending balance</div><input type="number" value={open.statementBalance} onChange={(e) => onUpdate(open.id, { statementBalance: Number(e.target.value) })} /></div>
+          </>
+        )}
+      </div>
+      {open && state && (
+        <>
+          <div style={{ display: "flex", gap: 16, fontSize: 14, flexWrap: "wrap" }}>
+            <span>Opening <strong>{money(open.opening)}</strong></span>
+            <span>Cleared balance <strong>{money(state.clearedBalance)}</strong></span>
+            <span>Statement <strong>{money(open.statementBalance)}</strong></span>
+            <span style={{ color: state.balanced ? "#059669" : "#b91c1c" }}>Difference <strong>{money(state.difference)}</strong></span>
+          </div>
+          <div style={{ display: "grid", gap: 4, maxHeight: 320, overflowY: "auto" }}>
+            {state.lines.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No uncleared transactions up to {open.statementDate}.</div>}
+            {state.lines.map((l) => (
+              <label key={`${l.kind}-${l.id}`} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, padding: "4px 8px", borderRadius: 8, background: open.cleared.includes(l.id) ? "#ecfdf5" : "transparent", fontSize: 14, cursor: "pointer" }}>
+                <span>
+                  <input type="checkbox" checked={open.cleared.includes(l.id)} onChange={() => onToggle(open.id, l.id)} />{" "}
+                  <span style={{ fontSize: 12, color: "#6b7280" }}>{l.date}</span> {l.description}
+                </span>
+                <span style={{ color: l.amount < 0 ? "#b91c1c" : "#059669" }}>{money(l.amount)}</span>
+              </label>
+            ))}
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <button style={btnPrimary} disabled={!state.balanced} onClick={() => onLock(open.id)}>Lock reconciliation</button>
+            <button style={btnDanger} onClick={() => { if (confirm("Discard this reconciliation? Nothing is marked cleared.")) onDiscard(open.id); }}>Discard</button>
+            {!state.balanced && <span style={{ fontSize: 12, color: "#6b7280" }}>Tick transactions until the difference is zero.</span>}
+          </div>
+        </>
+      )}
+      {history.length > 0 && (
+        <div style={{ display: "grid", gap: 6 }}>
+          <div style={label}>Past reconciliations</div>
+          {history.map((r) => (
+            <div key={r.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", border: "1px solid #e5e7eb", borderRadius: 12, padding: 8, fontSize: 14 }}>
+              <div>
+                <strong>{r.statementDate}</strong> · {money(r.statementBalance)}{" "}
+                <span style={{ fontSize: 12, color: "#6b7280" }}>{r.cleared.length} cleared · locked {r.lockedOn}</span>
+              </div>
+              <div style={{ display: "flex", gap: 6 }}>
+                <button style={btnTiny} onClick={() => onDownload(r)}>Download</button>
+                <button style={btnTiny} onClick={() => onPrint(r)}>Print</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => monthName(`2026-${String(i + 1).padStart(2, "0")}`).split(" ")[0]);
+
+/** Business time zone, fiscal year, per-period totals and month-end locks */
+function FiscalPeriods({ calendar, today, summarize, money, onChange, onExport }: {
+  calendar: CalendarSettings;
+  today: string;
+  summarize: (unit: FiscalUnit) => PeriodSummary[];
+  money: (n: number) => string;
+  onChange: (calendar: CalendarSettings) => void;
+  onExport: (unit: FiscalUnit, rows: PeriodSummary[]) => void;
+}) {
+  const [unit, setUnit] = useState<FiscalUnit>("month");
+  const [zone, setZone] = useState(calendar.timeZone);
+  useEffect(() => setZone(calendar.timeZone), [calendar.timeZone]);
+  const zones = useMemo(() => Intl.supportedValuesOf("timeZone"), []);
+  const rows = summarize(unit);
+  const closedIn = (r: PeriodSummary) => monthsIn(r.from, r.to).filter((m) => lockFor(calendar, m)).length;
+  const monthsOf = (r: PeriodSummary) => monthsIn(r.from, r.to).length;
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <Row label="Business time zone">
+        <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+          <input
+            list="time-zones"
+            value={zone}
+            onChange={(e) => setZone(e.target.value)}
+            onBlur={() => (isTimeZone(zone) ? onChange({ ...calendar, timeZone: zone }) : setZone(calendar.timeZone))}
+            style={{ width: 220 }}
+          />
+          <datalist id="time-zones">{zones.map((z) => <option key={z} value={z} />)}</datalist>
+          <span style={{ fontSize: 12, color: "#6b7280" }}>today is {today}</span>
+        </div>
+      </Row>
+      <Row label="Fiscal year starts">
+        <select value={calendar.fiscalYearStart} onChange={(e) => onChange({ ...calendar, fiscalYearStart: Number(e.target.value) })}>
+          {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+        </select>
+      </Row>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+        <div style={{ display: "flex", gap: 6 }}>
+          {(["month", "quarter"] as const).map((u) => (
+            <button key={u} style={unit === u ? { ...tabBtn, ...tabBtnActive } : tabBtn} onClick={() => setUnit(u)}>{u === "month" ? "Months" : "Quarters"}</button>
+          ))}
+        </div>
+        <button style={btn} disabled={!rows.length} onClick={() => onExport(unit, rows)}>Export CSV</button>
+      </div>
+      <div style={{ maxHeight: 360, overflowY: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr style={{ textAlign: "right", color: "#6b7280", fontSize: 12 }}>
+              <th style={{ textAlign: "left" }}>Period</th><th>Invoiced</th><th>Received</th><th>Paid out</th><th>Net</th><th />
+            </tr>
+          </thead>
+          <tbody>
+            {[...rows].reverse().map((r) => {
+              const month = r.from.slice(0, 7);
+              const lock = unit === "month" ? lockFor(calendar, month) : undefined;
+              return (
+                <tr key={r.period} style={{ textAlign: "right", borderTop: "1px solid #f3f4f6", background: closedIn(r) === monthsOf(r) ? "#f9fafb" : "transparent" }}>
+                  <td style={{ textAlign: "left", padding: "4px 0" }}>{periodTitle(r.period, calendar.fiscalYearStart)}</td>
+                  <td>{money(r.invoiced)}</td>
+                  <td>{money(r.received)}</td>
+                  <td>{money(r.paidOut)}</td>
+                  <td style={{ fontWeight: 600, color: r.net < 0 ? "#b91c1c" : "#059669" }}>{money(r.net)}</td>
+                  <td style={{ paddingLeft: 8, whiteSpace: "nowrap" }}>
+                    {unit === "quarter" && <span style={{ fontSize: 12, color: "#6b7280" }}>{closedIn(r) === monthsOf(r) ? "🔒 closed" : `${closedIn(r)} of ${monthsOf(r)} months closed`}</span>}
+                    {lock && (
+                      <>
+                        <span style={{ fontSize: 12, color: "#6b7280" }}>🔒 closed {lock.lockedOn}</span>{" "}
+                        <button style={btnTiny} onClick={() => { if (confirm(`Reopen ${monthName(month)}? Its expenses and payments can be changed again until it is closed.`)) onChange(reopenMonth(calendar, month)); }}>Reopen</button>
+                      </>
+                    )}
+                    {unit === "month" && !lock && r.to < today && (
+                      <button style={btnTiny} onClick={() => { if (confirm(`Close ${monthName(month)}? Expenses and payments dated in it can't be added, changed or deleted in any case until it is reopened.`)) onChange(lockMonth(calendar, month, today)); }}>Close month</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ fontSize: 12, color: "#6b7280" }}>Closing a month applies to every case. Receipt files can still be attached to its expenses.</div>
+    </div>
+  );
+}
+
+/** Book-of-business totals and a sortable row per case, all in one currency */
+function PortfolioView({ rows, code, onCurrency, onOpen }: {
+  rows: CaseSummary[];
+  code: string;
+  onCurrency: (code: string) => void;
+  onOpen: (caseId: string) => void;
+}) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "overdue", descending: true });
+  const totals = portfolioTotals(rows);
+  const missing = [...new Set(rows.flatMap((r) => [...r.missing]))];
+  const money = (n: number) => currency(n, code);
+  const columns: { key: SortKey; title: string; numeric?: boolean }[] = [
+    { key: "client", title: "Case" },
+    { key: "stage", title: "Stage" },
+    { key: "receivedIn", title: "Received", numeric: true },
+    { key: "expectedIn", title: "Expected", numeric: true },
+    { key: "paidOut", title: "Paid out", numeric: true },
+    { key: "net", title: "Net", numeric: true },
+    { key: "balance", title: "Balance", numeric: true },
+    { key: "overdue", title: "Overdue", numeric: true },
+  ];
+  const header = (col: (typeof columns)[number]) => (
+    <th
+      key={col.key}
+      onClick={() => setSort((s) => ({ key: col.key, descending: s.key === col.key ? !s.descending : !!col.numeric }))}
+      style={{ textAlign: col.numeric ? "right" : "left", cursor: "pointer", padding: "6px 8px", borderBottom: "1px solid #e5e7eb", fontSize: 12, color: "#6b7280" }}
+    >
+      {col.title}{sort.key === col.key ? (sort.descending ? " ▼" : " ▲") : ""}
+    </th>
+  );
+  const cell: React.CSSProperties = { padding: "6px 8px", borderBottom: "1px solid #f3f4f6", textAlign: "right" };
+
+  return (
+    <div style={{ display: "grid", gap: 12 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 12 }}>
+        <Card title="✅ Came In"><div style={{ fontSize: 22, fontWeight: 800 }}>{money(totals.receivedIn)}</div></Card>
+        <Card title="🔔 Supposed to Come In"><div style={{ fontSize: 22, fontWeight: 800 }}>{money(totals.expectedIn)}</div></Card>
+        <Card title="💵 Paid Out"><div style={{ fontSize: 22, fontWeight: 800 }}>{money(totals.paidOut)}</div></Card>
+        <Card title="⚠️ Overdue">
+          <div style={{ fontSize: 22, fontWeight: 800 }}>{totals.overdue}</div>
+          <div style={{ fontSize: 12, color: "#6b7280" }}>invoices in {totals.withOverdue} of {totals.cases} case(s) · {totals.due} due soon</div>
+        </Card>
+      </div>
+      {missing.length > 0 && (
+        <div style={{ padding: 10, borderRadius: 12, background: "#fffbeb", color: "#b45309", fontSize: 14 }}>
+          ⚠️ No exchange rate from {missing.join(", ")} to {code}; those amounts are counted 1:1.
+        </div>
+      )}
+      <Card title={`📊 Portfolio (${rows.length} case${rows.length === 1 ? "" : "s"})`}>
+        <div style={{ display: "flex", justifyContent: "flex-end", alignItems: "center", gap: 8, marginBottom: 8 }}>
+          <span style={label}>Show amounts in</span>
+          <CurrencySelect value={code} onChange={onCurrency} />
+        </div>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead><tr>{columns.map(header)}</tr></thead>
+          <tbody>
+            {sortSummaries(rows, sort.key, sort.descending).map((r) => (
+              <tr key={r.c.id} onClick={() => onOpen(r.c.id)} style={{ cursor: "pointer" }}>
+                <td style={{ ...cell, textAlign: "left" }}>
+                  <strong>{r.c.client || "(Untitled)"}</strong> <span style={{ color: "#6b7280", fontSize: 12 }}>#{r.c.code || "—"} · {r.c.donor}</span>
+                </td>
+                <td style={{ ...cell, textAlign: "left" }}>{r.stage || "—"}</td>
+                <td style={cell}>{money(r.receivedIn)}</td>
+                <td style={cell}>{money(r.expectedIn)}</td>
+                <td style={cell}>{money(r.paidOut)}</td>
+                <td style={{ ...cell, color: r.net < 0 ? "#b91c1c" : undefined }}>{money(r.net)}</td>
+                <td style={{ ...cell, color: r.negativeBalance ? "#b91c1c" : undefined }}>{money(r.balance)}</td>
+                <td style={{ ...cell, color: r.overdue ? "#b91c1c" : undefined }}>{r.overdue}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <div style={{ color: "#6b7280", fontSize: 14, marginTop: 8 }}>No cases match the sidebar search or filter.</div>}
+      </Card>
+      <Card title="⏳ Receivables Aging">
+        <AgingTable
+          rows={[
+            ...rows.filter((r) => r.aging.total > 0.005).map((r) => ({ id: r.c.id, name: r.c.client || "(Untitled)", aging: r.aging })),
+            { id: "total", name: "All cases", aging: totals.aging },
+          ]}
+          money={money}
+          onOpen={(id) => id !== "total" && onOpen(id)}
+        />
+      </Card>
+    </div>
+  );
+}
+
+type SyncStatus = { state: "idle" | "syncing" | "synced" | "offline" | "error"; at?: string; message?: string };
+
+const SYNC_LABELS: Record<SyncStatus["state"], string> = { idle: "not synced yet", syncing: "syncing…", synced: "up to date", offline: "offline, changes kept here", error: "sync failed" };
+
+/** Connect to a sync server, see how syncing goes and settle conflicting edits */
+function SyncPanel({ sync, status, data, duplicates, onConnect, onDisconnect, onSyncNow, onResolve, onRenumber }: {
+  sync: SyncState;
+  status: SyncStatus;
+  data: SyncedData;
+  duplicates: DuplicateInvoiceNumber[];
+  onConnect: (serverUrl: string, token: string) => void;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+  onResolve: (c: SyncConflict, keep: "local" | "remote") => void;
+  onRenumber: (caseId: string, paymentId: string) => void;
+}) {
+  const [serverUrl, setServerUrl] = useState(sync.serverUrl || "http://localhost:8787");
+  const [token, setToken] = useState(sync.token);
+  return (
+    <Card title="🔄 Sync">
+      <div style={{ display: "grid", gap: 10 }}>
+        {!sync.serverUrl ? (
+          <div style={{ display: "flex", alignItems: "end", gap: 8, flexWrap: "wrap" }}>
+            <div><div style={label}>Server URL</div><input value={serverUrl} onChange={(e) => setServerUrl(e.target.value)} style={{ width: 260 }} /></div>
+            <div><div style={label}>Token (if the server needs one)</div><input type="password" value={token} onChange={(e) => setToken(e.target.value)} /></div>
+            <button style={btnPrimary} disabled={!/^https?:\/\//.test(serverUrl.trim())} onClick={() => onConnect(serverUrl.trim(), token.trim())}>Connect</button>
+          </div>
+        ) : (
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", fontSize: 14 }}>
+            <span>Syncing with <strong>{sync.serverUrl}</strong> · {SYNC_LABELS[status.state]}{status.at ? ` at ${new Date(status.at).toLocaleTimeString()}` : ""}</span>
+            <button style={btn} disabled={status.state === "syncing"} onClick={onSyncNow}>Sync now</button>
+            <button style={btnDanger} onClick={() => { if (confirm("Stop syncing? Data stays in this browser.")) onDisconnect(); }}>Disconnect</button>
+          </div>
+        )}
+        {status.state === "error" && <div style={{ fontSize: 13, color: "#b91c1c" }}>{status.message}</div>}
+        <div style={{ fontSize: 12, color: "#6b7280" }}>
+          Cases, rates, templates, categories, rules and document settings are shared; the outbox, delivery settings and attached files stay in this browser.
+        </div>
+        {sync.conflicts.length > 0 && (
+          <div style={{ display: "grid", gap: 8 }}>
+            <div style={{ fontWeight: 600 }}>Conflicting edits ({sync.conflicts.length}) · the other side's value is in use until you choose</div>
+            {sync.conflicts.map((c) => (
+              <div key={c.id} style={{ border: "1px solid #fcd34d", background: "#fffbeb", borderRadius: 12, padding: 10, fontSize: 14 }}>
+                <div style={{ fontWeight: 600 }}>{describeConflict(data, c)}</div>
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 6 }}>
+                  <div>
+                    <div style={label}>Yours</div>
+                    <div style={{ fontFamily: "monospace", fontSize: 12, wordBreak: "break-all" }}>{conflictValue(c.local)}</div>
+                    <button style={{ ...btnTiny, marginTop: 4 }} onClick={() => onResolve(c, "local")}>Keep mine</button>
+                  </div>
+                  <div>
+                    <div style={label}>Theirs</div>
+                    <div style={{ fontFamily: "monospace", fontSize: 12, wordBreak: "break-all" }}>{conflictValue(c.remote)}</div>
+                    <button style={{ ...btnTiny, marginTop: 4 }} onClick={() => onResolve(c, "remote")}>Keep theirs</button>
+                  </div>
+                </div>
+                <div style={{ fontSize: 12, color: "#6b7280", marginTop: 4 }}>was {conflictValue(c.base)} · found {new Date(c.at).toLocaleString()}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {duplicates.length > 0 && (
+          <div style={{ display: "grid", gap: 8 }}>
+            <div style={{ fontWeight: 600 }}>Invoice numbers given out twice ({duplicates.length}) · renumber all but one and send the client the new copy</div>
+            {duplicates.map((d) => (
+              <div key={d.invoiceNumber} style={{ border: "1px solid #fca5a5", background: "#fef2f2", borderRadius: 12, padding: 10, fontSize: 14, display: "grid", gap: 4 }}>
+                <div style={{ fontWeight: 600 }}>{d.invoiceNumber}</div>
+                {d.invoices.map(({ c, payment }) => (
+                  <div key={payment.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                    <span>{c.client || "Unnamed"} #{c.code || "—"} · due {payment.dueDate} · {currency(payment.amount, payment.currency || c.reportingCurrency)}</span>
+                    <button style={btnTiny} onClick={() => onRenumber(c.id, payment.id)}>Give it a new number</button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+/* =========================
+   Main App
+   ========================= */
+export default function App() {
+  const [cases, setCases] = useState<Case[]>(initialCases);
+  const [rates, setRates] = useState<FxRate[]>([]);
+  const [templates, setTemplates] = useState<PlanTemplate[]>(DEFAULT_PLAN_TEMPLATES);
+  const [stages, setStages] = useState<LifecycleStage[]>(DEFAULT_LIFECYCLE);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+  const [rules, setRules] = useState<CategoryRule[]>(DEFAULT_RULES);
+  const [reminderTemplates, setReminderTemplates] = useState<ReminderTemplate[]>(DEFAULT_REMINDER_TEMPLATES);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [delivery, setDelivery] = useState<DeliverySettings>(DEFAULT_DELIVERY);
+  const [documentSettings, setDocumentSettings] = useState<DocumentSettings>(DEFAULT_DOCUMENT_SETTINGS);
+  const [calendar, setCalendar] = useState<CalendarSettings>(DEFAULT_CALENDAR);
+  // forms and modules that default to "today" read it in the business time zone; set while
+  // rendering (it only ever takes the current value) so the render that loads or changes the
+  // calendar already dates things in its zone, rather than an effect that runs after it
+  setBusinessTimeZone(calendar.timeZone);
+  const [invoiceDocId, setInvoiceDocId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string>(initialCases[0].id);
+  const [tab, setTab] = useState<"overview" | "expenses" | "payments" | "donor">("overview");
+  const [showNewCase, setShowNewCase] = useState(false);
+  const [hydrated, setHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<(ParsedBackup & { fileName: string }) | null>(null);
+  const [view, setView] = useState<"case" | "portfolio">("case");
+  const [portfolioCurrency, setPortfolioCurrency] = useState("USD");
+  const [caseQuery, setCaseQuery] = useState("");
+  const [caseFilter, setCaseFilter] = useState<CaseFilter>("all");
+  const [receiptFilter, setReceiptFilter] = useState<"all" | "missing">("all");
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [sync, setSync] = useState<SyncState>(DEFAULT_SYNC);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: "idle" });
+  const [syncTick, setSyncTick] = useState(0);
+  const [showSync, setShowSync] = useState(false);
+  const syncing = useRef(false);
+
+  // load the saved workspace once, then save on every change
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspace()
+      .then((ws) => {
+        if (cancelled) return;
+        if (ws && ws.cases.length) {
+          setCases(ws.cases);
+          setActiveId(ws.cases[0].id);
+        }
+        if (ws) {
+          setRates(ws.rates);
+          setTemplates(ws.templates);
+          setStages(ws.stages);
+          setTaxonomy(ws.taxonomy);
+          setRules(ws.rules);
+          setReminderTemplates(ws.reminderTemplates);
+          setOutbox(ws.outbox);
+          setDelivery(ws.delivery);
+          setDocumentSettings(ws.documents);
+          setCalendar(ws.calendar);
+          setSync(ws.sync);
+        }
+        setHydrated(true);
+      })
+      .catch((err: Error) => !cancelled && setStorageError(`Could not load saved data: ${err.message}`));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return; // never overwrite stored data before it has been read
+    saveWorkspace({ cases, rates, templates, stages, taxonomy, rules, reminderTemplates, outbox, delivery, documents: documentSettings, calendar, sync }).catch((err: Error) => setStorageError(`Could not save: ${err.message}`));
+  }, [cases, rates, templates, stages, taxonomy, rules, reminderTemplates, outbox, delivery, documentSettings, calendar, sync, hydrated]);
+
+  // sync shortly after local changes; the tick brings in other people's changes and retries after going offline
+  useEffect(() => {
+    if (!hydrated || !sync.serverUrl) return;
+    const timer = setTimeout(async () => {
+      if (syncing.current) return; // the next tick picks up whatever this round misses
+      syncing.current = true;
+      setSyncStatus({ state: "syncing" });
+      const local: SyncedData = { cases, rates, templates, stages, taxonomy, rules, reminderTemplates, documents: documentSettings, calendar };
+      try {
+        const { merged, conflicts, rev } = await syncWorkspace(sync, local, isPlaceholder);
+        // edits made while the round ran are kept on top of what came back
+        setCases((prev) => {
+          const next = rebase(local.cases, prev, merged.cases);
+          return next.length ? next : [blankCase()];
+        });
+        setRates((prev) => rebase(local.rates, prev, merged.rates));
+        setTemplates((prev) => rebase(local.templates, prev, merged.templates));
+        setStages((prev) => rebase(local.stages, prev, merged.stages));
+        setTaxonomy((prev) => rebase(local.taxonomy, prev, merged.taxonomy));
+        setRules((prev) => rebase(local.rules, prev, merged.rules));
+        setReminderTemplates((prev) => rebase(local.reminderTemplates, prev, merged.reminderTemplates));
+        setDocumentSettings((prev) => rebase(local.documents, prev, merged.documents));
+        setCalendar((prev) => rebase(local.calendar, prev, merged.calendar));
+        setSync((s) => {
+          if (s.serverUrl !== sync.serverUrl) return s; // disconnected or switched servers meanwhile
+          const base = { ...merged, version: SCHEMA_VERSION };
+          if (rev === s.rev && !conflicts.length && same(base, s.base)) return s;
+          return { ...s, rev, base, conflicts: addConflicts(s.conflicts, conflicts) };
+        });
+        setSyncStatus({ state: "synced", at: new Date().toISOString() });
+      } catch (err) {
+        setSyncStatus(isOffline(err) ? { state: "offline" } : { state: "error", message: (err as Error).message });
+      } finally {
+        syncing.current = false;
+      }
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [cases, rates, templates, stages, taxonomy, rules, reminderTemplates, documentSettings, calendar, sync, syncTick, hydrated]);
+
+  useEffect(() => {
+    if (!sync.serverUrl) return;
+    const tick = () => setSyncTick((n) => n + 1);
+    const timer = setInterval(tick, 60_000);
+    window.addEventListener("online", tick);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", tick);
+    };
+  }, [sync.serverUrl]);
+
+  // recurring reminder schedules queue their messages and log them as queued on the case; the log
+  // syncs, so when a server is set up schedules only run on freshly synced data and a reminder
+  // another browser already queued isn't queued again here
+  useEffect(() => {
+    if (!hydrated || (sync.serverUrl && syncStatus.state !== "synced")) return;
+    const queued = cases
+      .filter((c) => c.contactEmails.length)
+      .flatMap((c) => {
+        const statuses = caseStatuses(c);
+        const caseFx = reportingConverter(c, rates);
+        return scheduledReminders(c, outbox, (p) => statuses[p.id]).flatMap(({ schedule, payments }) => {
+          const t = reminderTemplates.find((x) => x.id === schedule.templateId);
+          if (!t) return [];
+          return [queueMessage({
+            caseId: c.id,
+            to: c.contactEmails,
+            subject: reminderSubject(c),
+            body: caseReminder(t, c, payments, caseFx),
+            paymentIds: payments.map((p) => p.id),
+            templateId: t.id,
+            templateName: t.name,
+            scheduleId: schedule.id,
+          })];
+        });
+      });
+    if (!queued.length) return;
+    setOutbox((prev) => [...prev, ...queued]);
+    setCases((prev) =>
+      prev.map((c) =>
+        queued.filter((m) => m.caseId === c.id).reduce((acc, m) => logReminder(acc, { paymentIds: m.paymentIds, templateId: m.templateId, templateName: m.templateName, channel: "queued", text: m.body, messageId: m.id }), c),
+      ),
+    );
+  }, [cases, outbox, rates, reminderTemplates, hydrated, sync.serverUrl, syncStatus.state]);
+
+  // a sync can remove the open case; fall back to the first one
+  const activeCase = useMemo(() => cases.find((c) => c.id === activeId) ?? cases[0], [cases, activeId]);
+  const today = todayISO(calendar.timeZone);
+
+  // every case, summarized in the portfolio currency; the sidebar search and filter narrow both views
+  const summaries = useMemo(() => cases.map((c) => summarizeCase(c, rates, stages, portfolioCurrency, today)), [cases, rates, stages, portfolioCurrency, today]);
+  const visibleSummaries = summaries.filter((s) => matchesSearch(s.c, caseQuery) && matchesFilter(s, caseFilter));
+
+  const refuseLocked = (lock: PeriodLock | undefined) => {
+    if (lock) alert(`${monthName(lock.month)} is closed. Reopen it under Fiscal Periods to add, change or delete expenses, payments, transfers, donor payables and FX rates dated in it.`);
+    return !!lock;
+  };
+  /** Every edit to the open case goes through here; ones touching a closed month are refused */
+  const setActiveCase = (updater: (c: Case) => Case) => {
+    if (refuseLocked(lockedCaseChange(calendar, activeCase, updater(activeCase)))) return;
+    setCases((prev) => prev.map((c) => (c.id === activeCase.id ? updater(c) : c)));
+  };
+
+  // derived balances, all in the case's reporting currency
+  const fx = useMemo(() => reportingConverter(activeCase, rates), [activeCase, rates]);
+  const accountBalances = useMemo(() => balancesByAccount(activeCase, fx), [activeCase, fx]);
+  const totals = useMemo(() => caseTotals(activeCase, fx), [activeCase, fx]);
+  const owedToDonor = useMemo(() => donorOwed(activeCase, fx), [activeCase, fx]);
+  const lifecycleBudgets = useMemo(() => stageBudgets(activeCase, stages, fx), [activeCase, stages, fx]);
+  const categories = useMemo(() => categoryGroups(taxonomy), [taxonomy]);
+  const suggest = (text: string, amount?: number) => suggestCategory(rules, taxonomy, text, amount);
+  const variance = useMemo(() => categoryVariance(activeCase, fx, categories), [activeCase, fx, categories]);
+  const stageName = (e: Expense) => stages.find((s) => s.id === expenseStageId(activeCase, stages, e))?.name;
+  const money = (n: number) => currency(n, activeCase.reportingCurrency);
+  /** "€120.00" when a record wasn't entered in the reporting currency, else "" */
+  const originalAmount = (r: { amount: number; currency?: string }) => {
+    const code = recordCurrency(activeCase, r);
+    return code === activeCase.reportingCurrency ? "" : currency(r.amount, code);
+  };
+
+  // what receipts have paid on each invoice
+  const allocated = useMemo(() => allocatedByInvoice(activeCase), [activeCase]);
+  const stateOf = (p: Payment) => invoiceState(p, allocated[p.id]);
+  const openInvoiceList = activeCase.payments.filter((p) => !isReceipt(p) && !stateOf(p).settled);
+
+  // where each invoice stands under the case's status rules
+  const statuses = useMemo(() => caseStatuses(activeCase, today), [activeCase, today]);
+  const statusOf = (p: Payment) => statuses[p.id];
+
+  // what is still owed by age, and where each account is heading
+  const aging = useMemo(() => caseAging(activeCase, fx, today), [activeCase, fx, today]);
+  const forecast = useMemo(() => cashFlowForecast(activeCase, fx, 12, today), [activeCase, fx, today]);
+
+  const kpis = useMemo(() => caseKpis(activeCase, fx, today), [activeCase, fx, today]);
+
+  /* ===== actions ===== */
+  /** new expenses without a stage are tagged with the one the case was in on their date */
+  const withStage = (c: Case, e: Omit<Expense, "id">) => ({ ...e, stageId: e.stageId || stageAt(c, stages, e.date)?.id });
+
+  const addExpense = (payload: Omit<Expense, "id">) =>
+    setActiveCase((c) => ({ ...c, expenses: [{ id: `e-${Math.random().toString(36).slice(2)}`, ...withStage(c, payload) }, ...c.expenses] }));
+
+  const addExpenses = (payloads: Omit<Expense, "id">[]) =>
+    setActiveCase((c) => ({ ...c, expenses: [...payloads.map((p) => ({ id: `e-${Math.random().toString(36).slice(2)}`, ...withStage(c, p) })), ...c.expenses] }));
+
+  /** Statement lines: money out as expenses, money in as received payments */
+  const postStatement = ({ expenses, receipts }: ReturnType<typeof statementPostings>) => {
+    if (expenses.length) addExpenses(expenses);
+    receipts.forEach(addReceivedPayment);
+  };
+
+  /** Ask before changing or deleting a transaction a locked reconciliation cleared */
+  const confirmCleared = (recordId: string, action: string) => {
+    const r = clearedIn(activeCase, recordId);
+    return !r || confirm(`This transaction was cleared in the ${accountName(r.accountId)} reconciliation to ${r.statementDate}. ${action} it anyway? The account will no longer match that statement.`);
+  };
+
+  const updateExpense = (id: string, patch: Partial<Expense>) => {
+    const e = activeCase.expenses.find((x) => x.id === id);
+    if (refuseLocked(lockedChange(calendar, e, e && { ...e, ...patch }))) return;
+    if (e && changesBalance(e, patch) && !confirmCleared(id, "Change")) return;
+    setActiveCase((c) => updateRecord(c, "expense", id, patch));
+  };
+
+  const deleteExpense = (expenseId: string) => {
+    if (refuseLocked(lockedChange(calendar, activeCase.expenses.find((x) => x.id === expenseId)))) return;
+    if (!confirmCleared(expenseId, "Delete")) return;
+    setActiveCase((c) => deleteRecord(c, "expense", expenseId));
+  };
+
+  /** Store the files first, then list them on the expense as a logged edit */
+  const attachFiles = async (expenseId: string, files: File[]) => {
+    const problems = files.map(rejectReason).filter((r): r is string => r !== null);
+    setAttachError(problems.length ? problems.join("; ") : null);
+    const accepted = files.filter((f) => !rejectReason(f)).map((file) => ({ file, attachment: attachmentFor(file) }));
+    if (!accepted.length) return;
+    try {
+      await Promise.all(accepted.map(({ file, attachment }) => saveFile(attachment.id, file)));
+    } catch (err) {
+      setAttachError(`Could not store the file: ${(err as Error).message}`);
+      return;
+    }
+    setActiveCase((c) => {
+      const e = c.expenses.find((x) => x.id === expenseId);
+      return e ? updateRecord(c, "expense", expenseId, { attachments: [...(e.attachments || []), ...accepted.map((a) => a.attachment)] }) : c;
+    });
+  };
+
+  const removeAttachment = (expenseId: string, attachmentId: string) =>
+    setActiveCase((c) => {
+      const e = c.expenses.find((x) => x.id === expenseId);
+      return e ? updateRecord(c, "expense", expenseId, { attachments: (e.attachments || []).filter((a) => a.id !== attachmentId) }) : c;
+    });
+
+  const addPayables = (payloads: Omit<DonorPayable, "id">[]) =>
+    setActiveCase((c) => ({ ...c, donorPayables: [...c.donorPayables, ...payloads.map((p) => ({ id: `dp-${Math.random().toString(36).slice(2)}`, ...p }))] }));
+
+  const syncedSetters: { [K in keyof SyncedData]: React.Dispatch<React.SetStateAction<SyncedData[K]>> } = {
+    cases: setCases,
+    rates: setRates,
+    templates: setTemplates,
+    stages: setStages,
+    taxonomy: setTaxonomy,
+    rules: setRules,
+    reminderTemplates: setReminderTemplates,
+    documents: setDocumentSettings,
+    calendar: setCalendar,
+  };
+  const keepMine = <K extends keyof SyncedData>(key: K, c: SyncConflict) => syncedSetters[key]((prev) => keepLocal(prev, c));
+
+  /** Settle a sync conflict; keeping the local value makes it an edit the next sync pushes */
+  const duplicates = useMemo(() => duplicateInvoiceNumbers(cases), [cases]);
+
+  /** Next number for an invoice whose number another invoice also has */
+  const renumberInvoice = (caseId: string, paymentId: string) => {
+    const c = cases.find((x) => x.id === caseId);
+    const p = c?.payments.find((x) => x.id === paymentId);
+    if (!c || !p) return;
+    const invoiceNumber = formatInvoiceNumber(documentSettings);
+    if (refuseLocked(lockedChange(calendar, p, { ...p, invoiceNumber }))) return;
+    setCases((prev) => prev.map((x) => (x.id === caseId ? updateRecord(x, "payment", paymentId, { invoiceNumber }) : x)));
+    setDocumentSettings((s) => ({ ...s, nextInvoiceNumber: s.nextInvoiceNumber + 1 }));
+  };
+
+  const resolveConflict = (c: SyncConflict, keep: "local" | "remote") => {
+    if (keep === "local") keepMine(c.path[0] as keyof SyncedData, c);
+    setSync((s) => ({ ...s, conflicts: s.conflicts.filter((x) => x.id !== c.id) }));
+  };
+
+  /** Undo goes through the same checks as the edit it reverts: closed months, then cleared reconciliations */
+  const undoChange = (kind: RecordKind, recordId: string) => {
+    const last = lastChange(activeCase, kind, recordId);
+    if (!last) return;
+    const current = (kind === "expense" ? activeCase.expenses : activeCase.payments).find((r) => r.id === recordId);
+    if (refuseLocked(lockedChange(calendar, current, last.before))) return;
+    if ((!current || changesBalance(current, last.before)) && !confirmCleared(recordId, current ? "Revert" : "Restore")) return;
+    setActiveCase((c) => undoLastChange(c, kind, recordId));
+  };
+
+  /** true when Undo on this entry would revert it (it is the record's newest live change) */
+  const isUndoable = (h: ChangeEntry) => lastChange(activeCase, h.kind, h.recordId)?.id === h.id;
+
+  const describeChange = (h: ChangeEntry) =>
+    h.kind === "expense"
+      ? `Expense "${(h.before as Expense).note || (h.before as Expense).category}"`
+      : `Invoice due ${(h.before as Payment).dueDate}`;
+
+  const addAccount = (name: string, balance: number) =>
+    setActiveCase((c) => ({ ...c, accounts: [...c.accounts, { id: `acc-${Math.random().toString(36).slice(2)}`, name, balance: Number(balance) || 0 }] }));
+
+  const addTransfer = (payload: Omit<Transfer, "id">) =>
+    setActiveCase((c) => ({ ...c, transfers: [{ id: `t-${Math.random().toString(36).slice(2)}`, ...payload }, ...c.transfers] }));
+
+  const deleteTransfer = (transferId: string) => {
+    if (refuseLocked(lockedChange(calendar, activeCase.transfers.find((t) => t.id === transferId)))) return;
+    if (!confirmCleared(transferId, "Delete")) return;
+    setActiveCase((c) => ({ ...c, transfers: c.transfers.filter((t) => t.id !== transferId) }));
+  };
+
+  const accountName = (id: string) => activeCase.accounts.find((a) => a.id === id)?.name || id || "—";
+
+  const deleteCase = (id: string) => {
+    if (refuseLocked(lockedCasesChange(calendar, cases, cases.filter((c) => c.id !== id)))) return;
+    setCases((prev) => {
+      const next = prev.filter((c) => c.id !== id);
+      if (next.length === 0) {
+        const empty = blankCase();
+        setActiveId(empty.id);
+        return [empty];
+      }
+      if (id === activeId) setActiveId(next[0].id);
+      return next;
+    });
+  };
+
+  const updatePayment = (id: string, patch: Partial<Payment>) => {
+    const p = activeCase.payments.find((x) => x.id === id);
+    if (refuseLocked(lockedChange(calendar, p, p && { ...p, ...patch }))) return;
+    if (p && changesBalance(p, patch) && !confirmCleared(id, "Change")) return;
+    setActiveCase((c) => updateRecord(c, "payment", id, patch));
+  };
+
+  const deletePayment = (paymentId: string) => {
+    if (refuseLocked(lockedChange(calendar, activeCase.payments.find((x) => x.id === paymentId)))) return;
+    if (!confirmCleared(paymentId, "Delete")) return;
+    setActiveCase((c) => deleteRecord(c, "payment", paymentId));
+  };
+
+  const addPayment = (payload: { amount: number; currency?: string; dueDate: string; accountId?: string }) =>
+    setActiveCase((c) => {
+      const acct = payload.accountId || c.accounts[0]?.id;
+      const p: Payment = { id: `p-${Math.random().toString(36).slice(2)}`, status: "upcoming", ...payload, accountId: acct || "" };
+      return { ...c, payments: [p, ...(c.payments || [])] };
+    });
+
+  const addReceivedPayment = (payload: { amount: number; currency?: string; paidOn?: string; accountId?: string; allocations?: Allocation[] }) =>
+    setActiveCase((c) => {
+      const acct = payload.accountId || c.accounts[0]?.id;
+      const p: Payment = {
+        id: `p-${Math.random().toString(36).slice(2)}`,
+        kind: "receipt",
+        status: "completed",
+        allocations: payload.allocations || [],
+        accountId: acct || "",
+        amount: Number(payload.amount) || 0,
+        currency: payload.currency,
+        dueDate: payload.paidOn || today,
+        paidOn: payload.paidOn || today,
+      };
+      return { ...c, payments: [p, ...(c.payments || [])] };
+    });
+
+  /** Apply every receipt's unallocated credit to open invoices, oldest due first */
+  const applyCredit = () =>
+    setActiveCase((c) =>
+      c.payments.filter(isReceipt).reduce((next, r) => {
+        const receipt = next.payments.find((p) => p.id === r.id)!;
+        const extra = autoAllocate(receiptCredit(next, receipt), openInvoices(next, recordCurrency(next, receipt)));
+        return extra.length ? updateRecord(next, "payment", receipt.id, { allocations: [...(receipt.allocations || []), ...extra] }) : next;
+      }, c));
+
+  /** Renames and merges change the taxonomy and rewrite expenses in every case (and rule targets) together */
+  const editTaxonomy = (edit: (t: Taxonomy, cs: Case[]) => { taxonomy: Taxonomy; cases: Case[] }) => {
+    const next = edit(taxonomy, cases);
+    if (refuseLocked(lockedCasesChange(calendar, cases, next.cases))) return;
+    setTaxonomy(next.taxonomy);
+    setCases(next.cases);
+    setRules((prev) => prev.map((r) => ({ ...r, ...resolveCategory(next.taxonomy, { main: r.main, sub: r.sub }) })));
+  };
+
+  const categoryUsage = useMemo(() => {
+    const counts: Record<string, number> = {};
+    cases.forEach((c) =>
+      c.expenses.forEach((e) => {
+        counts[e.category] = (counts[e.category] || 0) + 1;
+        if (e.subCategory) counts[budgetKey(e.category, e.subCategory)] = (counts[budgetKey(e.category, e.subCategory)] || 0) + 1;
+      }));
+    return counts;
+  }, [cases]);
+
+  /** Rate edits go through here; ones dated in a closed month are refused, since they would reprice its records */
+  const changeRates = (next: FxRate[]) => {
+    if (refuseLocked(lockedRatesChange(calendar, rates, next))) return;
+    setRates(next);
+  };
+
+  const addRate = (rate: Omit<FxRate, "id">) => changeRates([...rates, { id: `fx-${Math.random().toString(36).slice(2)}`, ...rate }]);
+
+  const deleteRate = (id: string) => changeRates(rates.filter((r) => r.id !== id));
+
+  const saveTemplate = (t: PlanTemplate) =>
+    setTemplates((prev) => (prev.some((x) => x.id === t.id) ? prev.map((x) => (x.id === t.id ? t : x)) : [...prev, t]));
+
+  const deleteTemplate = (id: string) => setTemplates((prev) => prev.filter((t) => t.id !== id));
+
+  const exportBackup = async () =>
+    downloadFile(`donation-finance-${today}.json`, exportWorkspace({ cases, rates, templates, stages, taxonomy, rules, reminderTemplates, outbox, delivery, documents: documentSettings, calendar }, await collectFiles(cases)));
+
+  const readBackup = async (file: File) => setPendingImport({ fileName: file.name, ...parseBackup(await file.text()) });
+
+  const reportName = `statement-${activeCase.code || activeCase.id}-${today}`;
+  const exportLedgerCsv = () => downloadFile(`${reportName}.csv`, ledgerCsv(activeCase, buildLedgerReport(activeCase, fx, categories), fx), "text/csv");
+  const printLedger = () => printHtml(ledgerHtml(activeCase, buildLedgerReport(activeCase, fx, categories), fx));
+
+  const saveReminderTemplate = (t: ReminderTemplate) =>
+    setReminderTemplates((prev) => (prev.some((x) => x.id === t.id) ? prev.map((x) => (x.id === t.id ? t : x)) : [...prev, t]));
+
+  const deleteReminderTemplate = (id: string) => setReminderTemplates((prev) => prev.filter((t) => t.id !== id));
+
+  /** Number the invoice the first time it is issued, keep its line items, and print it */
+  const issueInvoice = (p: Payment, lineItems: LineItem[]) => {
+    const issued = { ...p, lineItems, invoiceNumber: p.invoiceNumber || formatInvoiceNumber(documentSettings), issuedOn: p.issuedOn || today };
+    // refused before a number is taken, so a closed month doesn't leave a gap in the sequence
+    if (refuseLocked(lockedChange(calendar, p, issued))) return;
+    updatePayment(p.id, { lineItems, invoiceNumber: issued.invoiceNumber, issuedOn: issued.issuedOn });
+    if (!p.invoiceNumber) setDocumentSettings((s) => ({ ...s, nextInvoiceNumber: s.nextInvoiceNumber + 1 }));
+    printHtml(invoiceHtml({ ...activeCase, payments: activeCase.payments.map((x) => (x.id === p.id ? issued : x)) }, issued, documentSettings));
+  };
+
+  const reminderText = (t: ReminderTemplate, payments: Payment[]) => caseReminder(t, activeCase, payments, fx);
+
+  /** Hand messages to the transport one at a time; each one sent is logged on its case */
+  const deliverAll = async (messages: OutboxMessage[]) => {
+    for (const m of messages) {
+      const result = await deliver(m, delivery);
+      setOutbox((prev) => prev.map((x) => (x.id === m.id ? result : x)));
+      if (result.status === "sent") {
+        const entry = { paymentIds: m.paymentIds, templateId: m.templateId, templateName: m.templateName, text: m.body };
+        setCases((prev) => prev.map((c) => (c.id === m.caseId ? logSent(c, m.id, entry) : c)));
+      }
+    }
+  };
+  const deliverMessages = (ids: string[]) => deliverAll(outbox.filter((m) => ids.includes(m.id) && canDeliver(m)));
+
+  const sendReminder = (r: ReminderDraft) => {
+    const m = queueMessage({ caseId: activeCase.id, to: activeCase.contactEmails, subject: reminderSubject(activeCase), body: r.text, paymentIds: r.paymentIds, templateId: r.templateId, templateName: r.templateName });
+    setOutbox((prev) => [...prev, m]);
+    deliverAll([m]);
+  };
+
+  const paymentBadge = (p: Payment) => {
+    const { stage, overridden } = statusOf(p);
+    if (isReceipt(p)) return { text: "Received", color: "#059669" };
+    if (stateOf(p).partial && stage !== "paid") return { text: `Part-paid · ${stage}`, color: "#d97706" };
+    return { text: overridden ? `${stage} (set by hand)` : stage, color: STAGE_COLORS[stage] };
+  };
+  const invoiceLabel = (id: string) => {
+    const inv = activeCase.payments.find((p) => p.id === id);
+    return inv ? `${inv.plan?.label || "Invoice"} due ${inv.dueDate}` : "(deleted invoice)";
+  };
+
+  // board columns: one per stage, open invoices by due date, paid ones newest first
+  const byStage = (stage: PaymentStage) =>
+    activeCase.payments
+      .filter((p) => statusOf(p).stage === stage)
+      .sort((a, b) => (stage === "paid" ? (b.paidOn || b.dueDate).localeCompare(a.paidOn || a.dueDate) : a.dueDate.localeCompare(b.dueDate)));
+
+  /* ===== UI ===== */
+  // forms pick their default dates when they mount, so nothing mounts before the saved calendar is in
+  if (!hydrated && !storageError) return <div style={{ padding: 24, color: "#6b7280", fontFamily: "system-ui,Segoe UI,Roboto,sans-serif" }}>Loading…</div>;
+
+  return (
+    <div style={{ padding: 24, maxWidth: 1200, margin: "0 auto", fontFamily: "system-ui,Segoe UI,Roboto,sans-serif", background: "#f9fafb", minHeight: "100vh" }}>
+      {/* Header */}
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 16 }}>
+        <div>
+          <div style={{ fontSize: 22, fontWeight: 800 }}>Egg Donor & Client Finance Manager</div>
+          <div style={{ color: "#6b7280", fontSize: 13 }}>Track expected invoices, client payments, and expenses ✨</div>
         </div>
         <div style={{ display: "flex", gap: 8 }}>
+          <button style={btn} onClick={() => setView((v) => (v === "portfolio" ? "case" : "portfolio"))}>
+            {view === "portfolio" ? "Back to Case" : "Portfolio"}
+          </button>
+          <button style={btn} onClick={() => setShowSync((v) => !v)}>
+            {sync.serverUrl ? `Sync · ${SYNC_LABELS[syncStatus.state]}` : "Sync"}{sync.conflicts.length ? ` ⚠️ ${sync.conflicts.length}` : ""}
+          </button>
+          <button style={btn} onClick={exportBackup}>Export</button>
+          <label style={btn}>
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readBackup(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
           <button style={btn} onClick={() => setShowNewCase((v) => !v)}>{showNewCase ? "Close" : "New Case"}</button>
           <button
             style={btnDanger}
@@ -469,12 +3005,67 @@ export default function App() {
         </div>
       </div>
 
+      {storageError && (
+        <div style={{ marginBottom: 16, padding: 10, borderRadius: 12, background: "#fee2e2", color: "#b91c1c", fontSize: 14 }}>
+          ⚠️ {storageError}. Changes are kept in this tab only.
+        </div>
+      )}
+
+      {(showSync || sync.conflicts.length > 0 || duplicates.length > 0) && (
+        <div style={{ marginBottom: 16 }}>
+          <SyncPanel
+            sync={sync}
+            status={syncStatus}
+            data={{ cases, rates, templates, stages, taxonomy, rules, reminderTemplates, documents: documentSettings, calendar }}
+            duplicates={duplicates}
+            onConnect={(serverUrl, token) => {
+              setSync({ ...DEFAULT_SYNC, serverUrl, token });
+              setSyncStatus({ state: "idle" });
+            }}
+            onDisconnect={() => {
+              setSync(DEFAULT_SYNC);
+              setSyncStatus({ state: "idle" });
+            }}
+            onSyncNow={() => setSyncTick((n) => n + 1)}
+            onResolve={resolveConflict}
+            onRenumber={renumberInvoice}
+          />
+        </div>
+      )}
+
+      {pendingImport && (
+        <div style={{ marginBottom: 16 }}>
+          <ImportPanel
+            cases={cases}
+            fileName={pendingImport.fileName}
+            parsed={pendingImport}
+            onApply={(mode) => {
+              if (refuseLocked(lockedCasesChange(calendar, cases, applyImport(cases, pendingImport.cases, mode)) ?? lockedRatesChange(calendar, rates, mergeRates(rates, pendingImport.rates)))) return;
+              setCases((prev) => applyImport(prev, pendingImport.cases, mode));
+              setRates((prev) => mergeRates(prev, pendingImport.rates));
+              setTemplates((prev) => mergeTemplates(prev, pendingImport.templates));
+              setStages((prev) => mergeStages(prev, pendingImport.stages));
+              setTaxonomy((prev) => mergeTaxonomy(prev, pendingImport.taxonomy));
+              setRules((prev) => mergeRules(prev, pendingImport.rules));
+              setReminderTemplates((prev) => mergeReminderTemplates(prev, pendingImport.reminderTemplates));
+              setOutbox((prev) => mergeOutbox(prev, pendingImport.outbox));
+              setDocumentSettings((prev) => mergeDocumentSettings(prev, pendingImport.documents));
+              setCalendar((prev) => mergeCalendar(prev, pendingImport.calendar));
+              Promise.all(pendingImport.files.map(async (f) => saveFile(f.id, await dataUrlToBlob(f.dataUrl))))
+                .catch((err: Error) => setStorageError(`Could not store imported attachments: ${err.message}`));
+              setPendingImport(null);
+            }}
+            onCancel={() => setPendingImport(null)}
+          />
+        </div>
+      )}
+
       {showNewCase && (
         <div style={{ marginBottom: 16 }}>
           <NewCaseForm
             onCreate={(payload) => {
               const id = `case-${Date.now()}`;
-              setCases((prev) => [{ id, payments: [], expenses: [], accounts: payload.accounts || [], client: payload.client || "", donor: payload.donor || "", code: payload.code || "" }, ...prev]);
+              setCases((prev) => [{ id, payments: [], expenses: [], transfers: [], history: [], statusRules: { ...DEFAULT_STATUS_RULES }, lifecycle: {}, categoryBudgets: {}, plannedExpenses: [], reminderLog: [], contactEmails: [], reminderSchedules: [], donorPayables: [], reconciliations: [], accounts: payload.accounts || [], client: payload.client || "", donor: payload.donor || "", code: payload.code || "", reportingCurrency: payload.reportingCurrency || "USD" }, ...prev]);
               setActiveId(id);
               setShowNewCase(false);
             }}
@@ -485,11 +3076,18 @@ export default function App() {
       <div style={{ display: "grid", gridTemplateColumns: "280px 1fr", gap: 16 }}>
         {/* Sidebar: Cases */}
         <Card title="Cases">
+          <div style={{ display: "grid", gap: 6, marginBottom: 8 }}>
+            <input value={caseQuery} onChange={(e) => setCaseQuery(e.target.value)} placeholder="Search client, donor or Donation ID" />
+            <select value={caseFilter} onChange={(e) => setCaseFilter(e.target.value as CaseFilter)}>
+              {CASE_FILTERS.map((f) => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
           <div style={{ display: "grid", gap: 8, maxHeight: 520, overflow: "auto", paddingRight: 6 }}>
-            {cases.map((cs) => (
+            {visibleSummaries.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No cases match.</div>}
+            {visibleSummaries.map(({ c: cs, overdue }) => (
               <button
                 key={cs.id}
-                onClick={() => setActiveId(cs.id)}
+                onClick={() => { setActiveId(cs.id); setView("case"); }}
                 style={{ textAlign: "left", border: "1px solid #e5e7eb", borderRadius: 12, padding: 12, background: activeId === cs.id ? "#eef2ff" : "#fff" }}
               >
                 <div style={{ display: "flex", justifyContent: "space-between" }}>
@@ -497,12 +3095,16 @@ export default function App() {
                     <div style={{ fontWeight: 600 }}>{cs.client || "(Untitled)"}</div>
                     <div style={{ fontSize: 12, color: "#6b7280" }}>{cs.donor || ""}</div>
                   </div>
-                  <div style={{ fontSize: 12, fontWeight: 700, background: "#f3f4f6", padding: "2px 8px", borderRadius: 8 }}>#{cs.code || "—"}</div>
+                  <div style={{ textAlign: "right" }}>
+                    <div style={{ fontSize: 12, fontWeight: 700, background: "#f3f4f6", padding: "2px 8px", borderRadius: 8 }}>#{cs.code || "—"}</div>
+                    <div style={{ fontSize: 12, color: "#4f46e5", marginTop: 4 }}>{currentStage(cs, stages)?.name || "Not started"}</div>
+                    {overdue > 0 && <div style={{ ...pillFilled("#dc2626"), marginTop: 4, display: "inline-block" }}>{overdue} overdue</div>}
+                  </div>
                 </div>
                 <div style={{ marginTop: 6, display: "flex", gap: 6, flexWrap: "wrap" }}>
-                  {cs.accounts.slice(0, 1).map((a) => (
+                  {cs.accounts.map((a) => (
                     <span key={a.id} style={{ background: "#f3f4f6", padding: "2px 8px", borderRadius: 999, fontSize: 12 }}>
-                      {a.name}: {currency(a.balance)}
+                      {a.name}: {currency(a.balance, cs.reportingCurrency)}
                     </span>
                   ))}
                 </div>
@@ -512,161 +3114,561 @@ export default function App() {
         </Card>
 
         {/* Main */}
-        <div style={{ display: "grid", gap: 12 }}>
-          {/* Totals */}
-          <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 12 }}>
-            <Card title="✅ Came In">
-              <div style={{ fontSize: 26, fontWeight: 800 }}>{currency(totals.receivedIn)}</div>
-              <div style={{ fontSize: 12, color: "#6b7280" }}>client payments received</div>
-            </Card>
-            <Card title="🔔 Supposed to Come In">
-              <div style={{ fontSize: 26, fontWeight: 800 }}>{currency(totals.expectedIn)}</div>
-              <div style={{ fontSize: 12, color: "#6b7280" }}>upcoming & overdue invoices</div>
-            </Card>
-            <Card title="💵 Paid Out">
-              <div style={{ fontSize: 26, fontWeight: 800 }}>{currency(totals.paidOut)}</div>
-              <div style={{ fontSize: 12, color: "#6b7280" }}>expenses posted</div>
-            </Card>
-          </div>
+        {view === "portfolio" ? (
+          <PortfolioView
+            rows={visibleSummaries}
+            code={portfolioCurrency}
+            onCurrency={setPortfolioCurrency}
+            onOpen={(id) => { setActiveId(id); setView("case"); }}
+          />
+        ) : (
+          <div style={{ display: "grid", gap: 12 }}>
+            {/* Totals */}
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 12 }}>
+              <Card title="✅ Came In">
+                <div style={{ fontSize: 26, fontWeight: 800 }}>{money(totals.receivedIn)}</div>
+                <div style={{ fontSize: 12, color: "#6b7280" }}>client payments received</div>
+                {totals.clientCredit > 0.005 && (
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginTop: 6, fontSize: 12, color: "#059669" }}>
+                    <span>incl. {money(totals.clientCredit)} client credit</span>
+                    {openInvoiceList.length > 0 && <button style={btnTiny} onClick={applyCredit}>Apply to invoices</button>}
+                  </div>
+                )}
+              </Card>
+              <Card title="🔔 Supposed to Come In">
+                <div style={{ fontSize: 26, fontWeight: 800 }}>{money(totals.expectedIn)}</div>
+                <div style={{ fontSize: 12, color: "#6b7280" }}>upcoming & overdue invoices</div>
+              </Card>
+              <Card title="💵 Paid Out">
+                <div style={{ fontSize: 26, fontWeight: 800 }}>{money(totals.paidOut)}</div>
+                <div style={{ fontSize: 12, color: "#6b7280" }}>expenses posted</div>
+              </Card>
+            </div>
 
-          {/* KPIs */}
-          <div style={{ display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: 12 }}>
-            <Card title="📅 Due in 7 days"><div style={{ fontSize: 22, fontWeight: 700 }}>{kpis.dueSoon}</div></Card>
-            <Card title="⚠️ Overdue"><div style={{ fontSize: 22, fontWeight: 700 }}>{kpis.overdue}</div></Card>
-          </div>
+            {fx.missing.size > 0 && (
+              <div style={{ padding: 10, borderRadius: 12, background: "#fffbeb", color: "#b45309", fontSize: 14 }}>
+                ⚠️ No exchange rate from {[...fx.missing].join(", ")} to {activeCase.reportingCurrency}; those amounts are counted 1:1. Add rates under Overview › Currency.
+              </div>
+            )}
 
-          {/* Tabs */}
-          <div style={{ display: "flex", gap: 8 }}>
-            {(["overview", "expenses", "payments"] as const).map((t) => (
-              <button key={t} onClick={() => setTab(t)} style={{ ...tabBtn, ...(tab === t ? tabBtnActive : {}) }}>
-                {t[0].toUpperCase() + t.slice(1)}
-              </button>
-            ))}
-          </div>
+            {/* KPIs */}
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 12 }}>
+              <Card title={`📅 Due (within ${activeCase.statusRules.dueWindowDays} days)`}><div style={{ fontSize: 22, fontWeight: 700 }}>{kpis.dueSoon}</div></Card>
+              <Card title="⚠️ Overdue or missed"><div style={{ fontSize: 22, fontWeight: 700 }}>{kpis.overdue}</div></Card>
+              <Card title="🤝 Owed to Donor">
+                <div style={{ fontSize: 22, fontWeight: 700 }}>{money(owedToDonor.scheduled)}</div>
+                <div style={{ fontSize: 12, color: "#6b7280" }}>
+                  scheduled compensation{owedToDonor.submitted > 0.005 ? ` · ${money(owedToDonor.submitted)} in claims awaiting approval` : ""}
+                </div>
+              </Card>
+            </div>
+
+            {/* Tabs */}
+            <div style={{ display: "flex", gap: 8 }}>
+              {(["overview", "expenses", "payments", "donor"] as const).map((t) => (
+                <button key={t} onClick={() => setTab(t)} style={{ ...tabBtn, ...(tab === t ? tabBtnActive : {}) }}>
+                  {t[0].toUpperCase() + t.slice(1)}
+                </button>
+              ))}
+            </div>
+
+            {/* OVERVIEW */}
+            {tab === "overview" && (
+              <div style={{ display: "grid", gap: 12 }}>
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                  <Card title="🏦 Accounts">
+                    <div style={{ display: "grid", gap: 8 }}>
+                      {activeCase.accounts.map((a) => (
+                        <div key={a.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
+                          <div>
+                            <div style={{ fontWeight: 600 }}>{a.name}</div>
+                            <div style={{ fontSize: 12, color: "#6b7280" }}>{a.id}</div>
+                          </div>
+                          <div style={{ fontSize: 18, fontWeight: 700 }}>{money(accountBalances[a.id] ?? a.balance)}</div>
+                        </div>
+                      ))}
+                      <AddAccountForm onAdd={(n, b) => addAccount(n, Number(b))} />
+                    </div>
+                  </Card>
+
+                  <Card title="ℹ️ Case Details">
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, fontSize: 14 }}>
+                      <div><div style={label}>Client</div><div style={{ fontWeight: 600 }}>{activeCase.client || "—"}</div></div>
+                      <div><div style={label}>Donor</div><div style={{ fontWeight: 600 }}>{activeCase.donor || "—"}</div></div>
+                      <div><div style={label}>Donation ID</div><div style={{ fontWeight: 600 }}>#{activeCase.code || "—"}</div></div>
+                      <div><div style={label}>Flow</div><div style={{ fontWeight: 600 }}>Invoices from client · expenses out</div></div>
+                      <div style={{ gridColumn: "1 / -1" }}>
+                        <div style={label}>Contact emails</div>
+                        <ContactEmails key={activeCase.id} emails={activeCase.contactEmails} onChange={(contactEmails) => setActiveCase((c) => ({ ...c, contactEmails }))} />
+                      </div>
+                    </div>
+                  </Card>
+                </div>
+
+                {activeCase.accounts.length > 1 && (
+                  <Card title="🔁 Transfers">
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                      <TransferForm key={activeCase.id} accounts={activeCase.accounts} onAdd={addTransfer} />
+                      <div style={{ display: "grid", gap: 8, alignContent: "start" }}>
+                        {activeCase.transfers.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No transfers yet.</div>}
+                        {activeCase.transfers.map((t) => (
+                          <div key={t.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
+                            <div>
+                              <strong>{accountName(t.fromAccountId)} → {accountName(t.toAccountId)}</strong>{" "}
+                              <span style={{ fontSize: 12, color: "#6b7280" }}>{t.date}{t.note ? ` · ${t.note}` : ""}</span>
+                            </div>
+                            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                              <div>{money(t.amount)}</div>
+                              <button style={btnTinyDanger} onClick={() => { if (confirm("Delete this transfer?")) deleteTransfer(t.id); }}>Delete</button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </Card>
+                )}
+
+                <Card title="🧮 Reconcile Account">
+                  <ReconcilePanel
+                    key={activeCase.id}
+                    c={activeCase}
+                    fx={fx}
+                    money={money}
+                    onStart={(accountId, date, balance) => setActiveCase((c) => startReconciliation(c, accountId, date, balance))}
+                    onUpdate={(id, patch) => setActiveCase((c) => updateReconciliation(c, id, patch))}
+                    onToggle={(id, recordId) => setActiveCase((c) => toggleCleared(c, id, recordId))}
+                    onLock={(id) => setActiveCase((c) => lockReconciliation(c, fx, id))}
+                    onDiscard={(id) => setActiveCase((c) => discardReconciliation(c, id))}
+                    onPrint={(r) => printHtml(reconciliationHtml(activeCase, r))}
+                    onDownload={(r) => downloadFile(`reconciliation-${activeCase.code || activeCase.id}-${r.statementDate}.html`, reconciliationHtml(activeCase, r), "text/html")}
+                  />
+                </Card>
+
+                <Card title="💱 Currency">
+                  <CurrencySettings
+                    reportingCurrency={activeCase.reportingCurrency}
+                    rates={rates}
+                    onReportingCurrency={(code) => setActiveCase((c) => ({ ...c, reportingCurrency: code }))}
+                    onAddRate={addRate}
+                    onDeleteRate={deleteRate}
+                  />
+                </Card>
+
+                <Card title="🧭 Lifecycle & Budget">
+                  <LifecycleTracker
+                    stages={stages}
+                    lifecycle={activeCase.lifecycle}
+                    budgets={lifecycleBudgets.rows}
+                    unstaged={lifecycleBudgets.unstaged}
+                    current={currentStage(activeCase, stages)}
+                    money={money}
+                    onChange={(stageId, patch) => setActiveCase((c) => ({ ...c, lifecycle: { ...c.lifecycle, [stageId]: patch } }))}
+                    onStagesChange={setStages}
+                  />
+                </Card>
+
+                <Card title="⏳ Receivables Aging">
+                  <AgingTable rows={[{ id: activeCase.id, name: activeCase.client, aging }]} money={money} />
+                </Card>
+
+                <Card title="📈 Cash-flow Forecast (12 weeks)">
+                  <CashFlowForecast
+                    key={activeCase.id}
+                    weeks={forecast.weeks}
+                    firstNegative={forecast.firstNegative}
+                    accounts={activeCase.accounts}
+                    planned={activeCase.plannedExpenses}
+                    defaultCurrency={activeCase.reportingCurrency}
+                    money={money}
+                    onAdd={(payload) => setActiveCase((c) => ({ ...c, plannedExpenses: [...c.plannedExpenses, { id: `pe-${Math.random().toString(36).slice(2)}`, ...payload }] }))}
+                    onDelete={(id) => setActiveCase((c) => ({ ...c, plannedExpenses: c.plannedExpenses.filter((pe) => pe.id !== id) }))}
+                  />
+                </Card>
+
+                <Card title="⏱ Payment Rules">
+                  <StatusRulesSettings rules={activeCase.statusRules} onChange={(rules) => setActiveCase((c) => ({ ...c, statusRules: rules }))} />
+                </Card>
+
+                <Card title="🧾 Client Statement">
+                  <StatementPanel
+                    onPrint={(from, to) => printHtml(statementHtml(activeCase, clientStatement(activeCase, fx, from, to), documentSettings))}
+                    onDownload={(from, to) =>
+                      downloadFile(`account-statement-${activeCase.code || activeCase.id}-${from}-${to}.html`, statementHtml(activeCase, clientStatement(activeCase, fx, from, to), documentSettings), "text/html")}
+                  />
+                </Card>
+
+                <Card title="🏢 Agency & Documents">
+                  <DocumentSettingsEditor settings={documentSettings} onChange={setDocumentSettings} />
+                </Card>
+
+                <Card title="📑 Ledger Report">
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                    <div style={{ fontSize: 13, color: "#6b7280" }}>Itemized expenses by category, payments received & outstanding, and running balance.</div>
+                    <div style={{ display: "flex", gap: 8 }}>
+                      <button style={btn} onClick={exportLedgerCsv}>Export CSV</button>
+                      <button style={btnPrimary} onClick={printLedger}>Print statement</button>
+                    </div>
+                  </div>
+                </Card>
+
+                <Card title="📆 Fiscal Periods">
+                  <FiscalPeriods
+                    calendar={calendar}
+                    today={today}
+                    summarize={(unit) => periodSummaries(activeCase, fx, calendar.fiscalYearStart, unit, today)}
+                    money={money}
+                    onChange={setCalendar}
+                    onExport={(unit, rows) =>
+                      downloadFile(`periods-${activeCase.code || activeCase.id}-${unit}s.csv`, periodsCsv(activeCase, rows, calendar.fiscalYearStart, (r) => monthsIn(r.from, r.to).every((m) => lockFor(calendar, m))), "text/csv")}
+                  />
+                </Card>
+
+                <Card title="🗂 Change Log">
+                  <div style={{ maxHeight: 320, overflow: "auto" }}>
+                    <HistoryList
+                      entries={[...activeCase.history].reverse().slice(0, 20)}
+                      undoable={isUndoable}
+                      onUndo={(h) => undoChange(h.kind, h.recordId)}
+                      describe={describeChange}
+                    />
+                  </div>
+                </Card>
 
-          {/* OVERVIEW */}
-          {tab === "overview" && (
-            <div style={{ display: "grid", gap: 12 }}>
-              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
-                <Card title="🏦 Account (max 1)">
+                <Card title="🕒 Activity Timeline">
                   <div style={{ display: "grid", gap: 8 }}>
-                    {activeCase.accounts.map((a) => (
-                      <div key={a.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
+                    {[...activeCase.expenses].slice(0, 3).map((e) => (
+                      <div key={e.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
+                        <div>
+                          <span style={pill}>Expense</span> <strong>{e.note || (e.category + (e.subCategory ? ` › ${e.subCategory}` : ""))}</strong> <span style={{ fontSize: 12, color: "#6b7280" }}>{e.date}</span>
+                        </div>
+                        <div style={{ color: "#b91c1c", textAlign: "right" }}>
+                          -{money(fx.expense(e))}
+                          {originalAmount(e) && <div style={{ fontSize: 12, color: "#6b7280" }}>{originalAmount(e)}</div>}
+                        </div>
+                      </div>
+                    ))}
+                    {[...activeCase.payments].slice(0, 3).map((p) => (
+                      <div key={p.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
                         <div>
-                          <div style={{ fontWeight: 600 }}>{a.name}</div>
-                          <div style={{ fontSize: 12, color: "#6b7280" }}>{a.id}</div>
+                          <span style={pillFilled(paymentBadge(p).color)}>{paymentBadge(p).text}</span>{" "}
+                          <strong>{p.plan?.label || "Client Payment"}</strong>{" "}
+                          <span style={{ fontSize: 12, color: "#6b7280" }}>{statusOf(p).stage === "paid" ? `Paid ${p.paidOn || p.dueDate}` : `Due ${p.dueDate}`}</span>
+                        </div>
+                        <div style={{ textAlign: "right" }}>
+                          {money(fx.payment(p))}
+                          {originalAmount(p) && <div style={{ fontSize: 12, color: "#6b7280" }}>{originalAmount(p)}</div>}
                         </div>
-                        <div style={{ fontSize: 18, fontWeight: 700 }}>{currency(accountBalances[a.id] ?? a.balance)}</div>
                       </div>
                     ))}
-                    {activeCase.accounts.length < 1 && <AddAccountForm onAdd={(n, b) => addAccount(n, Number(b))} />}
                   </div>
                 </Card>
+              </div>
+            )}
 
-                <Card title="ℹ️ Case Details">
-                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, fontSize: 14 }}>
-                    <div><div style={label}>Client</div><div style={{ fontWeight: 600 }}>{activeCase.client || "—"}</div></div>
-                    <div><div style={label}>Donor</div><div style={{ fontWeight: 600 }}>{activeCase.donor || "—"}</div></div>
-                    <div><div style={label}>Donation ID</div><div style={{ fontWeight: 600 }}>#{activeCase.code || "—"}</div></div>
-                    <div><div style={label}>Flow</div><div style={{ fontWeight: 600 }}>Invoices from client · expenses out</div></div>
-                  </div>
+            {/* EXPENSES */}
+            {tab === "expenses" && (
+              <div style={{ display: "grid", gap: 12 }}>
+                <Card title="➕ Add Expense">
+                  <ExpenseForm
+                    key={activeCase.id}
+                    accounts={activeCase.accounts}
+                    stages={stages}
+                    taxonomy={taxonomy}
+                    defaultCurrency={activeCase.reportingCurrency}
+                    suggest={suggest}
+                    warningsFor={(draft) => budgetWarnings(activeCase, fx, categories, draft)}
+                    onLearn={(rule) => setRules((prev) => [{ id: `rule-${Math.random().toString(36).slice(2)}`, ...rule }, ...prev])}
+                    onAdd={(payload) => addExpense({ ...payload, date: payload.date || today })} />
                 </Card>
-              </div>
 
-              <Card title="🕒 Activity Timeline">
-                <div style={{ display: "grid", gap: 8 }}>
-                  {[...activeCase.expenses].slice(0, 3).map((e) => (
-                    <div key={e.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
-                      <div>
-                        <span style={pill}>Expense</span> <strong>{e.note || (e.category + (e.subCategory ? ` › ${e.subCategory}` : ""))}</strong> <span style={{ fontSize: 12, color: "#6b7280" }}>{e.date}</span>
-                      </div>
-                      <div style={{ color: "#b91c1c" }}>-{currency(e.amount)}</div>
+                <Card title="🎯 Category Budgets">
+                  <CategoryBudgets
+                    groups={variance}
+                    budgets={activeCase.categoryBudgets}
+                    money={money}
+                    onChange={(key, amount) =>
+                      setActiveCase((c) => {
+                        const next = { ...c.categoryBudgets };
+                        if (amount === undefined) delete next[key];
+                        else next[key] = amount;
+                        return { ...c, categoryBudgets: next };
+                      })}
+                  />
+                </Card>
+
+                <Card title="🧠 Categorization Rules">
+                  <RulesEditor rules={rules} taxonomy={taxonomy} onChange={setRules} />
+                </Card>
+
+                <Card title="🏷 Categories">
+                  <TaxonomyEditor
+                    taxonomy={taxonomy}
+                    usage={categoryUsage}
+                    onChange={setTaxonomy}
+                    onRename={(path, name) => editTaxonomy((t, cs) => renameCategory(t, cs, path, name))}
+                    onMerge={(from, into) => editTaxonomy((t, cs) => mergeCategory(t, cs, from, into))}
+                  />
+                </Card>
+
+                <Card title="📄 Import Statement (CSV)">
+                  <StatementImport key={activeCase.id} accounts={activeCase.accounts} expenses={activeCase.expenses} taxonomy={taxonomy} suggest={suggest} defaultCurrency={activeCase.reportingCurrency} onPost={postStatement} />
+                </Card>
+
+                <Card title="Recent Expenses">
+                  <div style={{ display: "grid", gap: 8 }}>
+                    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                      <select value={receiptFilter} onChange={(e) => setReceiptFilter(e.target.value as "all" | "missing")}>
+                        <option value="all">All expenses</option>
+                        <option value="missing">Missing receipt ({activeCase.expenses.filter(missingReceipt).length})</option>
+                      </select>
+                      {attachError && <span style={{ fontSize: 12, color: "#b91c1c" }}>{attachError}</span>}
                     </div>
-                  ))}
-                  {[...activeCase.payments].slice(0, 3).map((p) => (
-                    <div key={p.id} style={{ display: "flex", justifyContent: "space-between", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
-                      <div>
-                        <span style={pillFilled(p.status === "completed" ? "#059669" : p.status === "missed" ? "#dc2626" : "#4b5563")}>{p.status === "completed" ? "Received" : p.status === "missed" ? "Overdue" : "Expected"}</span>{" "}
-                        <strong>Client Payment</strong>{" "}
-                        <span style={{ fontSize: 12, color: "#6b7280" }}>{p.status === "completed" ? `Paid ${p.paidOn || p.dueDate}` : `Due ${p.dueDate}`}</span>
+                    {activeCase.expenses.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No expenses yet.</div>}
+                    {activeCase.expenses.filter((e) => receiptFilter === "all" || missingReceipt(e)).map((e) => (
+                      <div
+                        key={e.id}
+                        style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}
+                        onDragOver={(ev) => ev.preventDefault()}
+                        onDrop={(ev) => {
+                          ev.preventDefault();
+                          attachFiles(e.id, [...ev.dataTransfer.files]);
+                        }}
+                      >
+                        {editingId === e.id ? (
+                          <ExpenseEditor
+                            expense={e}
+                            accounts={activeCase.accounts}
+                            stages={stages}
+                            taxonomy={taxonomy}
+                            defaultCurrency={activeCase.reportingCurrency}
+                            onSave={(patch) => { updateExpense(e.id, patch); setEditingId(null); }}
+                            onCancel={() => setEditingId(null)}
+                          />
+                        ) : (
+                          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+                            <div>
+                              <span style={pill}>{e.category}{e.subCategory ? ` › ${e.subCategory}` : ""}</span> <strong>{e.note || "—"}</strong> <span style={{ fontSize: 12, color: "#6b7280" }}>{e.date}</span>
+                              {stageName(e) && <span style={{ fontSize: 12, color: "#4f46e5" }}> · {stageName(e)}</span>}
+                              {clearedIn(activeCase, e.id) && <span style={{ fontSize: 12, color: "#059669" }}> · ✓ reconciled</span>}
+                            </div>
+                            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                              <div style={{ color: "#b91c1c", minWidth: 90, textAlign: "right" }}>
+                                -{money(fx.expense(e))}
+                                {originalAmount(e) && <div style={{ fontSize: 12, color: "#6b7280" }}>{originalAmount(e)}</div>}
+                              </div>
+                              <button style={btnTiny} onClick={() => setEditingId(e.id)}>Edit</button>
+                              <button style={btnTiny} onClick={() => setHistoryId(historyId === e.id ? null : e.id)}>History</button>
+                              <button style={btnTinyDanger} onClick={() => { if (confirm("Delete this expense? You can undo this from the change log.")) deleteExpense(e.id); }}>Delete</button>
+                            </div>
+                          </div>
+                        )}
+                        {editingId !== e.id && (
+                          <div style={{ marginTop: 6 }}>
+                            <ExpenseAttachments attachments={e.attachments || []} onAdd={(files) => attachFiles(e.id, files)} onRemove={(id) => removeAttachment(e.id, id)} />
+                          </div>
+                        )}
+                        {historyId === e.id && (
+                          <div style={{ marginTop: 8 }}>
+                            <HistoryList entries={recordHistory(activeCase, "expense", e.id)} undoable={isUndoable} onUndo={(h) => undoChange(h.kind, h.recordId)} />
+                          </div>
+                        )}
                       </div>
-                      <div>{currency(p.amount)}</div>
-                    </div>
-                  ))}
-                </div>
-              </Card>
-            </div>
-          )}
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            )}
 
-          {/* EXPENSES */}
-          {tab === "expenses" && (
-            <div style={{ display: "grid", gap: 12 }}>
-              <Card title="➕ Add Expense">
-                <ExpenseForm accounts={activeCase.accounts} onAdd={(payload) => addExpense({ ...payload, date: payload.date || todayISO() })} />
-              </Card>
+            {/* DONOR */}
+            {tab === "donor" && (
+              <div style={{ display: "grid", gap: 12 }}>
+                <Card title="💝 Schedule Compensation">
+                  <CompensationForm key={activeCase.id} taxonomy={taxonomy} defaultCurrency={activeCase.reportingCurrency} onAdd={addPayables} />
+                </Card>
+                <Card title="🧾 Reimbursement Claim">
+                  <ClaimForm key={activeCase.id} taxonomy={taxonomy} defaultCurrency={activeCase.reportingCurrency} onSubmit={(p) => addPayables([p])} />
+                </Card>
+                <Card title={`🤝 Donor Payables · ${money(owedToDonor.total)} open · ${money(owedToDonor.paid)} paid`}>
+                  <PayablesList
+                    key={activeCase.id}
+                    payables={activeCase.donorPayables}
+                    accounts={activeCase.accounts}
+                    defaultCurrency={activeCase.reportingCurrency}
+                    onPost={(id, accountId) => setActiveCase((c) => postPayable(c, id, taxonomy, { accountId, stageId: stageAt(c, stages, today)?.id }))}
+                    onReject={(id, reason) => setActiveCase((c) => rejectPayable(c, id, reason))}
+                    onDelete={(id) => setActiveCase((c) => ({ ...c, donorPayables: c.donorPayables.filter((p) => p.id !== id) }))}
+                  />
+                </Card>
+              </div>
+            )}
 
-              <Card title="Recent Expenses">
-                <div style={{ display: "grid", gap: 8 }}>
-                  {activeCase.expenses.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No expenses yet.</div>}
-                  {activeCase.expenses.map((e) => (
-                    <div key={e.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", border: "1px solid #e5e7eb", borderRadius: 12, padding: 10 }}>
-                      <div>
-                        <span style={pill}>{e.category}{e.subCategory ? ` › ${e.subCategory}` : ""}</span> <strong>{e.note || "—"}</strong> <span style={{ fontSize: 12, color: "#6b7280" }}>{e.date}</span>
-                      </div>
-                      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                        <div style={{ color: "#b91c1c", minWidth: 90, textAlign: "right" }}>-{currency(e.amount)}</div>
-                        <button style={btnTinyDanger} onClick={() => { if (confirm("Delete this expense? This cannot be undone.")) deleteExpense(e.id); }}>Delete</button>
+            {/* PAYMENTS */}
+            {tab === "payments" && (
+              <div style={{ display: "grid", gap: 12 }}>
+                <Card title="➕ Add Expected Invoice">
+                  <PaymentForm key={activeCase.id} accounts={activeCase.accounts} defaultCurrency={activeCase.reportingCurrency} onAdd={(payload) => addPayment({ ...payload, amount: Number(payload.amount) || 0 })} />
+                </Card>
+
+                <Card title="🗓 Payment Plan">
+                  <ApplyPlanForm
+                    key={activeCase.id}
+                    templates={templates}
+                    accounts={activeCase.accounts}
+                    defaultCurrency={activeCase.reportingCurrency}
+                    caseStartDate={activeCase.startDate}
+                    hasPlan={activeCase.payments.some((p) => p.plan)}
+                    onApply={(t, opts) => setActiveCase((c) => applyPlan(c, t, opts))}
+                    onShift={(startDate) => setActiveCase((c) => shiftPlanDates(c, startDate))}
+                  />
+                </Card>
+
+                <Card title="✅ Record Client Payment">
+                  <ReceivePaymentForm
+                    key={activeCase.id}
+                    accounts={activeCase.accounts}
+                    defaultCurrency={activeCase.reportingCurrency}
+                    invoicesFor={(code) => openInvoices(activeCase, code)}
+                    onAdd={(payload) => addReceivedPayment({ ...payload, amount: Number(payload.amount) || 0 })} />
+                </Card>
+
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 12 }}>
+                  {PAYMENT_STAGES.map((stage) => ({ id: stage, title: stage[0].toUpperCase() + stage.slice(1), list: byStage(stage) })).map((col) => (
+                    <Card key={col.id} title={col.title}>
+                      <div style={{ minHeight: 120 }}>
+                        {col.list.map((p) => (
+                          <div key={p.id} style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10, marginBottom: 8 }}>
+                            <div style={{ display: "flex", justifyContent: "space-between" }}>
+                              <div style={{ fontWeight: 600 }}>
+                                {isReceipt(p) ? `💰 ${p.paidOn || p.dueDate}` : `📅 ${p.dueDate}`}
+                                {p.plan && <div style={{ fontSize: 12, fontWeight: 400, color: "#6b7280" }}>{p.plan.label}</div>}
+                              </div>
+                              <span style={pill}>{accountName(p.accountId)}</span>
+                              {clearedIn(activeCase, p.id) && <span style={{ ...pill, color: "#059669" }}>✓ reconciled</span>}
+                            </div>
+                            <div style={{ fontSize: 20, marginTop: 2 }}>{money(fx.payment(p))}</div>
+                            {originalAmount(p) && <div style={{ fontSize: 12, color: "#6b7280" }}>{originalAmount(p)}</div>}
+                            {statusOf(p).overridden && (
+                              <div style={{ fontSize: 12, color: "#6b7280" }}>set by hand · rules say {statusOf(p).auto}</div>
+                            )}
+                            {!isReceipt(p) && stateOf(p).allocated > 0 && (
+                              <div style={{ fontSize: 12, color: stateOf(p).settled ? "#059669" : "#d97706" }}>
+                                {currency(stateOf(p).allocated, recordCurrency(activeCase, p))} received
+                                {!stateOf(p).settled && ` · ${currency(stateOf(p).remaining, recordCurrency(activeCase, p))} remaining`}
+                              </div>
+                            )}
+                            {isReceipt(p) && (
+                              <div style={{ fontSize: 12, color: "#6b7280", marginTop: 4 }}>
+                                {(p.allocations || []).map((a) => (
+                                  <div key={a.invoiceId}>→ {invoiceLabel(a.invoiceId)}: {currency(a.amount, recordCurrency(activeCase, p))}</div>
+                                ))}
+                                {receiptCredit(activeCase, p) > 0.005 && (
+                                  <div style={{ color: "#059669" }}>Client credit: {currency(receiptCredit(activeCase, p), recordCurrency(activeCase, p))}</div>
+                                )}
+                              </div>
+                            )}
+                            <div style={{ display: "flex", gap: 6, marginTop: 8, flexWrap: "wrap" }}>
+                              {!isReceipt(p) && <StageSelect payment={p} onChange={(stage) => updatePayment(p.id, stagePatch(p, stage))} />}
+                              {!isReceipt(p) && <button style={btnTiny} onClick={() => setInvoiceDocId(invoiceDocId === p.id ? null : p.id)}>{p.invoiceNumber || "Invoice"}</button>}
+                              <button style={btnTiny} onClick={() => setEditingId(editingId === p.id ? null : p.id)}>Edit</button>
+                              <button style={btnTiny} onClick={() => setHistoryId(historyId === p.id ? null : p.id)}>History</button>
+                              <button style={btnTinyDanger} onClick={() => { if (confirm("Delete this payment? You can undo this from the change log.")) deletePayment(p.id); }}>Delete</button>
+                            </div>
+                            {editingId === p.id && (
+                              <PaymentEditor
+                                payment={p}
+                                accounts={activeCase.accounts}
+                                defaultCurrency={activeCase.reportingCurrency}
+                                allocated={isReceipt(p) ? receiptAllocated(activeCase, p) : 0}
+                                onSave={(patch) => { updatePayment(p.id, patch); setEditingId(null); }}
+                                onCancel={() => setEditingId(null)}
+                              />
+                            )}
+                            {invoiceDocId === p.id && (
+                              <InvoiceComposer
+                                payment={p}
+                                initial={p.lineItems?.length ? p.lineItems : defaultLineItems(activeCase, p)}
+                                nextNumber={formatInvoiceNumber(documentSettings)}
+                                currencyCode={recordCurrency(activeCase, p)}
+                                onIssue={(lines) => { issueInvoice(p, lines); setInvoiceDocId(null); }}
+                                onCancel={() => setInvoiceDocId(null)}
+                              />
+                            )}
+                            {historyId === p.id && (
+                              <div style={{ marginTop: 8 }}>
+                                <HistoryList entries={recordHistory(activeCase, "payment", p.id)} undoable={isUndoable} onUndo={(h) => undoChange(h.kind, h.recordId)} />
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                        {col.list.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No items.</div>}
                       </div>
-                    </div>
+                    </Card>
                   ))}
                 </div>
-              </Card>
-            </div>
-          )}
 
-          {/* PAYMENTS */}
-          {tab === "payments" && (
-            <div style={{ display: "grid", gap: 12 }}>
-              <Card title="➕ Add Expected Invoice">
-                <PaymentForm onAdd={(payload) => addPayment({ amount: Number(payload.amount) || 0, dueDate: payload.dueDate })} />
-              </Card>
+                <Card title="📋 Plan Templates">
+                  <PlanTemplateEditor templates={templates} onSave={saveTemplate} onDelete={deleteTemplate} />
+                </Card>
 
-              <Card title="✅ Record Client Payment">
-                <ReceivePaymentForm onAdd={(payload) => addReceivedPayment({ amount: Number(payload.amount) || 0, paidOn: payload.paidOn })} />
-              </Card>
+                <Card title="🔔 Automated Reminders">
+                  <ReminderCenter
+                    key={activeCase.id}
+                    payments={(["missed", "overdue", "due", "upcoming"] as const).flatMap(byStage)}
+                    reportingCurrency={activeCase.reportingCurrency}
+                    remaining={(p) => stateOf(p).remaining}
+                    statusOf={statusOf}
+                    templates={reminderTemplates}
+                    render={reminderText}
+                    lastReminder={(p) => remindersFor(activeCase, p.id)[0]}
+                    canSend={activeCase.contactEmails.length > 0}
+                    onCopy={(r) => setActiveCase((c) => logReminder(c, { ...r, channel: "copied" }))}
+                    onSend={sendReminder}
+                  />
+                </Card>
 
-              <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 12 }}>
-                {[{ id: "upcoming", title: "Upcoming", list: upcoming }, { id: "completed", title: "Completed", list: completed }, { id: "missed", title: "Missed", list: missed }].map((col) => (
-                  <Card key={col.id} title={col.title}>
-                    <div style={{ minHeight: 120 }}>
-                      {col.list.map((p) => (
-                        <div key={p.id} style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10, marginBottom: 8 }}>
-                          <div style={{ display: "flex", justifyContent: "space-between" }}>
-                            <div style={{ fontWeight: 600 }}>📅 {p.dueDate}</div>
-                            <span style={pill}>{p.accountId || "—"}</span>
-                          </div>
-                          <div style={{ fontSize: 20, marginTop: 2 }}>{currency(p.amount)}</div>
-                          <div style={{ display: "flex", gap: 6, marginTop: 8, flexWrap: "wrap" }}>
-                            {(["upcoming", "completed", "missed"] as const).map((s) => (
-                              <button key={s} style={btnTiny} onClick={() => updatePayment(p.id, { status: s, paidOn: s === "completed" ? todayISO() : p.paidOn })}>
-                                Move to {s}
-                              </button>
-                            ))}
-                          </div>
+                <Card title="🔁 Recurring Reminders">
+                  <ReminderSchedules
+                    schedules={activeCase.reminderSchedules}
+                    templates={reminderTemplates}
+                    onChange={(reminderSchedules) => setActiveCase((c) => ({ ...c, reminderSchedules }))}
+                  />
+                  {!activeCase.contactEmails.length && activeCase.reminderSchedules.length > 0 && (
+                    <div style={{ fontSize: 12, color: "#b45309", marginTop: 6 }}>Nothing is queued until the case has a contact email.</div>
+                  )}
+                </Card>
+
+                <Card title="📤 Outbox">
+                  <OutboxPanel
+                    messages={outbox.filter((m) => m.caseId === activeCase.id)}
+                    settings={delivery}
+                    onSettings={setDelivery}
+                    onDeliver={deliverMessages}
+                    onDelete={(id) => setOutbox((prev) => prev.filter((m) => m.id !== id))}
+                  />
+                </Card>
+
+                <Card title="📨 Reminder Log">
+                  <div style={{ display: "grid", gap: 6, maxHeight: 320, overflow: "auto" }}>
+                    {activeCase.reminderLog.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No reminders copied or sent yet.</div>}
+                    {[...activeCase.reminderLog].reverse().map((r) => (
+                      <div key={r.id} style={{ border: "1px solid #e5e7eb", borderRadius: 12, padding: 10, fontSize: 14 }}>
+                        <div style={{ display: "flex", justifyContent: "space-between" }}>
+                          <strong>{r.templateName}</strong>
+                          <span style={{ fontSize: 12, color: "#6b7280" }}>{r.channel} · {new Date(r.at).toLocaleString()}</span>
                         </div>
-                      ))}
-                      {col.list.length === 0 && <div style={{ color: "#6b7280", fontSize: 14 }}>No items.</div>}
-                    </div>
-                  </Card>
-                ))}
-              </div>
+                        <div style={{ fontSize: 12, color: "#6b7280" }}>{r.paymentIds.map(invoiceLabel).join(", ")}</div>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
 
-              <Card title="🔔 Automated Reminders">
-                <ReminderCenter payments={[...missed, ...upcoming]} makeText={reminderPreview} />
-              </Card>
-            </div>
-          )}
-        </div>
+                <Card title="✉️ Reminder Templates">
+                  <ReminderTemplateEditor templates={reminderTemplates} onSave={saveReminderTemplate} onDelete={deleteReminderTemplate} />
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
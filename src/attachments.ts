@@ -0,0 +1,46 @@
+import type { Case, Expense } from "./model";
+
+/* =========================
+   Attachments
+   ========================= */
+// Receipts and invoices attached to expenses. The expense keeps only this metadata;
+// the file itself is stored under the same id by the storage backend.
+
+export type Attachment = {
+  id: string;
+  name: string;
+  /** MIME type, e.g. "image/png" or "application/pdf" */
+  type: string;
+  size: number;
+  addedAt: string; // ISO timestamp
+};
+
+export const ACCEPTED_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp", "image/heic", "application/pdf"];
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Why a file can't be attached, if it can't */
+export const rejectReason = (file: File) =>
+  !ACCEPTED_TYPES.includes(file.type) ? `${file.name}: only images and PDFs can be attached`
+  : file.size > MAX_ATTACHMENT_BYTES ? `${file.name}: larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+  : null;
+
+export const attachmentFor = (file: File): Attachment => ({
+  id: `att-${Math.random().toString(36).slice(2)}`,
+  name: file.name,
+  type: file.type,
+  size: file.size,
+  addedAt: new Date().toISOString(),
+});
+
+export const isImage = (a: Attachment) => a.type.startsWith("image/");
+
+export const missingReceipt = (e: Expense) => !e.attachments?.length;
+
+/** Every attachment id referenced by any expense */
+export const attachmentIds = (cases: Case[]) => cases.flatMap((c) => c.expenses.flatMap((e) => (e.attachments || []).map((a) => a.id)));
+
+export const fileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/** MIME type a data: URL declares, e.g. "application/pdf"; null when it isn't one */
+export const dataUrlType = (url: string) => /^data:([^;,]*)[;,]/.exec(url)?.[1].toLowerCase() ?? null;
@@ -0,0 +1,137 @@
+import { attachmentIds } from "./attachments";
+import type { DocumentSettings } from "./documents";
+import type { FxRate } from "./ledger";
+import type { LifecycleStage } from "./lifecycle";
+import type { Case } from "./model";
+import type { CalendarSettings } from "./periods";
+import type { PlanTemplate } from "./plans";
+import type { OutboxMessage } from "./outbox";
+import type { ReminderTemplate } from "./reminders";
+import type { CategoryRule } from "./rules";
+import { SCHEMA_VERSION, type Workspace } from "./schema";
+import { blobToDataUrl, loadFile } from "./storage";
+import type { Taxonomy } from "./taxonomy";
+import type { BackupFile } from "./validate";
+
+/* =========================
+   Export
+   ========================= */
+export const exportWorkspace = (data: Omit<Workspace, "version" | "sync">, files: BackupFile[] = []) =>
+  JSON.stringify({ ...data, files, version: SCHEMA_VERSION, exportedAt: new Date().toISOString() }, null, 2);
+
+/** Read every attached file the cases reference; files missing from storage are left out */
+export const collectFiles = async (cases: Case[]): Promise<BackupFile[]> => {
+  const files = await Promise.all(
+    attachmentIds(cases).map(async (id) => {
+      const blob = await loadFile(id);
+      return blob ? { id, dataUrl: await blobToDataUrl(blob) } : null;
+    }));
+  return files.filter((f): f is BackupFile => f !== null);
+};
+
+/** Trigger a browser download of an in-memory file */
+export const downloadFile = (filename: string, content: string, type = "application/json") => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Open the HTML in a new window and bring up the print dialog */
+export const printHtml = (html: string) => {
+  const w = window.open("", "_blank");
+  if (!w) return;
+  w.document.write(html);
+  w.document.close();
+  w.focus();
+  w.print();
+};
+
+/* =========================
+   Applying an import
+   ========================= */
+export type CollisionMode = "merge" | "replace";
+
+export const findCollisions = (existing: Case[], incoming: Case[]) => {
+  const ids = new Set(existing.map((c) => c.id));
+  return incoming.filter((c) => ids.has(c.id)).map((c) => c.id);
+};
+
+/** Union two record lists by id; incoming records win on conflict */
+const unionById = <T extends { id: string }>(current: T[], incoming: T[]) => {
+  const byId = new Map(current.map((r) => [r.id, r]));
+  incoming.forEach((r) => byId.set(r.id, r));
+  return [...byId.values()];
+};
+
+/** Imported exchange rates are added to the local table; same-id quotes take the file's value */
+export const mergeRates = (existing: FxRate[], incoming: FxRate[]) => unionById(existing, incoming);
+
+/** Plan templates merge the same way; a same-id template takes the file's version */
+export const mergeTemplates = (existing: PlanTemplate[], incoming: PlanTemplate[]) => unionById(existing, incoming);
+
+/** Categories from the file are added to the local taxonomy; local names, order and archive flags win */
+export const mergeTaxonomy = (existing: Taxonomy, incoming: Taxonomy): Taxonomy => {
+  const merged = existing.map((m) => {
+    const other = incoming.find((x) => x.name === m.name);
+    return other ? { ...m, subs: [...m.subs, ...other.subs.filter((s) => !m.subs.some((x) => x.name === s.name))] } : m;
+  });
+  return [...merged, ...incoming.filter((m) => !existing.some((x) => x.name === m.name))];
+};
+
+/** Rules the file adds go after the local ones, so local priorities stay as they are */
+export const mergeRules = (existing: CategoryRule[], incoming: CategoryRule[]) => unionById(existing, incoming);
+
+/** Reminder templates merge like plan templates; a same-id template takes the file's wording */
+export const mergeReminderTemplates = (existing: ReminderTemplate[], incoming: ReminderTemplate[]) => unionById(existing, incoming);
+
+/** Outbox messages merge by id; a same-id message takes the file's status */
+export const mergeOutbox = (existing: OutboxMessage[], incoming: OutboxMessage[]) => unionById(existing, incoming);
+
+/**
+ * Local branding wins once it has been filled in; invoice numbering always continues
+ * from the higher counter so numbers are never issued twice.
+ */
+export const mergeDocumentSettings = (existing: DocumentSettings, incoming?: DocumentSettings): DocumentSettings => {
+  if (!incoming) return existing;
+  const base = existing.agencyName ? existing : incoming;
+  return { ...base, nextInvoiceNumber: Math.max(existing.nextInvoiceNumber, incoming.nextInvoiceNumber) };
+};
+
+/** The local time zone and fiscal year stay; months the file has closed are closed here too */
+export const mergeCalendar = (existing: CalendarSettings, incoming?: CalendarSettings): CalendarSettings =>
+  incoming ? { ...existing, locks: unionById(existing.locks, incoming.locks).sort((a, b) => a.month.localeCompare(b.month)) } : existing;
+
+/** Lifecycle stages the file knows about are added after the local ones; same-id stages take the file's name */
+export const mergeStages = (existing: LifecycleStage[], incoming: LifecycleStage[]) => unionById(existing, incoming);
+
+/**
+ * Combine imported cases with the loaded ones. New cases are added; a case whose
+ * id already exists is either replaced wholesale or merged record-by-record.
+ */
+export const applyImport = (existing: Case[], incoming: Case[], mode: CollisionMode): Case[] => {
+  const byId = new Map(incoming.map((c) => [c.id, c]));
+  const updated = existing.map((c) => {
+    const next = byId.get(c.id);
+    if (!next) return c;
+    byId.delete(c.id);
+    if (mode === "replace") return next;
+    return {
+      ...c,
+      ...next,
+      accounts: unionById(c.accounts, next.accounts),
+      expenses: unionById(c.expenses, next.expenses),
+      payments: unionById(c.payments, next.payments),
+      transfers: unionById(c.transfers, next.transfers),
+      history: unionById(c.history, next.history).sort((a, b) => a.at.localeCompare(b.at)),
+      plannedExpenses: unionById(c.plannedExpenses, next.plannedExpenses),
+      reminderLog: unionById(c.reminderLog, next.reminderLog).sort((a, b) => a.at.localeCompare(b.at)),
+      reminderSchedules: unionById(c.reminderSchedules, next.reminderSchedules),
+      donorPayables: unionById(c.donorPayables, next.donorPayables),
+      reconciliations: unionById(c.reconciliations, next.reconciliations),
+    };
+  });
+  return [...byId.values(), ...updated];
+};
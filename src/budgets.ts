@@ -0,0 +1,64 @@
+import { currency, type Converter } from "./ledger";
+import type { Case, Expense } from "./model";
+import type { CategoryGroups } from "./taxonomy";
+
+/* =========================
+   Category budgets
+   ========================= */
+// Budgets are kept per case in the reporting currency, keyed "Main" or "Main › Sub".
+// A main category without its own budget rolls up the budgets of its subcategories.
+
+export const budgetKey = (main: string, sub?: string) => (sub ? `${main} › ${sub}` : main);
+
+export type VarianceLine = {
+  key: string;
+  budget: number;
+  spent: number;
+  /** negative once over budget */
+  remaining: number;
+  over: boolean;
+  /** main categories only: budget is the sum of the subcategory budgets */
+  rolledUp?: boolean;
+};
+export type VarianceGroup = VarianceLine & { main: string; subs: (VarianceLine & { sub: string })[] };
+
+const line = (key: string, budget: number, spent: number): VarianceLine => ({
+  key,
+  budget,
+  spent,
+  remaining: budget - spent,
+  over: budget > 0 && spent - budget > 0.005,
+});
+
+/** Spent vs. budget for every category in taxonomy order, plus any others the case has used */
+export const categoryVariance = (c: Case, fx: Converter, groups: CategoryGroups): VarianceGroup[] => {
+  const spent: Record<string, number> = {};
+  const add = (key: string, n: number) => (spent[key] = (spent[key] || 0) + n);
+  c.expenses.forEach((e) => {
+    add(budgetKey(e.category), fx.expense(e));
+    if (e.subCategory) add(budgetKey(e.category, e.subCategory), fx.expense(e));
+  });
+
+  const mains = [...new Set([...Object.keys(groups), ...c.expenses.map((e) => e.category)])];
+  return mains.map((main) => {
+    const used = c.expenses.filter((e) => e.category === main && e.subCategory).map((e) => e.subCategory!);
+    const subs = [...new Set([...(groups[main] || []), ...used])].map((sub) => {
+      const key = budgetKey(main, sub);
+      return { ...line(key, c.categoryBudgets[key] || 0, spent[key] || 0), sub };
+    });
+    const own = c.categoryBudgets[main];
+    const budget = own ?? subs.reduce((s, l) => s + l.budget, 0);
+    return { ...line(main, budget, spent[main] || 0), main, rolledUp: own === undefined, subs };
+  });
+};
+
+/** The budgets a new expense would push over, as readable warnings */
+export const budgetWarnings = (c: Case, fx: Converter, groups: CategoryGroups, e: Omit<Expense, "id">): string[] => {
+  const amount = fx.toReporting(e.amount, e.currency, e.date);
+  const group = categoryVariance(c, fx, groups).find((g) => g.main === e.category);
+  if (!group || !(amount > 0)) return [];
+  const sub = e.subCategory ? group.subs.find((s) => s.sub === e.subCategory) : undefined;
+  return ([sub, group] as (VarianceLine | undefined)[])
+    .filter((l): l is VarianceLine => !!l && l.budget > 0 && l.spent + amount - l.budget > 0.005)
+    .map((l) => `${l.key} would be ${currency(l.spent + amount - l.budget, c.reportingCurrency)} over its ${currency(l.budget, c.reportingCurrency)} budget`);
+};
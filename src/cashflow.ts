@@ -0,0 +1,116 @@
+import { addDays, addMonths, daysBetween, todayISO } from "./dates";
+import { allocatedByInvoice, balancesByAccount, invoiceState, isReceipt, type Converter } from "./ledger";
+import type { Case } from "./model";
+import { caseStatuses } from "./status";
+
+/* =========================
+   Receivables aging
+   ========================= */
+export const AGING_BUCKETS = ["current", "1–30", "31–60", "61–90", "90+"] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+export type Aging = Record<AgingBucket, number> & { total: number };
+
+export const agingBucket = (daysLate: number): AgingBucket =>
+  daysLate <= 0 ? "current" : daysLate <= 30 ? "1–30" : daysLate <= 60 ? "31–60" : daysLate <= 90 ? "61–90" : "90+";
+
+export const emptyAging = (): Aging => ({ current: 0, "1–30": 0, "31–60": 0, "61–90": 0, "90+": 0, total: 0 });
+
+/** What is still owed on a case's invoices, by days past due, in the converter's currency */
+export const caseAging = (c: Case, fx: Converter, today = todayISO()): Aging => {
+  const allocated = allocatedByInvoice(c);
+  const aging = emptyAging();
+  c.payments
+    .filter((p) => !isReceipt(p))
+    .forEach((p) => {
+      const remaining = invoiceState(p, allocated[p.id]).remaining;
+      if (remaining <= 0) return;
+      const amount = fx.payment(p, remaining);
+      aging[agingBucket(daysBetween(p.dueDate, today))] += amount;
+      aging.total += amount;
+    });
+  return aging;
+};
+
+export const addAging = (a: Aging, b: Aging): Aging => {
+  const sum = emptyAging();
+  AGING_BUCKETS.forEach((k) => (sum[k] = a[k] + b[k]));
+  sum.total = a.total + b.total;
+  return sum;
+};
+
+/* =========================
+   Cash-flow forecast
+   ========================= */
+/** A cost the case expects to pay, once or on a schedule, that isn't an expense yet */
+export type PlannedExpense = {
+  id: string;
+  description: string;
+  amount: number;
+  /** the case's reporting currency when unset */
+  currency?: string;
+  accountId: string;
+  /** first (or only) date it is paid */
+  date: string;
+  repeat: "once" | "weekly" | "monthly";
+  /** last date a repeating cost can fall on */
+  until?: string;
+};
+
+/** Dates a planned expense falls on between two dates, inclusive */
+export const occurrences = (pe: PlannedExpense, from: string, to: string) => {
+  const dates: string[] = [];
+  const end = pe.until && pe.until < to ? pe.until : to;
+  for (let i = 0, d = pe.date; d <= end; i++) {
+    if (d >= from) dates.push(d);
+    if (pe.repeat === "once") break;
+    d = pe.repeat === "weekly" ? addDays(pe.date, 7 * (i + 1)) : addMonths(pe.date, i + 1);
+  }
+  return dates;
+};
+
+export type ForecastWeek = {
+  start: string;
+  inflow: number;
+  outflow: number;
+  /** closing balance of each account at the end of the week */
+  balances: Record<string, number>;
+};
+
+/**
+ * Week-by-week projection from today's account balances: unpaid invoices come in on
+ * their due date (past-due ones in the first week; missed ones not at all) and planned
+ * expenses go out. Also returns the first week each account is projected below zero.
+ */
+export const cashFlowForecast = (c: Case, fx: Converter, weeks = 12, today = todayISO()) => {
+  const allocated = allocatedByInvoice(c);
+  const statuses = caseStatuses(c, today);
+  const horizon = addDays(today, weeks * 7 - 1);
+  const moves = [
+    ...c.payments
+      .filter((p) => !isReceipt(p) && statuses[p.id].stage !== "missed")
+      .map((p) => ({ p, remaining: invoiceState(p, allocated[p.id]).remaining }))
+      .filter(({ remaining }) => remaining > 0)
+      .map(({ p, remaining }) => ({ date: p.dueDate < today ? today : p.dueDate, accountId: p.accountId, amount: fx.payment(p, remaining) })),
+    ...c.plannedExpenses.flatMap((pe) =>
+      occurrences(pe, today, horizon).map((date) => ({ date, accountId: pe.accountId, amount: -fx.toReporting(pe.amount, pe.currency, date) }))),
+  ];
+
+  const running = { ...balancesByAccount(c, fx) };
+  const firstNegative: Record<string, string> = {};
+  const result: ForecastWeek[] = Array.from({ length: weeks }, (_, i) => {
+    const start = addDays(today, i * 7);
+    const end = addDays(start, 6);
+    const inWeek = moves.filter((m) => m.date >= start && m.date <= end);
+    inWeek.forEach((m) => (running[m.accountId] = (running[m.accountId] || 0) + m.amount));
+    Object.entries(running).forEach(([id, balance]) => {
+      if (balance < -0.005 && !firstNegative[id]) firstNegative[id] = start;
+    });
+    return {
+      start,
+      inflow: inWeek.filter((m) => m.amount > 0).reduce((s, m) => s + m.amount, 0),
+      outflow: -inWeek.filter((m) => m.amount < 0).reduce((s, m) => s + m.amount, 0),
+      balances: { ...running },
+    };
+  });
+  return { weeks: result, firstNegative };
+};
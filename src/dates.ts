@@ -0,0 +1,62 @@
+/* =========================
+   Date helpers
+   ========================= */
+// Records carry plain calendar dates ("2026-03-31"). "Today" is the date in the business
+// time zone, not UTC, so due dates and month totals turn over at local midnight; date
+// arithmetic works on calendar days and never depends on the machine's own zone.
+
+const DAY = 1000 * 60 * 60 * 24;
+
+/** The zone this machine runs in, e.g. "America/Chicago" */
+export const systemTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** true for names Intl knows, e.g. "Europe/Berlin" or "UTC" */
+export const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return !!zone;
+  } catch {
+    return false;
+  }
+};
+
+let businessTimeZone = systemTimeZone();
+
+/** Set the zone `todayISO` reads the date in; unknown names leave it as it was */
+export const setBusinessTimeZone = (zone: string) => {
+  if (isTimeZone(zone)) businessTimeZone = zone;
+};
+
+/** Calendar date of an instant in a time zone */
+export const dateIn = (instant: Date, zone = businessTimeZone) => {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone: zone, year: "numeric", month: "2-digit", day: "2-digit" }).formatToParts(instant);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return `${part("year")}-${part("month")}-${part("day")}`;
+};
+
+export const todayISO = (zone = businessTimeZone) => dateIn(new Date(), zone);
+
+/** Days since 1970-01-01 for a calendar date */
+const dayNumber = (iso: string) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / DAY;
+};
+const fromDayNumber = (n: number) => new Date(n * DAY).toISOString().slice(0, 10);
+
+export const daysBetween = (a: string, b: string) => dayNumber(b) - dayNumber(a);
+/** ISO date `n` days after (or before, when negative) `iso` */
+export const addDays = (iso: string, n: number) => fromDayNumber(dayNumber(iso) + n);
+
+/** Same day `n` months on, clamped to the end of shorter months */
+export const addMonths = (iso: string, n: number) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  const last = new Date(Date.UTC(y, m - 1 + n + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + n, Math.min(d, last))).toISOString().slice(0, 10);
+};
+
+/** Last day of the month `iso` falls in */
+export const monthEnd = (iso: string) => addDays(addMonths(`${iso.slice(0, 7)}-01`, 1), -1);
+
+/** "March 2026" for "2026-03" or any date in it */
+export const monthName = (iso: string) =>
+  new Date(`${iso.slice(0, 7)}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
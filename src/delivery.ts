@@ -0,0 +1,45 @@
+import { downloadFile } from "./backup";
+import { emlFile, type DeliverySettings, type OutboxMessage } from "./outbox";
+
+/* =========================
+   Transports
+   ========================= */
+// Kept apart from the outbox: saving a message as a file needs the browser.
+export type Transport = { send: (m: OutboxMessage, from: string) => Promise<void> };
+
+export const fileTransport: Transport = {
+  send: async (m, from) => downloadFile(`${m.id}.eml`, emlFile(m, from), "message/rfc822"),
+};
+
+/** The sync server's /api/mail takes { from, to, subject, text } and answers 2xx once the mail server accepted it */
+export const smtpRelayTransport = (relayUrl: string, token?: string): Transport => ({
+  send: async (m, from) => {
+    const res = await fetch(relayUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ from, to: m.to, subject: m.subject, text: m.body }),
+    });
+    if (!res.ok) {
+      const reason = await res.json().then((b: { error?: string }) => b.error, () => undefined);
+      throw new Error(reason || `Relay answered ${res.status} ${res.statusText}`.trim());
+    }
+  },
+});
+
+export const transportFor = (settings: DeliverySettings): Transport => {
+  if (settings.transport === "file") return fileTransport;
+  if (!settings.relayUrl) throw new Error("No mail relay URL is set");
+  return smtpRelayTransport(settings.relayUrl, settings.relayToken);
+};
+
+/** Try one message; resolves to the message with its new status either way */
+export const deliver = async (m: OutboxMessage, settings: DeliverySettings): Promise<OutboxMessage> => {
+  const attempt = { ...m, attempts: m.attempts + 1 };
+  try {
+    if (!m.to.length) throw new Error("The case has no contact email address");
+    await transportFor(settings).send(m, settings.from);
+    return { ...attempt, status: "sent", sentAt: new Date().toISOString(), lastError: undefined };
+  } catch (err) {
+    return { ...attempt, status: "failed", lastError: (err as Error).message };
+  }
+};
@@ -0,0 +1,189 @@
+import { todayISO } from "./dates";
+import { allocatedByInvoice, currency, invoiceState, isReceipt, receivedAmount, recordCurrency, type Converter } from "./ledger";
+import type { Case, Payment } from "./model";
+
+/* =========================
+   Agency branding & numbering
+   ========================= */
+export type DocumentSettings = {
+  agencyName: string;
+  /** multi-line postal address */
+  address: string;
+  email: string;
+  phone: string;
+  /** data URL of the logo image */
+  logo?: string;
+  accentColor: string;
+  /** bank details or other instructions printed on every invoice */
+  paymentInstructions: string;
+  footer: string;
+  invoicePrefix: string;
+  /** number the next issued invoice gets */
+  nextInvoiceNumber: number;
+};
+
+export const DEFAULT_DOCUMENT_SETTINGS: DocumentSettings = {
+  agencyName: "",
+  address: "",
+  email: "",
+  phone: "",
+  accentColor: "#2563eb",
+  paymentInstructions: "",
+  footer: "",
+  invoicePrefix: "INV-",
+  nextInvoiceNumber: 1,
+};
+
+/** Escape text for HTML element content and attribute values */
+export const esc = (s: string) => s.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+
+/** "#2563eb"; anything else could break out of the printed page's stylesheet */
+export const isHexColor = (v: unknown): v is string => typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v);
+
+export const formatInvoiceNumber = (s: DocumentSettings, n = s.nextInvoiceNumber) => `${s.invoicePrefix}${String(n).padStart(4, "0")}`;
+
+export type DuplicateInvoiceNumber = { invoiceNumber: string; invoices: { c: Case; payment: Payment }[] };
+
+/** Invoice numbers given to more than one invoice, e.g. by two browsers issuing while offline */
+export const duplicateInvoiceNumbers = (cases: Case[]): DuplicateInvoiceNumber[] => {
+  const byNumber = new Map<string, { c: Case; payment: Payment }[]>();
+  cases.forEach((c) =>
+    c.payments.forEach((payment) => {
+      if (payment.invoiceNumber) byNumber.set(payment.invoiceNumber, [...(byNumber.get(payment.invoiceNumber) || []), { c, payment }]);
+    }));
+  return [...byNumber.entries()].filter(([, invoices]) => invoices.length > 1).map(([invoiceNumber, invoices]) => ({ invoiceNumber, invoices }));
+};
+
+/* =========================
+   Invoices
+   ========================= */
+export type LineItem = { description: string; amount: number };
+
+/** Line items an invoice prints when none were entered: one line for the whole amount */
+export const defaultLineItems = (c: Case, p: Payment): LineItem[] => [
+  { description: p.plan?.label || `Services for donation #${c.code || "—"}`, amount: Number(p.amount) },
+];
+
+const lineTotal = (items: LineItem[]) => items.reduce((s, l) => s + Number(l.amount), 0);
+
+const styles = (accent: string) => `
+  body { font: 13px system-ui, sans-serif; color: #111827; margin: 40px; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid ${accent}; padding-bottom: 12px; margin-bottom: 20px; }
+  .head img { max-height: 64px; max-width: 200px; }
+  .agency { text-align: right; color: #4b5563; white-space: pre-line; }
+  .agency strong { color: #111827; font-size: 15px; }
+  h1 { font-size: 22px; margin: 0 0 4px; color: ${accent}; }
+  .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; margin-bottom: 20px; }
+  .meta div span { display: block; color: #6b7280; font-size: 11px; text-transform: uppercase; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 6px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  th { font-size: 11px; text-transform: uppercase; color: #6b7280; }
+  .n { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 700; border-top: 2px solid #111827; border-bottom: none; }
+  .box { margin-top: 24px; padding: 12px; background: #f9fafb; border-left: 3px solid ${accent}; white-space: pre-line; }
+  .foot { margin-top: 32px; color: #6b7280; font-size: 11px; text-align: center; white-space: pre-line; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }`;
+
+const page = (title: string, s: DocumentSettings, body: string) => `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title><style>${styles(isHexColor(s.accentColor) ? s.accentColor : DEFAULT_DOCUMENT_SETTINGS.accentColor)}</style></head><body>
+<div class="head">
+  <div>${s.logo ? `<img src="${esc(s.logo)}" alt="">` : ""}</div>
+  <div class="agency"><strong>${esc(s.agencyName || "")}</strong>
+${esc(s.address)}${s.email ? `\n${esc(s.email)}` : ""}${s.phone ? `\n${esc(s.phone)}` : ""}</div>
+</div>
+${body}
+${s.footer ? `<div class="foot">${esc(s.footer)}</div>` : ""}
+</body></html>`;
+
+const parties = (c: Case) =>
+  `<div><span>Bill to</span>${esc(c.client || "—")}</div><div><span>Donor</span>${esc(c.donor || "—")}</div><div><span>Donation ID</span>#${esc(c.code || "—")}</div>`;
+
+/** A numbered, client-facing invoice for one expected payment, in the invoice's own currency */
+export const invoiceHtml = (c: Case, p: Payment, s: DocumentSettings) => {
+  const code = recordCurrency(c, p);
+  const money = (n: number) => currency(n, code);
+  const items = p.lineItems?.length ? p.lineItems : defaultLineItems(c, p);
+  const paid = invoiceState(p, allocatedByInvoice(c)[p.id]);
+  const rows = items.map((l) => `<tr><td>${esc(l.description)}</td><td class="n">${money(Number(l.amount))}</td></tr>`).join("");
+  const received = Number(p.amount) - paid.remaining;
+  const title = `Invoice ${p.invoiceNumber || ""}`.trim();
+  return page(title, s, `
+<h1>${esc(title)}</h1>
+<div class="meta">
+  ${parties(c)}
+  <div><span>Issued</span>${esc(p.issuedOn || todayISO())}</div>
+  <div><span>Due</span>${esc(p.dueDate)}</div>
+</div>
+<table><tr><th>Description</th><th class="n">Amount</th></tr>${rows}
+<tr class="total"><td>Total</td><td class="n">${money(lineTotal(items))}</td></tr>
+${received > 0.005 ? `<tr><td>Received</td><td class="n">−${money(received)}</td></tr><tr class="total"><td>Balance due</td><td class="n">${money(paid.remaining)}</td></tr>` : ""}
+</table>
+${s.paymentInstructions ? `<div class="box"><strong>How to pay</strong>\n${esc(s.paymentInstructions)}</div>` : ""}`);
+};
+
+/* =========================
+   Client account statements
+   ========================= */
+// The client's account with the agency: invoices are charges, money received is a
+// credit, and the balance is what the client owes (negative when in credit).
+
+export type StatementLine = { date: string; description: string; charge: number; credit: number; balance: number };
+
+export const clientStatement = (c: Case, fx: Converter, from: string, to: string) => {
+  const allocated = allocatedByInvoice(c);
+  const moves = [
+    ...c.payments
+      .filter((p) => !isReceipt(p))
+      .map((p) => ({
+        date: p.issuedOn || p.dueDate,
+        description: `${p.invoiceNumber ? `Invoice ${p.invoiceNumber}` : p.plan?.label || "Invoice"} (due ${p.dueDate})`,
+        charge: fx.payment(p),
+        credit: 0,
+      })),
+    ...c.payments
+      .map((p) => ({ p, amount: receivedAmount(p, allocated[p.id]) }))
+      .filter(({ amount }) => amount > 0)
+      .map(({ p, amount }) => ({
+        date: p.paidOn || p.dueDate,
+        description: isReceipt(p) ? "Payment received — thank you" : `Payment received for ${p.invoiceNumber || "invoice"}`,
+        charge: 0,
+        credit: fx.payment(p, amount),
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.charge - a.charge);
+
+  const before = moves.filter((m) => m.date < from);
+  const opening = before.reduce((s, m) => s + m.charge - m.credit, 0);
+  let balance = opening;
+  const lines: StatementLine[] = moves
+    .filter((m) => m.date >= from && m.date <= to)
+    .map((m) => ({ ...m, balance: (balance += m.charge - m.credit) }));
+  return {
+    from,
+    to,
+    opening,
+    lines,
+    charged: lines.reduce((s, l) => s + l.charge, 0),
+    credited: lines.reduce((s, l) => s + l.credit, 0),
+    closing: balance,
+  };
+};
+export type ClientStatement = ReturnType<typeof clientStatement>;
+
+export const statementHtml = (c: Case, st: ClientStatement, s: DocumentSettings) => {
+  const money = (n: number) => currency(n, c.reportingCurrency);
+  const rows = st.lines
+    .map((l) => `<tr><td>${esc(l.date)}</td><td>${esc(l.description)}</td><td class="n">${l.charge ? money(l.charge) : ""}</td><td class="n">${l.credit ? money(l.credit) : ""}</td><td class="n">${money(l.balance)}</td></tr>`)
+    .join("");
+  return page(`Statement ${st.from} – ${st.to}`, s, `
+<h1>Account statement</h1>
+<div class="meta">
+  ${parties(c)}
+  <div><span>Period</span>${esc(st.from)} – ${esc(st.to)}</div>
+</div>
+<table><tr><th>Date</th><th>Description</th><th class="n">Charges</th><th class="n">Payments</th><th class="n">Balance</th></tr>
+<tr><td>${esc(st.from)}</td><td>Opening balance</td><td></td><td></td><td class="n">${money(st.opening)}</td></tr>
+${rows || `<tr><td colspan="5">No activity in this period.</td></tr>`}
+<tr class="total"><td colspan="2">Closing balance${st.closing < 0 ? " (in credit)" : ""}</td><td class="n">${money(st.charged)}</td><td class="n">${money(st.credited)}</td><td class="n">${money(st.closing)}</td></tr>
+</table>
+${s.paymentInstructions && st.closing > 0.005 ? `<div class="box"><strong>How to pay</strong>\n${esc(s.paymentInstructions)}</div>` : ""}`);
+};
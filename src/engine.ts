@@ -0,0 +1,104 @@
+import { daysBetween, todayISO } from "./dates";
+import { allocatedByInvoice, invoiceState, isReceipt, receivedAmount, recordCurrency, type Converter } from "./ledger";
+import type { Case, Payment } from "./model";
+import { fiscalPeriod, periodRange, periodsBetween, type FiscalUnit } from "./periods";
+import { caseStatuses, isOutstanding, type PaymentStage } from "./status";
+
+/* =========================
+   Ledger engine
+   ========================= */
+// Figures the app shows for a case, worked out without React so the command-line tools
+// can print the same numbers. Balances and totals come from `./ledger`, category
+// suggestions from `./rules`; amounts here are in the converter's currency.
+
+/** Invoices due soon, overdue or missed invoices, and what was spent this month */
+export const caseKpis = (c: Case, fx: Converter, today = todayISO()) => {
+  const stages = Object.values(caseStatuses(c, today)).map((s) => s.stage);
+  return {
+    dueSoon: stages.filter((s) => s === "due").length,
+    overdue: stages.filter((s) => isOutstanding(s) && s !== "due").length,
+    monthSpend: c.expenses.filter((e) => e.date.slice(0, 7) === today.slice(0, 7)).reduce((s, e) => s + fx.expense(e), 0),
+  };
+};
+
+export type OverdueInvoice = {
+  payment: Payment;
+  stage: PaymentStage;
+  daysLate: number;
+  /** still owed, in the invoice's own currency */
+  remaining: number;
+  currency: string;
+  /** still owed, converted */
+  converted: number;
+};
+
+/** Overdue and missed invoices with what is still owed on them, oldest first */
+export const overdueInvoices = (c: Case, fx: Converter, today = todayISO()): OverdueInvoice[] => {
+  const statuses = caseStatuses(c, today);
+  const allocated = allocatedByInvoice(c);
+  return c.payments
+    .filter((p) => !isReceipt(p) && isOutstanding(statuses[p.id].stage) && statuses[p.id].stage !== "due")
+    .map((p) => {
+      const remaining = invoiceState(p, allocated[p.id]).remaining;
+      return { payment: p, stage: statuses[p.id].stage, daysLate: Math.max(0, daysBetween(p.dueDate, today)), remaining, currency: recordCurrency(c, p), converted: fx.payment(p, remaining) };
+    })
+    .filter((o) => o.remaining > 0.005)
+    .sort((a, b) => a.payment.dueDate.localeCompare(b.payment.dueDate));
+};
+
+export type CategorySpend = { category: string; subCategory?: string; count: number; amount: number };
+
+/** Spending per category and subcategory between two dates (inclusive), largest first */
+export const categorySpend = (c: Case, fx: Converter, from = "", to = "9999-12-31"): CategorySpend[] => {
+  const map = new Map<string, CategorySpend>();
+  c.expenses
+    .filter((e) => e.date >= from && e.date <= to)
+    .forEach((e) => {
+      const key = `${e.category}\u0000${e.subCategory || ""}`;
+      const line = map.get(key) || { category: e.category, subCategory: e.subCategory || undefined, count: 0, amount: 0 };
+      map.set(key, { ...line, count: line.count + 1, amount: line.amount + fx.expense(e) });
+    });
+  return [...map.values()].sort((a, b) => b.amount - a.amount || a.category.localeCompare(b.category));
+};
+
+export type MonthSummary = { month: string; invoiced: number; received: number; paidOut: number; net: number };
+
+/** Invoices falling due, money received and money paid out, totalled per `keyOf(date)` */
+const flowsBy = (c: Case, fx: Converter, keyOf: (date: string) => string) => {
+  const allocated = allocatedByInvoice(c);
+  const totals = new Map<string, { invoiced: number; received: number; paidOut: number }>();
+  const add = (date: string, field: "invoiced" | "received" | "paidOut", amount: number) => {
+    const key = keyOf(date);
+    const t = totals.get(key) || { invoiced: 0, received: 0, paidOut: 0 };
+    t[field] += amount;
+    totals.set(key, t);
+  };
+  c.payments.filter((p) => !isReceipt(p)).forEach((p) => add(p.dueDate, "invoiced", fx.payment(p)));
+  c.payments.forEach((p) => {
+    const amount = receivedAmount(p, allocated[p.id]);
+    if (amount > 0) add(p.paidOn || p.dueDate, "received", fx.payment(p, amount));
+  });
+  c.expenses.forEach((e) => add(e.date, "paidOut", fx.expense(e)));
+  return totals;
+};
+
+/** Per calendar month: invoices falling due, money received, money paid out */
+export const monthSummaries = (c: Case, fx: Converter): MonthSummary[] =>
+  [...flowsBy(c, fx, (d) => d.slice(0, 7)).entries()]
+    .map(([month, t]) => ({ month, ...t, net: t.received - t.paidOut }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+export type PeriodSummary = { period: string; from: string; to: string; invoiced: number; received: number; paidOut: number; net: number };
+
+/**
+ * The same figures per fiscal month or quarter, from the case's first record through the
+ * period `today` is in; quiet periods are listed too so they can be closed.
+ */
+export const periodSummaries = (c: Case, fx: Converter, fiscalYearStart: number, unit: FiscalUnit, today = todayISO()): PeriodSummary[] => {
+  const totals = flowsBy(c, fx, (d) => fiscalPeriod(d, fiscalYearStart, unit));
+  const dates = [...c.expenses.map((e) => e.date), ...c.payments.flatMap((p) => [p.dueDate, p.paidOn || p.dueDate]), today].sort();
+  return periodsBetween(dates[0], dates[dates.length - 1], fiscalYearStart, unit).map((period) => {
+    const t = totals.get(period) || { invoiced: 0, received: 0, paidOut: 0 };
+    return { period, ...periodRange(period, fiscalYearStart), ...t, net: t.received - t.paidOut };
+  });
+};
@@ -0,0 +1,91 @@
+import { same } from "./merge";
+import type { Case, Expense, Payment } from "./model";
+
+/* =========================
+   Change history
+   ========================= */
+export type RecordKind = "expense" | "payment";
+type RecordOf<K extends RecordKind> = K extends "expense" ? Expense : Payment;
+
+/** One edit or delete of an expense/payment, kept on the case for audits */
+export type ChangeEntry = {
+  id: string;
+  at: string; // ISO timestamp
+  kind: RecordKind;
+  recordId: string;
+  action: "update" | "delete";
+  before: Expense | Payment;
+  after?: Expense | Payment;
+  /** set once the change has been reverted; the entry stays in the log */
+  undoneAt?: string;
+};
+
+const listKey = { expense: "expenses", payment: "payments" } as const;
+
+export type FieldChange = { field: string; from: unknown; to: unknown };
+
+/** Fields whose value differs between two versions of a record; lists and objects compare by content */
+export const diffFields = (before: object, after?: object): FieldChange[] => {
+  const a = before as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter((k) => k !== "id" && !same(a[k], b[k]))
+    .map((field) => ({ field, from: a[field], to: b[field] }));
+};
+
+const entry = (kind: RecordKind, action: ChangeEntry["action"], before: Expense | Payment, after?: Expense | Payment): ChangeEntry => ({
+  id: `h-${Math.random().toString(36).slice(2)}`,
+  at: new Date().toISOString(),
+  kind,
+  recordId: before.id,
+  action,
+  before,
+  after,
+});
+
+/** Apply a patch to one record and log it; no-op (and no log entry) when nothing changes */
+export const updateRecord = <K extends RecordKind>(c: Case, kind: K, id: string, patch: Partial<RecordOf<K>>): Case => {
+  const list = c[listKey[kind]] as RecordOf<K>[];
+  const before = list.find((r) => r.id === id);
+  if (!before) return c;
+  const after = { ...before, ...patch };
+  if (diffFields(before, after).length === 0) return c;
+  return {
+    ...c,
+    [listKey[kind]]: list.map((r) => (r.id === id ? after : r)),
+    history: [...c.history, entry(kind, "update", before, after)],
+  };
+};
+
+export const deleteRecord = (c: Case, kind: RecordKind, id: string): Case => {
+  const list = c[listKey[kind]] as (Expense | Payment)[];
+  const before = list.find((r) => r.id === id);
+  if (!before) return c;
+  return {
+    ...c,
+    [listKey[kind]]: list.filter((r) => r.id !== id),
+    history: [...c.history, entry(kind, "delete", before)],
+  };
+};
+
+/** Newest-first changes of one record */
+export const recordHistory = (c: Case, kind: RecordKind, recordId: string) =>
+  c.history.filter((h) => h.kind === kind && h.recordId === recordId).reverse();
+
+/** The change "Undo" would revert: the newest one for the record that hasn't been undone */
+export const lastChange = (c: Case, kind: RecordKind, recordId: string) =>
+  recordHistory(c, kind, recordId).find((h) => !h.undoneAt);
+
+/** Restore the record as it was before its last change */
+export const undoLastChange = (c: Case, kind: RecordKind, recordId: string): Case => {
+  const last = lastChange(c, kind, recordId);
+  if (!last) return c;
+  const list = c[listKey[kind]] as (Expense | Payment)[];
+  const restored =
+    last.action === "delete" ? [last.before, ...list] : list.map((r) => (r.id === recordId ? last.before : r));
+  return {
+    ...c,
+    [listKey[kind]]: restored,
+    history: c.history.map((h) => (h.id === last.id ? { ...h, undoneAt: new Date().toISOString() } : h)),
+  };
+};
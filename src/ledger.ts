@@ -0,0 +1,148 @@
+import type { Allocation, Case, Expense, Payment } from "./model";
+
+/* =========================
+   Helpers
+   ========================= */
+export const currency = (n: number, code = "USD") =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency: code }).format(Number(n || 0));
+
+/* =========================
+   Currencies & exchange rates
+   ========================= */
+export const CURRENCIES = ["USD", "EUR", "GBP", "ZAR", "CAD", "AUD", "NZD", "CHF"] as const;
+
+/** 1 unit of `from` is worth `rate` units of `to` on `date` */
+export type FxRate = { id: string; date: string; from: string; to: string; rate: number };
+
+/**
+ * Rate to turn 1 `from` into `to` on a date: the latest quote on or before the
+ * date, else the earliest one after it. Inverse quotes are used when needed.
+ */
+export const findRate = (rates: FxRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+  const quotes = rates
+    .flatMap((r) =>
+      r.from === from && r.to === to ? [{ date: r.date, rate: r.rate }]
+      : r.from === to && r.to === from && r.rate ? [{ date: r.date, rate: 1 / r.rate }]
+      : [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (quotes.length === 0) return null;
+  const onOrBefore = quotes.filter((q) => q.date <= date);
+  return (onOrBefore[onOrBefore.length - 1] ?? quotes[0]).rate;
+};
+
+/** The currency a record was entered in; records without one use the case's reporting currency */
+export const recordCurrency = (c: Case, r: { currency?: string }) => r.currency || c.reportingCurrency;
+
+/**
+ * Converter into the case's reporting currency. Amounts with no known rate are
+ * counted 1:1 and their currency is collected in `missing` so the UI can warn.
+ */
+export const reportingConverter = (c: Case, rates: FxRate[]) => {
+  const missing = new Set<string>();
+  const toReporting = (amount: number, from: string | undefined, date: string) => {
+    const code = from || c.reportingCurrency;
+    const rate = findRate(rates, code, c.reportingCurrency, date);
+    if (rate === null) missing.add(code);
+    return Number(amount) * (rate ?? 1);
+  };
+  return {
+    missing,
+    toReporting,
+    expense: (e: Expense) => toReporting(e.amount, e.currency, e.date),
+    /** a payment's amount, or part of it (in the payment's own currency), in the reporting currency */
+    payment: (p: Payment, amount = p.amount) => toReporting(amount, p.currency, p.paidOn || p.dueDate),
+  };
+};
+export type Converter = ReturnType<typeof reportingConverter>;
+
+/* =========================
+   Invoices, receipts & allocations
+   ========================= */
+// Invoices are expected payments. Receipts are money that actually arrived and may be
+// allocated (in the invoice's currency) against one or more invoices; whatever is not
+// allocated is held as client credit. An invoice can also be marked completed by hand,
+// which settles whatever the receipts haven't covered.
+
+export const isReceipt = (p: Payment) => p.kind === "receipt";
+
+/** Total allocated from receipts to each invoice that still exists */
+export const allocatedByInvoice = (c: Case) => {
+  const invoices = new Set(c.payments.filter((p) => !isReceipt(p)).map((p) => p.id));
+  const map: Record<string, number> = {};
+  c.payments.filter(isReceipt).forEach((r) =>
+    (r.allocations || []).forEach((a) => {
+      if (invoices.has(a.invoiceId)) map[a.invoiceId] = (map[a.invoiceId] || 0) + Number(a.amount);
+    }));
+  return map;
+};
+
+export type InvoiceState = { allocated: number; remaining: number; settled: boolean; partial: boolean };
+
+export const invoiceState = (p: Payment, allocated = 0): InvoiceState => {
+  const remaining = p.status === "completed" ? 0 : Math.max(0, Number(p.amount) - allocated);
+  return { allocated, remaining, settled: remaining <= 0.005, partial: allocated > 0 && remaining > 0.005 };
+};
+
+/** Part of a receipt allocated to invoices that still exist */
+export const receiptAllocated = (c: Case, r: Payment) => {
+  const invoices = new Set(c.payments.filter((p) => !isReceipt(p)).map((p) => p.id));
+  return (r.allocations || []).filter((a) => invoices.has(a.invoiceId)).reduce((s, a) => s + Number(a.amount), 0);
+};
+
+/** Part of a receipt not allocated to any (still existing) invoice */
+export const receiptCredit = (c: Case, r: Payment) => Math.max(0, Number(r.amount) - receiptAllocated(c, r));
+
+/** Money that actually arrived through a payment, in its own currency */
+export const receivedAmount = (p: Payment, allocated = 0) =>
+  isReceipt(p) ? Number(p.amount) : p.status === "completed" ? Math.max(0, Number(p.amount) - allocated) : 0;
+
+/** Open invoices (same currency as the money being allocated), oldest due first */
+export const openInvoices = (c: Case, code: string) => {
+  const allocated = allocatedByInvoice(c);
+  return c.payments
+    .filter((p) => !isReceipt(p) && recordCurrency(c, p) === code)
+    .map((p) => ({ invoice: p, ...invoiceState(p, allocated[p.id]) }))
+    .filter((i) => !i.settled)
+    .sort((a, b) => a.invoice.dueDate.localeCompare(b.invoice.dueDate));
+};
+
+/** Spread an amount over invoices in order until it runs out */
+export const autoAllocate = (amount: number, invoices: { invoice: Payment; remaining: number }[]): Allocation[] => {
+  let left = Number(amount) || 0;
+  return invoices.flatMap((i) => {
+    const take = Math.min(left, i.remaining);
+    left -= take;
+    return take > 0 ? [{ invoiceId: i.invoice.id, amount: Math.round(take * 100) / 100 }] : [];
+  });
+};
+
+/* =========================
+   Balances & totals
+   ========================= */
+// Account start balances are held in the case's reporting currency.
+
+/** Start balance of each account, less expenses, plus money received, moved by transfers */
+export const balancesByAccount = (c: Case, fx: Converter) => {
+  const map: Record<string, number> = {};
+  const allocated = allocatedByInvoice(c);
+  c.accounts.forEach((a) => (map[a.id] = a.balance));
+  c.expenses.forEach((e) => (map[e.accountId] = (map[e.accountId] || 0) - fx.expense(e)));
+  c.payments.forEach((p) => (map[p.accountId] = (map[p.accountId] || 0) + fx.payment(p, receivedAmount(p, allocated[p.id]))));
+  c.transfers.forEach((t) => {
+    map[t.fromAccountId] = (map[t.fromAccountId] || 0) - Number(t.amount);
+    map[t.toAccountId] = (map[t.toAccountId] || 0) + Number(t.amount);
+  });
+  return map;
+};
+
+export const caseTotals = (c: Case, fx: Converter) => {
+  const allocated = allocatedByInvoice(c);
+  const receivedIn = c.payments.reduce((s, p) => s + fx.payment(p, receivedAmount(p, allocated[p.id])), 0);
+  const expectedIn = c.payments
+    .filter((p) => !isReceipt(p))
+    .reduce((s, p) => s + fx.payment(p, invoiceState(p, allocated[p.id]).remaining), 0);
+  const clientCredit = c.payments.filter(isReceipt).reduce((s, r) => s + fx.payment(r, receiptCredit(c, r)), 0);
+  const paidOut = c.expenses.reduce((s, e) => s + fx.expense(e), 0);
+  return { receivedIn, expectedIn, clientCredit, paidOut };
+};
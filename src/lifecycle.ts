@@ -0,0 +1,52 @@
+import { todayISO } from "./dates";
+import type { Converter } from "./ledger";
+import type { Case, Expense } from "./model";
+
+/* =========================
+   Case lifecycle
+   ========================= */
+/** One step of a donation cycle; the list order is the order a case moves through them */
+export type LifecycleStage = { id: string; name: string };
+
+export const DEFAULT_LIFECYCLE: LifecycleStage[] = [
+  { id: "matching", name: "Matching" },
+  { id: "screening", name: "Screening" },
+  { id: "legal", name: "Legal" },
+  { id: "stimulation", name: "Stimulation" },
+  { id: "retrieval", name: "Retrieval" },
+  { id: "closed", name: "Closed" },
+];
+
+/** A case's progress and budget for one stage; the budget is in the reporting currency */
+export type CaseStage = { startedOn?: string; budget?: number };
+
+/** The stage a case was in on a date: the last one, in list order, started on or before it */
+export const stageAt = (c: Case, stages: LifecycleStage[], date: string) =>
+  [...stages].reverse().find((s) => {
+    const startedOn = c.lifecycle[s.id]?.startedOn;
+    return !!startedOn && startedOn <= date;
+  });
+
+export const currentStage = (c: Case, stages: LifecycleStage[], today = todayISO()) => stageAt(c, stages, today);
+
+/** The stage an expense counts against; untagged ones fall back to their date */
+export const expenseStageId = (c: Case, stages: LifecycleStage[], e: Expense) => e.stageId || stageAt(c, stages, e.date)?.id;
+
+export type StageBudget = { stage: LifecycleStage; startedOn?: string; budget: number; actual: number; remaining: number };
+
+/** Budget vs. actual spend for every stage, plus spend that no stage claims */
+export const stageBudgets = (c: Case, stages: LifecycleStage[], fx: Converter) => {
+  const actual: Record<string, number> = {};
+  let unstaged = 0;
+  c.expenses.forEach((e) => {
+    const id = expenseStageId(c, stages, e);
+    if (id && stages.some((s) => s.id === id)) actual[id] = (actual[id] || 0) + fx.expense(e);
+    else unstaged += fx.expense(e);
+  });
+  const rows: StageBudget[] = stages.map((stage) => {
+    const budget = Number(c.lifecycle[stage.id]?.budget) || 0;
+    const spent = actual[stage.id] || 0;
+    return { stage, startedOn: c.lifecycle[stage.id]?.startedOn, budget, actual: spent, remaining: budget - spent };
+  });
+  return { rows, unstaged };
+};
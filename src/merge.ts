@@ -0,0 +1,119 @@
+/* =========================
+   Three-way merge
+   ========================= */
+// Merges two edited copies of the same data against the copy they both started from.
+// Lists of records with an `id` are matched by id and merged record by record, so two
+// people editing different fields of one expense both keep their change; everything
+// else is compared as a whole value. A field both sides changed to different values
+// is a conflict: the merge takes one side for now and reports the other.
+
+type Json = unknown;
+type Row = Record<string, Json>;
+
+/** Where a value lives: object keys, with record ids standing in for list positions */
+export type MergePath = string[];
+
+export type Conflict = {
+  path: MergePath;
+  base: Json;
+  /** `undefined` when this side deleted the record */
+  local: Json;
+  remote: Json;
+};
+
+export type MergeResult<T> = { merged: T; conflicts: Conflict[] };
+
+/** Deep equality for JSON data, ignoring key order */
+export const same = (a: Json, b: Json): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((x, i) => same(x, b[i]));
+  const ka = Object.keys(a).filter((k) => (a as Row)[k] !== undefined);
+  const kb = Object.keys(b).filter((k) => (b as Row)[k] !== undefined);
+  return ka.length === kb.length && ka.every((k) => same((a as Row)[k], (b as Row)[k]));
+};
+
+const isRow = (v: Json): v is Row => typeof v === "object" && v !== null && !Array.isArray(v);
+const isRecordList = (v: Json) => Array.isArray(v) && v.length > 0 && v.every((x) => isRow(x) && typeof x.id === "string");
+
+/** A field merges record by record when every side is a list and one of them holds records */
+const mergesById = (...values: Json[]) =>
+  values.every((v) => v === undefined || Array.isArray(v)) && values.some(isRecordList);
+
+const mergeRows = (base: Row, local: Row, remote: Row, path: MergePath, prefer: "local" | "remote", conflicts: Conflict[]): Row => {
+  const merged: Row = {};
+  for (const key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+    const value = mergeField(base[key], local[key], remote[key], [...path, key], prefer, conflicts);
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+};
+
+const mergeField = (base: Json, local: Json, remote: Json, path: MergePath, prefer: "local" | "remote", conflicts: Conflict[]): Json => {
+  if (same(local, remote)) return local;
+  if (mergesById(base, local, remote)) {
+    return mergeLists((base as Row[]) || [], (local as Row[]) || [], (remote as Row[]) || [], path, prefer, conflicts);
+  }
+  if (same(local, base)) return remote;
+  if (same(remote, base)) return local;
+  conflicts.push({ path, base, local, remote });
+  return prefer === "local" ? local : remote;
+};
+
+const mergeLists = (base: Row[], local: Row[], remote: Row[], path: MergePath, prefer: "local" | "remote", conflicts: Conflict[]): Row[] => {
+  const byId = (list: Row[]) => new Map(list.map((r) => [r.id as string, r]));
+  const [b, l, r] = [byId(base), byId(local), byId(remote)];
+  // records only this side has go first, like new records do, then the other side's order
+  const first = prefer === "local" ? local : remote;
+  const second = prefer === "local" ? remote : local;
+  const ids = [...new Set([...first.filter((x) => !b.has(x.id as string)).map((x) => x.id as string), ...second.map((x) => x.id as string), ...first.map((x) => x.id as string)])];
+  return ids.flatMap((id) => {
+    const [was, mine, theirs] = [b.get(id), l.get(id), r.get(id)];
+    const at = [...path, id];
+    if (mine && theirs) return [mergeRows(was || {}, mine, theirs, at, prefer, conflicts)];
+    const kept = mine || theirs!;
+    if (!was) return [kept]; // added on one side
+    if (same(kept, was)) return []; // deleted on the other side, unchanged here
+    // deleted on one side, edited on the other
+    conflicts.push({ path: at, base: was, local: mine, remote: theirs });
+    const pick = prefer === "local" ? mine : theirs;
+    return pick ? [pick] : [];
+  });
+};
+
+/**
+ * Merge `local` and `remote` edits of `base`. Conflicting fields take the `prefer`red
+ * side's value and are listed in `conflicts`.
+ */
+export const threeWayMerge = <T extends object>(base: T | null, local: T, remote: T, prefer: "local" | "remote" = "remote"): MergeResult<T> => {
+  const conflicts: Conflict[] = [];
+  const merged = mergeRows((base || {}) as Row, local as Row, remote as Row, [], prefer, conflicts) as T;
+  return { merged, conflicts };
+};
+
+/** Put a value at a merge path; `undefined` removes the field, or the record when the path ends at one */
+export const setAtPath = <T extends object>(data: T, path: MergePath, value: Json): T => {
+  const put = (node: Json, rest: MergePath): Json => {
+    const [head, ...tail] = rest;
+    if (Array.isArray(node)) {
+      const i = node.findIndex((x) => isRow(x) && x.id === head);
+      if (!tail.length) {
+        if (value === undefined) return node.filter((_, j) => j !== i);
+        return i < 0 ? [value, ...node] : node.map((x, j) => (j === i ? value : x));
+      }
+      return i < 0 ? node : node.map((x, j) => (j === i ? put(x, tail) : x));
+    }
+    const row = isRow(node) ? node : {};
+    if (!tail.length) {
+      const copy = { ...row, [head]: value };
+      if (value === undefined) delete copy[head];
+      return copy;
+    }
+    return { ...row, [head]: put(row[head], tail) };
+  };
+  return put(data, path) as T;
+};
+
+/** Readable form of a merge path, e.g. "cases › c-1 › expenses › e-2 › amount" */
+export const describePath = (path: MergePath) => path.join(" › ");
@@ -0,0 +1,93 @@
+import type { Attachment } from "./attachments";
+import type { PlannedExpense } from "./cashflow";
+import type { LineItem } from "./documents";
+import type { ChangeEntry } from "./history";
+import type { CaseStage } from "./lifecycle";
+import type { ReminderSchedule } from "./outbox";
+import type { DonorPayable } from "./payables";
+import type { PlanLink } from "./plans";
+import type { Reconciliation } from "./reconcile";
+import type { ReminderLogEntry } from "./reminders";
+import type { OverrideStage, StatusRules } from "./status";
+
+/* =========================
+   Domain model
+   ========================= */
+// Cases and their money records, kept out of the React app so the ledger modules and
+// the command-line tools can use them without it.
+
+export type Account = { id: string; name: string; balance: number };
+export type Expense = {
+  id: string;
+  date: string;
+  /** in `currency`, or the case's reporting currency when unset */
+  amount: number;
+  currency?: string;
+  category: string;
+  subCategory?: string;
+  accountId: string;
+  note?: string;
+  /** lifecycle stage the money was spent in */
+  stageId?: string;
+  /** receipts or invoices proving the spend */
+  attachments?: Attachment[];
+};
+export type Payment = {
+  id: string;
+  dueDate: string;
+  amount: number;
+  accountId: string;
+  /** "completed" marks an invoice settled by hand; where it stands otherwise comes from the status rules */
+  status: "upcoming" | "completed";
+  paidOn?: string;
+  /** pins an unpaid invoice to a stage the rules wouldn't give it */
+  statusOverride?: OverrideStage;
+  /** set on invoices generated from a payment plan template */
+  plan?: PlanLink;
+  /** currency of `amount`; the case's reporting currency when unset */
+  currency?: string;
+  /** receipts are money that arrived; anything else is an expected invoice */
+  kind?: "invoice" | "receipt";
+  /** receipts only: which invoices this money pays, in the invoice's currency */
+  allocations?: Allocation[];
+  /** set once an invoice document has been issued for it */
+  invoiceNumber?: string;
+  issuedOn?: string;
+  /** what the invoice document itemizes; one line for the whole amount when unset */
+  lineItems?: LineItem[];
+};
+export type Allocation = { invoiceId: string; amount: number };
+/** Money moved between two accounts of the same case, in the reporting currency */
+export type Transfer = { id: string; date: string; fromAccountId: string; toAccountId: string; amount: number; note?: string };
+export type Case = {
+  id: string;
+  code: string;
+  client: string;
+  donor: string;
+  /** totals, KPIs and account balances are shown in this currency */
+  reportingCurrency: string;
+  accounts: Account[];
+  expenses: Expense[];
+  payments: Payment[];
+  transfers: Transfer[];
+  /** edits and deletes of expenses/payments, oldest first */
+  history: ChangeEntry[];
+  statusRules: StatusRules;
+  /** day 0 of the payment plan; installments are due relative to it */
+  startDate?: string;
+  /** start date and budget per lifecycle stage id */
+  lifecycle: Record<string, CaseStage>;
+  /** spending limits in the reporting currency, keyed by `budgetKey` */
+  categoryBudgets: Record<string, number>;
+  /** costs expected ahead, for the cash-flow forecast */
+  plannedExpenses: PlannedExpense[];
+  /** reminders copied or sent, oldest first */
+  reminderLog: ReminderLogEntry[];
+  /** where emailed reminders go */
+  contactEmails: string[];
+  reminderSchedules: ReminderSchedule[];
+  /** compensation and reimbursement claims owed to the donor */
+  donorPayables: DonorPayable[];
+  /** bank statement reconciliations, in progress and locked */
+  reconciliations: Reconciliation[];
+};
@@ -0,0 +1,139 @@
+import { dateIn, daysBetween, todayISO } from "./dates";
+import type { Case, Payment } from "./model";
+import type { OverrideStage, PaymentStatus } from "./status";
+
+/* =========================
+   Outbox
+   ========================= */
+// Reminders to email go through the outbox: queued first, then handed to a transport.
+// Failed messages keep their error and can be retried up to MAX_ATTEMPTS times.
+
+export type OutboxStatus = "queued" | "sent" | "failed";
+export const MAX_ATTEMPTS = 5;
+
+export type OutboxMessage = {
+  id: string;
+  caseId: string;
+  to: string[];
+  subject: string;
+  body: string;
+  paymentIds: string[];
+  templateId: string;
+  templateName: string;
+  /** set when a recurring schedule queued it */
+  scheduleId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: string; // ISO timestamp
+  sentAt?: string;
+  lastError?: string;
+};
+
+export const queueMessage = (m: Omit<OutboxMessage, "id" | "status" | "attempts" | "createdAt">): OutboxMessage => ({
+  id: `msg-${Math.random().toString(36).slice(2)}`,
+  status: "queued",
+  attempts: 0,
+  createdAt: new Date().toISOString(),
+  ...m,
+});
+
+/** Queued messages, and failed ones that still have attempts left */
+export const canDeliver = (m: OutboxMessage) => m.status === "queued" || (m.status === "failed" && m.attempts < MAX_ATTEMPTS);
+
+export const reminderSubject = (c: Case) => `Payment reminder${c.code ? ` — donation #${c.code}` : ""}`;
+
+/** Comma, semicolon or whitespace separated list → trimmed addresses */
+export const parseEmails = (text: string) => text.split(/[\s,;]+/).filter(Boolean);
+export const isEmail = (s: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s);
+
+/* =========================
+   Delivery settings
+   ========================= */
+/**
+ * Where reminders go: "file" saves each message as an .eml file in the browser's
+ * downloads (the local outbox); "smtp" posts it to the sync server's mail relay
+ * (/api/mail), which sends it on over SMTP, since a browser can't open an SMTP
+ * connection itself. `relayToken` is the server's SYNC_TOKEN when it has one.
+ */
+export type DeliverySettings = { transport: "file" | "smtp"; from: string; relayUrl?: string; relayToken?: string };
+export const DEFAULT_DELIVERY: DeliverySettings = { transport: "file", from: "" };
+
+/** A header value on one line, so nothing typed into it can add headers of its own */
+const headerValue = (s: string) => s.replace(/[\r\n]+/g, " ").trim();
+
+/** RFC 2047 encoded words for non-ASCII text, each at most 75 characters and cut between characters */
+const encodeWords = (s: string) => {
+  if (/^[\x20-\x7e]*$/.test(s)) return s;
+  const utf8 = new TextEncoder();
+  const words: string[] = [];
+  let chunk = "";
+  for (const ch of s) {
+    if (utf8.encode(chunk + ch).length > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += ch;
+  }
+  words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${btoa(String.fromCharCode(...utf8.encode(w)))}?=`).join("\r\n ");
+};
+
+/** RFC 5322 message with a plain-text body */
+export const emlFile = (m: OutboxMessage, from: string) =>
+  [
+    `From: ${headerValue(from) || "reminders@localhost"}`,
+    `To: ${m.to.map(headerValue).join(", ")}`,
+    `Subject: ${encodeWords(headerValue(m.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${headerValue(m.id)}@donation-finance.local>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    m.body.replace(/\r?\n/g, "\r\n"),
+  ].join("\r\n");
+
+/* =========================
+   Recurring schedules
+   ========================= */
+/** "Every N days while an invoice is in one of these stages", per case */
+export type ReminderSchedule = {
+  id: string;
+  templateId: string;
+  everyDays: number;
+  stages: OverrideStage[];
+  paused?: boolean;
+};
+
+/**
+ * Date (in the business time zone) an invoice was last reminded, counting logged reminders
+ * (including ones another browser queued, once synced) and anything in this outbox for it, failed or not
+ */
+const lastReminded = (c: Case, outbox: OutboxMessage[], paymentId: string) => {
+  const at = [
+    ...c.reminderLog.filter((r) => r.paymentIds.includes(paymentId)).map((r) => r.at),
+    ...outbox.filter((m) => m.caseId === c.id && m.paymentIds.includes(paymentId)).map((m) => m.createdAt),
+  ]
+    .sort()
+    .pop();
+  return at && dateIn(new Date(at));
+};
+
+/** Invoices each active schedule wants reminded today; one message per schedule covers them all */
+export const scheduledReminders = (c: Case, outbox: OutboxMessage[], statusOf: (p: Payment) => PaymentStatus, today = todayISO()) => {
+  const claimed = new Set<string>(); // an invoice due under two schedules gets one reminder
+  return c.reminderSchedules
+    .filter((s) => !s.paused)
+    .map((schedule) => ({
+      schedule,
+      payments: c.payments.filter((p) => {
+        const stage = statusOf(p).stage;
+        if (stage === "paid" || !schedule.stages.includes(stage) || claimed.has(p.id)) return false;
+        const last = lastReminded(c, outbox, p.id);
+        if (last && daysBetween(last, today) < schedule.everyDays) return false;
+        claimed.add(p.id);
+        return true;
+      }),
+    }))
+    .filter((due) => due.payments.length > 0);
+};
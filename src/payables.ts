@@ -0,0 +1,93 @@
+import { addDays, todayISO } from "./dates";
+import type { Converter } from "./ledger";
+import type { Case, Expense } from "./model";
+import { resolveCategory, type Taxonomy } from "./taxonomy";
+
+/* =========================
+   Donor payables
+   ========================= */
+// Money the agency owes the donor, kept apart from expenses until it is paid out:
+// compensation installments are scheduled up front, reimbursement claims are submitted
+// by the donor and approved or rejected. Paying an installment or approving a claim
+// posts it as an expense against a case account.
+
+export const DONOR_COMPENSATION = "Donor Compensation";
+
+/** Where compensation is booked now, following renames and merges of the built-in category */
+export const compensationCategory = (t: Taxonomy) => resolveCategory(t, { main: DONOR_COMPENSATION });
+
+export type PayableKind = "compensation" | "reimbursement";
+export type PayableStatus = "scheduled" | "submitted" | "posted" | "rejected";
+
+export type DonorPayable = {
+  id: string;
+  kind: PayableKind;
+  description: string;
+  /** in `currency`, or the case's reporting currency when unset */
+  amount: number;
+  currency?: string;
+  category: string;
+  subCategory?: string;
+  /** when an installment falls due, or when a claim was submitted */
+  date: string;
+  status: PayableStatus;
+  /** date of the approve/reject decision or payout */
+  decidedOn?: string;
+  /** why a claim was rejected */
+  reason?: string;
+  /** the expense it was posted as */
+  expenseId?: string;
+};
+
+export const isOpen = (p: DonorPayable) => p.status === "scheduled" || p.status === "submitted";
+
+/** Compensation still to pay and claims waiting for a decision, in the reporting currency */
+export const donorOwed = (c: Case, fx: Converter) => {
+  const sum = (status: PayableStatus) =>
+    c.donorPayables.filter((p) => p.status === status).reduce((s, p) => s + fx.toReporting(p.amount, p.currency, p.date), 0);
+  const scheduled = sum("scheduled");
+  const submitted = sum("submitted");
+  return { scheduled, submitted, total: scheduled + submitted, paid: sum("posted") };
+};
+
+/** Split a compensation total into equal installments, `everyDays` apart; the last one takes the rounding */
+export const compensationSchedule = (total: number, count: number, firstDate: string, everyDays: number) => {
+  const each = Math.floor((total / count) * 100) / 100;
+  return Array.from({ length: count }, (_, i) => ({
+    date: addDays(firstDate, i * everyDays),
+    amount: i === count - 1 ? Math.round((total - each * (count - 1)) * 100) / 100 : each,
+  }));
+};
+
+/**
+ * Pay out an open payable: add it as an expense on the account and mark it posted. The
+ * category is looked up in the taxonomy, since it may have been renamed or merged since.
+ */
+export const postPayable = (c: Case, id: string, taxonomy: Taxonomy, post: { accountId: string; date?: string; stageId?: string }): Case => {
+  const p = c.donorPayables.find((x) => x.id === id);
+  if (!p || !isOpen(p)) return c;
+  const date = post.date || todayISO();
+  const { main, sub } = resolveCategory(taxonomy, { main: p.category, sub: p.subCategory });
+  const expense: Expense = {
+    id: `e-${Math.random().toString(36).slice(2)}`,
+    date,
+    amount: p.amount,
+    currency: p.currency,
+    category: main,
+    subCategory: sub,
+    accountId: post.accountId,
+    note: `${p.kind === "compensation" ? "Donor compensation" : "Donor reimbursement"}: ${p.description}`,
+    stageId: post.stageId,
+  };
+  return {
+    ...c,
+    expenses: [expense, ...c.expenses],
+    donorPayables: c.donorPayables.map((x) => (x.id === id ? { ...x, status: "posted", decidedOn: date, expenseId: expense.id } : x)),
+  };
+};
+
+export const rejectPayable = (c: Case, id: string, reason: string): Case => ({
+  ...c,
+  donorPayables: c.donorPayables.map((x) =>
+    x.id === id && x.status === "submitted" ? { ...x, status: "rejected", decidedOn: todayISO(), reason: reason || undefined } : x),
+});
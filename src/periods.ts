@@ -0,0 +1,165 @@
+import { addDays, addMonths, monthEnd, monthName, systemTimeZone } from "./dates";
+import { same } from "./merge";
+import type { FxRate } from "./ledger";
+import type { Case, Expense, Payment, Transfer } from "./model";
+import type { DonorPayable } from "./payables";
+
+/* =========================
+   Fiscal periods and month-end locks
+   ========================= */
+// A fiscal year starts on the first of a configured month and is named after the
+// calendar year it ends in, so with a July start, July 2026 – June 2027 is FY2027.
+// Period keys read "FY2027-M01" (its first month) or "FY2027-Q1". Closed months are
+// locked for the whole workspace; records dated in them stay as they are until the
+// month is reopened.
+
+export type FiscalUnit = "month" | "quarter";
+
+export type PeriodLock = {
+  /** `lock-<month>`, so two people locking the same month end up with one lock */
+  id: string;
+  /** "2026-03" */
+  month: string;
+  lockedOn: string;
+};
+
+export type CalendarSettings = {
+  /** IANA name, e.g. "America/Chicago"; decides what date "today" is */
+  timeZone: string;
+  /** month the fiscal year starts in, 1–12 */
+  fiscalYearStart: number;
+  locks: PeriodLock[];
+};
+
+export const DEFAULT_CALENDAR: CalendarSettings = { timeZone: systemTimeZone(), fiscalYearStart: 1, locks: [] };
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Fiscal year and 1-based fiscal month of a date */
+const fiscalPosition = (iso: string, start: number) => {
+  const [y, m] = iso.split("-").map(Number);
+  return { year: start === 1 || m < start ? y : y + 1, month: ((m - start + 12) % 12) + 1 };
+};
+
+/** Key of the fiscal month or quarter a date falls in */
+export const fiscalPeriod = (iso: string, start: number, unit: FiscalUnit) => {
+  const { year, month } = fiscalPosition(iso, start);
+  return unit === "month" ? `FY${year}-M${pad(month)}` : `FY${year}-Q${Math.ceil(month / 3)}`;
+};
+
+const parseKey = (key: string) => {
+  const match = /^FY(\d{4})-(M|Q)(\d{1,2})$/.exec(key);
+  if (!match) return null;
+  const [, year, unit, n] = match;
+  return { year: Number(year), unit: (unit === "M" ? "month" : "quarter") as FiscalUnit, n: Number(n) };
+};
+
+export const isPeriodKey = (key: string) => {
+  const k = parseKey(key);
+  return !!k && k.n >= 1 && k.n <= (k.unit === "month" ? 12 : 4);
+};
+
+/** First and last date of a fiscal period */
+export const periodRange = (key: string, start: number) => {
+  const k = parseKey(key);
+  if (!k) throw new Error(`Not a fiscal period: "${key}"`);
+  const firstMonth = k.unit === "month" ? k.n : (k.n - 1) * 3 + 1;
+  const yearStart = `${start === 1 ? k.year : k.year - 1}-${pad(start)}-01`;
+  const from = addMonths(yearStart, firstMonth - 1);
+  return { from, to: monthEnd(addMonths(from, k.unit === "month" ? 0 : 2)) };
+};
+
+/** Every fiscal period touching the dates from `from` to `to`, in order */
+export const periodsBetween = (from: string, to: string, start: number, unit: FiscalUnit) => {
+  const keys: string[] = [];
+  for (let d = `${from.slice(0, 7)}-01`; d <= to; d = addDays(periodRange(keys[keys.length - 1], start).to, 1)) {
+    keys.push(fiscalPeriod(d, start, unit));
+  }
+  return keys;
+};
+
+const shortMonth = (iso: string) =>
+  new Date(`${iso.slice(0, 7)}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" });
+
+/** "March 2026", "Q1 2026", or with a non-January year "FY2027 Q1 (Jul 2026 – Sep 2026)" */
+export const periodTitle = (key: string, start: number) => {
+  const k = parseKey(key);
+  if (!k) return key;
+  const { from, to } = periodRange(key, start);
+  if (k.unit === "month") return start === 1 ? monthName(from) : `${monthName(from)} (FY${k.year} M${pad(k.n)})`;
+  return start === 1 ? `Q${k.n} ${k.year}` : `FY${k.year} Q${k.n} (${shortMonth(from)} – ${shortMonth(to)})`;
+};
+
+/** Every month from `from` to `to`, as "2026-03" */
+export const monthsIn = (from: string, to: string) => {
+  const months: string[] = [];
+  for (let d = `${from.slice(0, 7)}-01`; d <= to; d = addMonths(d, 1)) months.push(d.slice(0, 7));
+  return months;
+};
+
+/* ===== locks ===== */
+/** The lock covering a date, if its month is closed */
+export const lockFor = (cal: CalendarSettings, iso: string | undefined) =>
+  iso ? cal.locks.find((l) => l.month === iso.slice(0, 7)) : undefined;
+
+export const lockMonth = (cal: CalendarSettings, month: string, today: string): CalendarSettings =>
+  lockFor(cal, month) ? cal : { ...cal, locks: [...cal.locks, { id: `lock-${month}`, month, lockedOn: today }].sort((a, b) => a.month.localeCompare(b.month)) };
+
+export const reopenMonth = (cal: CalendarSettings, month: string): CalendarSettings => ({ ...cal, locks: cal.locks.filter((l) => l.month !== month) });
+
+/** Anything the books date: expenses, payments, transfers, donor payables and FX rates */
+export type DatedRecord = Partial<Expense> | Partial<Payment> | Partial<Transfer> | Partial<DonorPayable> | Partial<FxRate>;
+
+/**
+ * Dates that place a record in a period: an expense's, transfer's or rate's date, an invoice's
+ * due date and the day it was paid, a payable's date and the day it was decided
+ */
+export const recordDates = (r: DatedRecord) =>
+  [(r as Partial<Expense>).date, (r as Partial<Payment>).dueDate, (r as Partial<Payment>).paidOn, (r as Partial<DonorPayable>).decidedOn].filter((d): d is string => !!d);
+
+/** The first lock a change touches: the record as it was, or as it would be */
+export const lockedChange = (cal: CalendarSettings, ...records: (DatedRecord | undefined)[]) =>
+  records.flatMap((r) => (r ? recordDates(r) : [])).map((d) => lockFor(cal, d)).find((l) => !!l);
+
+/** Attaching or removing a receipt file doesn't change the books, so it is allowed in a closed month */
+const booked = (r: DatedRecord | undefined) => r && { ...r, attachments: undefined };
+
+/** Records added, removed or changed between two copies of a list, each as it was and as it is */
+const changedRecords = <T extends DatedRecord & { id: string }>(was: T[], now: T[]) => {
+  const old = new Map(was.map((r) => [r.id, r]));
+  const next = new Map(now.map((r) => [r.id, r]));
+  return [...new Set([...old.keys(), ...next.keys()])].flatMap((id) => {
+    const [a, b] = [old.get(id), next.get(id)];
+    return a === b || same(booked(a), booked(b)) ? [] : [a, b];
+  });
+};
+
+/** The first lock an edit to a case touches: an expense, payment, transfer or donor payable added, removed or changed in a closed month */
+export const lockedCaseChange = (cal: CalendarSettings, before: Case, after: Case) => {
+  if (!cal.locks.length) return undefined;
+  return lockedChange(
+    cal,
+    ...changedRecords(before.expenses, after.expenses),
+    ...changedRecords(before.payments, after.payments),
+    ...changedRecords(before.transfers, after.transfers),
+    ...changedRecords(before.donorPayables, after.donorPayables),
+  );
+};
+
+/** The first lock an edit to the FX rates touches: a rate added, removed or changed in a closed month */
+export const lockedRatesChange = (cal: CalendarSettings, before: FxRate[], after: FxRate[]) =>
+  cal.locks.length ? lockedChange(cal, ...changedRecords(before, after)) : undefined;
+
+/** The first lock an edit across cases touches; a case added or deleted counts as all of its records */
+export const lockedCasesChange = (cal: CalendarSettings, before: Case[], after: Case[]) => {
+  if (!cal.locks.length) return undefined;
+  const was = new Map(before.map((c) => [c.id, c]));
+  const now = new Map(after.map((c) => [c.id, c]));
+  const empty = (c: Case): Case => ({ ...c, expenses: [], payments: [], transfers: [], donorPayables: [] });
+  return [...new Set([...was.keys(), ...now.keys()])]
+    .map((id) => {
+      const [a, b] = [was.get(id), now.get(id)];
+      return lockedCaseChange(cal, a ?? empty(b!), b ?? empty(a!));
+    })
+    .find((l) => !!l);
+};
@@ -0,0 +1,87 @@
+import { addDays } from "./dates";
+import { allocatedByInvoice, invoiceState } from "./ledger";
+import { deleteRecord, updateRecord } from "./history";
+import type { Case, Payment } from "./model";
+
+/* =========================
+   Payment plan templates
+   ========================= */
+export type PlanInstallment = {
+  label: string;
+  /** "percent" installments are a share of the plan total given when the plan is applied */
+  unit: "amount" | "percent";
+  value: number;
+  /** days after the case start date */
+  offsetDays: number;
+};
+export type PlanTemplate = { id: string; name: string; installments: PlanInstallment[] };
+
+/** Which template step an invoice was generated from */
+export type PlanLink = { templateId: string; step: number; label: string; offsetDays: number };
+
+export const DEFAULT_PLAN_TEMPLATES: PlanTemplate[] = [
+  {
+    id: "plan-standard",
+    name: "Standard donor cycle",
+    installments: [
+      { label: "Matching fee", unit: "percent", value: 10, offsetDays: 0 },
+      { label: "Screening deposit", unit: "percent", value: 20, offsetDays: 14 },
+      { label: "Stimulation start", unit: "percent", value: 30, offsetDays: 45 },
+      { label: "Retrieval", unit: "percent", value: 40, offsetDays: 60 },
+    ],
+  },
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const usesPercent = (t: PlanTemplate) => t.installments.some((i) => i.unit === "percent");
+
+/** Due dates and amounts a template gives for a start date and plan total */
+export const planSchedule = (t: PlanTemplate, startDate: string, total: number) =>
+  t.installments.map((i, step) => ({
+    step,
+    label: i.label,
+    offsetDays: i.offsetDays,
+    dueDate: addDays(startDate, i.offsetDays),
+    amount: round2(i.unit === "percent" ? (total * i.value) / 100 : i.value),
+  }));
+
+/** An installment that has money against it, was settled by hand or was issued as an invoice is never moved or replaced */
+const untouched = (p: Payment, allocated: Record<string, number>) =>
+  !(allocated[p.id] > 0) && !invoiceState(p, allocated[p.id]).settled && !p.invoiceNumber;
+
+/**
+ * Generate a case's invoice schedule from a template. Re-applying the same template
+ * replaces its untouched installments, each removal going to the change log, and keeps the rest.
+ */
+export const applyPlan = (
+  c: Case,
+  t: PlanTemplate,
+  opts: { startDate: string; total: number; currency: string; accountId: string },
+): Case => {
+  const allocated = allocatedByInvoice(c);
+  const fromPlan = (p: Payment) => p.plan?.templateId === t.id;
+  const cleared = c.payments.filter((p) => fromPlan(p) && untouched(p, allocated)).reduce((next, p) => deleteRecord(next, "payment", p.id), c);
+  const kept = cleared.payments;
+  const keptSteps = new Set(kept.filter(fromPlan).map((p) => p.plan!.step));
+  const generated: Payment[] = planSchedule(t, opts.startDate, opts.total)
+    .filter((s) => !keptSteps.has(s.step) && s.amount > 0)
+    .map((s) => ({
+      id: `p-${Math.random().toString(36).slice(2)}`,
+      status: "upcoming",
+      dueDate: s.dueDate,
+      amount: s.amount,
+      currency: opts.currency,
+      accountId: opts.accountId,
+      plan: { templateId: t.id, step: s.step, label: s.label, offsetDays: s.offsetDays },
+    }));
+  return { ...cleared, startDate: opts.startDate, payments: [...generated, ...kept] };
+};
+
+/** Move a case's start date; unpaid installments follow it, each edit going to the change log */
+export const shiftPlanDates = (c: Case, startDate: string): Case => {
+  const allocated = allocatedByInvoice(c);
+  return c.payments
+    .filter((p) => p.plan && untouched(p, allocated))
+    .reduce<Case>((next, p) => updateRecord(next, "payment", p.id, { dueDate: addDays(startDate, p.plan!.offsetDays) }), { ...c, startDate });
+};
@@ -0,0 +1,98 @@
+import { addAging, caseAging, emptyAging, type Aging } from "./cashflow";
+import { todayISO } from "./dates";
+import { balancesByAccount, caseTotals, reportingConverter, type FxRate } from "./ledger";
+import { currentStage, type LifecycleStage } from "./lifecycle";
+import type { Case } from "./model";
+import { caseStatuses, isOutstanding } from "./status";
+
+/* =========================
+   Portfolio
+   ========================= */
+// Figures across every case, converted record by record into one portfolio currency
+// so cases kept in different reporting currencies can be added up and sorted.
+
+export type CaseSummary = {
+  c: Case;
+  stage?: string;
+  receivedIn: number;
+  expectedIn: number;
+  paidOut: number;
+  /** received minus paid out */
+  net: number;
+  /** sum of the case's account balances */
+  balance: number;
+  negativeBalance: boolean;
+  due: number;
+  /** overdue or missed invoices */
+  overdue: number;
+  /** unpaid invoice amounts by days past due */
+  aging: Aging;
+  missing: Set<string>;
+};
+
+export const summarizeCase = (c: Case, rates: FxRate[], stages: LifecycleStage[], code: string, today = todayISO()): CaseSummary => {
+  const fx = reportingConverter({ ...c, reportingCurrency: code }, rates);
+  const totals = caseTotals(c, fx);
+  const balances = Object.values(balancesByAccount(c, fx));
+  const stageOf = Object.values(caseStatuses(c, today)).map((s) => s.stage);
+  return {
+    c,
+    stage: currentStage(c, stages, today)?.name,
+    receivedIn: totals.receivedIn,
+    expectedIn: totals.expectedIn,
+    paidOut: totals.paidOut,
+    net: totals.receivedIn - totals.paidOut,
+    balance: balances.reduce((s, b) => s + b, 0),
+    negativeBalance: balances.some((b) => b < -0.005),
+    due: stageOf.filter((s) => s === "due").length,
+    overdue: stageOf.filter((s) => isOutstanding(s) && s !== "due").length,
+    aging: caseAging(c, fx, today),
+    missing: fx.missing,
+  };
+};
+
+export const portfolioTotals = (rows: CaseSummary[]) => ({
+  cases: rows.length,
+  receivedIn: rows.reduce((s, r) => s + r.receivedIn, 0),
+  expectedIn: rows.reduce((s, r) => s + r.expectedIn, 0),
+  paidOut: rows.reduce((s, r) => s + r.paidOut, 0),
+  due: rows.reduce((s, r) => s + r.due, 0),
+  overdue: rows.reduce((s, r) => s + r.overdue, 0),
+  withOverdue: rows.filter((r) => r.overdue > 0).length,
+  aging: rows.reduce((sum, r) => addAging(sum, r.aging), emptyAging()),
+});
+
+/* =========================
+   Search, filters & sorting
+   ========================= */
+export type CaseFilter = "all" | "overdue" | "negative" | "open";
+export const CASE_FILTERS: { id: CaseFilter; label: string }[] = [
+  { id: "all", label: "All cases" },
+  { id: "overdue", label: "Has overdue invoices" },
+  { id: "negative", label: "Negative balance" },
+  { id: "open", label: "Money still expected" },
+];
+
+/** Case-insensitive match on client, donor or Donation ID */
+export const matchesSearch = (c: Case, query: string) => {
+  const q = query.trim().toLowerCase();
+  return !q || [c.client, c.donor, c.code].some((v) => (v || "").toLowerCase().includes(q));
+};
+
+export const matchesFilter = (s: CaseSummary, filter: CaseFilter) =>
+  filter === "overdue" ? s.overdue > 0
+  : filter === "negative" ? s.negativeBalance
+  : filter === "open" ? s.expectedIn > 0.005
+  : true;
+
+export type SortKey = "client" | "stage" | "receivedIn" | "expectedIn" | "paidOut" | "net" | "balance" | "overdue";
+
+export const sortSummaries = (rows: CaseSummary[], key: SortKey, descending: boolean) => {
+  const value = (r: CaseSummary) => (key === "client" ? r.c.client.toLowerCase() : key === "stage" ? r.stage || "" : r[key]);
+  const sorted = [...rows].sort((a, b) => {
+    const x = value(a);
+    const y = value(b);
+    return typeof x === "string" ? x.localeCompare(y as string) : x - (y as number);
+  });
+  return descending ? sorted.reverse() : sorted;
+};
@@ -0,0 +1,137 @@
+import { todayISO } from "./dates";
+import { esc } from "./documents";
+import { allocatedByInvoice, currency, receivedAmount, type Converter } from "./ledger";
+import type { Case, Expense, Payment } from "./model";
+
+/* =========================
+   Account reconciliation
+   ========================= */
+// Matching an account against a bank statement: starting from the balance the last
+// locked reconciliation ended on, the transactions ticked as cleared must add up to
+// the statement's ending balance. Once they do, the reconciliation is locked and kept
+// as a dated report; what it cleared stays cleared.
+
+/** One expense, received payment or transfer leg on an account, signed, in the reporting currency */
+export type AccountLine = { id: string; kind: "expense" | "payment" | "transfer"; date: string; description: string; amount: number };
+
+export type Reconciliation = {
+  id: string;
+  accountId: string;
+  statementDate: string;
+  /** ending balance printed on the statement, in the reporting currency */
+  statementBalance: number;
+  /** balance the previous locked reconciliation ended on, or the account's start balance */
+  opening: number;
+  /** ids of the expenses, payments and transfers ticked as cleared */
+  cleared: string[];
+  lockedOn?: string;
+  /** the cleared lines as they were when locked, so the report reads the same after later edits */
+  lines?: AccountLine[];
+};
+
+export const accountLines = (c: Case, fx: Converter, accountId: string): AccountLine[] => {
+  const allocated = allocatedByInvoice(c);
+  const name = (id: string) => c.accounts.find((a) => a.id === id)?.name || id;
+  return [
+    ...c.expenses
+      .filter((e) => e.accountId === accountId)
+      .map((e) => ({ id: e.id, kind: "expense" as const, date: e.date, description: e.note || e.category, amount: -fx.expense(e) })),
+    ...c.payments
+      .filter((p) => p.accountId === accountId && receivedAmount(p, allocated[p.id]) > 0)
+      .map((p) => ({ id: p.id, kind: "payment" as const, date: p.paidOn || p.dueDate, description: p.invoiceNumber ? `Client payment ${p.invoiceNumber}` : "Client payment", amount: fx.payment(p, receivedAmount(p, allocated[p.id])) })),
+    ...c.transfers.flatMap((t) => [
+      ...(t.fromAccountId === accountId ? [{ id: t.id, kind: "transfer" as const, date: t.date, description: `Transfer to ${name(t.toAccountId)}`, amount: -Number(t.amount) }] : []),
+      ...(t.toAccountId === accountId ? [{ id: t.id, kind: "transfer" as const, date: t.date, description: `Transfer from ${name(t.fromAccountId)}`, amount: Number(t.amount) }] : []),
+    ]),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const locked = (c: Case, accountId: string) =>
+  c.reconciliations.filter((r) => r.accountId === accountId && r.lockedOn).sort((a, b) => a.statementDate.localeCompare(b.statementDate));
+
+/** The reconciliation in progress on an account, if any */
+export const openReconciliation = (c: Case, accountId: string) => c.reconciliations.find((r) => r.accountId === accountId && !r.lockedOn);
+
+/** The locked reconciliation a transaction was cleared in, if any */
+export const clearedIn = (c: Case, recordId: string) => c.reconciliations.find((r) => r.lockedOn && r.cleared.includes(recordId));
+
+export const startReconciliation = (c: Case, accountId: string, statementDate: string, statementBalance: number): Case => {
+  if (openReconciliation(c, accountId)) return c;
+  const previous = locked(c, accountId).pop();
+  const opening = previous ? previous.statementBalance : Number(c.accounts.find((a) => a.id === accountId)?.balance) || 0;
+  const r: Reconciliation = { id: `rec-${Math.random().toString(36).slice(2)}`, accountId, statementDate, statementBalance, opening, cleared: [] };
+  return { ...c, reconciliations: [...c.reconciliations, r] };
+};
+
+/** Lines that can be ticked: up to the statement date and not cleared by an earlier reconciliation */
+export const reconcileState = (c: Case, fx: Converter, r: Reconciliation) => {
+  const done = new Set(locked(c, r.accountId).flatMap((x) => x.cleared));
+  const lines = accountLines(c, fx, r.accountId).filter((l) => l.date <= r.statementDate && !done.has(l.id));
+  const clearedBalance = r.opening + lines.filter((l) => r.cleared.includes(l.id)).reduce((s, l) => s + l.amount, 0);
+  const difference = r.statementBalance - clearedBalance;
+  return { lines, clearedBalance, difference, balanced: Math.abs(difference) < 0.005 };
+};
+
+export const updateReconciliation = (c: Case, id: string, patch: Partial<Pick<Reconciliation, "statementDate" | "statementBalance" | "cleared">>): Case => ({
+  ...c,
+  reconciliations: c.reconciliations.map((r) => (r.id === id && !r.lockedOn ? { ...r, ...patch } : r)),
+});
+
+export const toggleCleared = (c: Case, id: string, recordId: string): Case => {
+  const r = c.reconciliations.find((x) => x.id === id);
+  if (!r) return c;
+  return updateReconciliation(c, id, { cleared: r.cleared.includes(recordId) ? r.cleared.filter((x) => x !== recordId) : [...r.cleared, recordId] });
+};
+
+/** Lock a balanced reconciliation; does nothing while there is still a difference */
+export const lockReconciliation = (c: Case, fx: Converter, id: string): Case => {
+  const r = c.reconciliations.find((x) => x.id === id);
+  if (!r || r.lockedOn) return c;
+  const state = reconcileState(c, fx, r);
+  if (!state.balanced) return c;
+  const lines = state.lines.filter((l) => r.cleared.includes(l.id));
+  return {
+    ...c,
+    reconciliations: c.reconciliations.map((x) => (x.id === id ? { ...x, cleared: lines.map((l) => l.id), lines, lockedOn: todayISO() } : x)),
+  };
+};
+
+export const discardReconciliation = (c: Case, id: string): Case => ({
+  ...c,
+  reconciliations: c.reconciliations.filter((r) => r.id !== id || r.lockedOn),
+});
+
+const BALANCE_FIELDS = ["amount", "currency", "date", "accountId", "paidOn", "dueDate", "status", "kind", "allocations"] as const;
+
+/** Whether an edit would change what a reconciliation cleared for this record */
+export const changesBalance = (record: Expense | Payment, patch: Partial<Expense> | Partial<Payment>) =>
+  BALANCE_FIELDS.some((k) => k in patch && JSON.stringify((patch as Record<string, unknown>)[k]) !== JSON.stringify((record as Record<string, unknown>)[k]));
+
+/** Printable report of a locked reconciliation */
+export const reconciliationHtml = (c: Case, r: Reconciliation) => {
+  const money = (n: number) => currency(n, c.reportingCurrency);
+  const account = c.accounts.find((a) => a.id === r.accountId)?.name || r.accountId;
+  const lines = r.lines || [];
+  const rows = lines.map((l) => `<tr><td>${esc(l.date)}</td><td>${esc(l.description)}</td><td class="n">${money(l.amount)}</td></tr>`).join("");
+  const title = `Reconciliation — ${account} to ${r.statementDate}`;
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+  body { font: 13px system-ui, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  .n { text-align: right; white-space: nowrap; }
+  .total td { font-weight: 600; border-bottom: 2px solid #111827; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+</style></head><body>
+<h1>${esc(title)}</h1>
+<div class="meta">Client: ${esc(c.client || "—")} · Donation ID: ${esc(c.code || "—")} · Amounts in ${esc(c.reportingCurrency)} · Locked ${esc(r.lockedOn || "—")}</div>
+<table><tr><th>Date</th><th>Cleared transaction</th><th class="n">Amount</th></tr>
+<tr><td></td><td>Opening balance</td><td class="n">${money(r.opening)}</td></tr>
+${rows || `<tr><td colspan="3">Nothing cleared.</td></tr>`}
+<tr class="total"><td colspan="2">Statement balance on ${esc(r.statementDate)}</td><td class="n">${money(r.statementBalance)}</td></tr>
+</table>
+</body></html>`;
+};
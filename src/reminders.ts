@@ -0,0 +1,118 @@
+import { daysBetween, todayISO } from "./dates";
+import { allocatedByInvoice, currency, invoiceState, isReceipt, recordCurrency, type Converter } from "./ledger";
+import type { Case, Payment } from "./model";
+
+/* =========================
+   Reminder templates
+   ========================= */
+/** A user-written reminder; `{placeholders}` are filled in from the case and the chosen invoices */
+export type ReminderTemplate = { id: string; name: string; body: string };
+
+export const PLACEHOLDERS: { key: string; help: string }[] = [
+  { key: "client", help: "client name" },
+  { key: "donor", help: "donor name" },
+  { key: "code", help: "Donation ID" },
+  { key: "amount", help: "still owed on the chosen invoices" },
+  { key: "dueDate", help: "earliest due date of the chosen invoices" },
+  { key: "daysOverdue", help: "days past due of the oldest chosen invoice" },
+  { key: "outstanding", help: "everything still owed on the case" },
+  { key: "invoices", help: "one line per chosen invoice" },
+];
+
+export const DEFAULT_REMINDER_TEMPLATES: ReminderTemplate[] = [
+  {
+    id: "rt-polite",
+    name: "Polite",
+    body: "Hello {client}, just a friendly reminder that a payment of {amount} is due on {dueDate}. Please let us know if you need anything.",
+  },
+  {
+    id: "rt-urgent",
+    name: "Urgent",
+    body: "URGENT: {client}, {amount} was due on {dueDate}. Please complete payment today to avoid disruptions.",
+  },
+  {
+    id: "rt-playful",
+    name: "Playful",
+    body: "Hi {client}! Your {amount} is doing a little \"due-date dance\" for {dueDate}. Mind helping it find its way to us? 💃🕺",
+  },
+  {
+    id: "rt-statement",
+    name: "Statement of open invoices",
+    body: "Hello {client},\n\nFor donation #{code} with {donor}, these invoices are still open:\n{invoices}\n\nIn total {outstanding} is outstanding. Please let us know when we can expect payment.",
+  },
+];
+
+/** Placeholders in a template body that nothing fills in */
+export const unknownPlaceholders = (body: string) =>
+  [...body.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).filter((k) => !PLACEHOLDERS.some((p) => p.key === k));
+
+export type ReminderInvoice = { payment: Payment; remaining: number };
+
+/**
+ * Fill a template for one or more invoices of a case. Amounts stay in the invoices' own
+ * currency when they share one, otherwise they are totalled in the reporting currency.
+ */
+export const renderReminder = (t: ReminderTemplate, c: Case, invoices: ReminderInvoice[], fx: Converter, outstanding: number, today = todayISO()) => {
+  const codes = new Set(invoices.map(({ payment }) => recordCurrency(c, payment)));
+  const code = codes.size === 1 ? [...codes][0] : c.reportingCurrency;
+  const amount = invoices.reduce((s, { payment, remaining }) => s + (codes.size === 1 ? remaining : fx.payment(payment, remaining)), 0);
+  const oldest = [...invoices].sort((a, b) => a.payment.dueDate.localeCompare(b.payment.dueDate))[0];
+  const late = (p: Payment) => Math.max(0, daysBetween(p.dueDate, today));
+  const values: Record<string, string> = {
+    client: c.client || "Client",
+    donor: c.donor || "your donor",
+    code: c.code || "—",
+    amount: currency(amount, code),
+    dueDate: oldest?.payment.dueDate || "",
+    daysOverdue: String(oldest ? late(oldest.payment) : 0),
+    outstanding: currency(outstanding, c.reportingCurrency),
+    invoices: invoices
+      .map(({ payment, remaining }) =>
+        `- ${payment.plan?.label || "Invoice"} due ${payment.dueDate}: ${currency(remaining, recordCurrency(c, payment))}${late(payment) ? ` (${late(payment)} days overdue)` : ""}`)
+      .join("\n"),
+  };
+  return t.body.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/** Fill a template for invoices of any case, working out what is still owed from its receipts */
+export const caseReminder = (t: ReminderTemplate, c: Case, payments: Payment[], fx: Converter, today = todayISO()) => {
+  const allocated = allocatedByInvoice(c);
+  const remaining = (p: Payment) => invoiceState(p, allocated[p.id]).remaining;
+  const outstanding = c.payments.filter((p) => !isReceipt(p)).reduce((s, p) => s + fx.payment(p, remaining(p)), 0);
+  return renderReminder(t, c, payments.map((p) => ({ payment: p, remaining: remaining(p) })), fx, outstanding, today);
+};
+
+/* =========================
+   Reminder log
+   ========================= */
+/**
+ * One reminder copied, queued or sent, covering one or more invoices. The log syncs with
+ * the case, so a schedule's "queued" entry keeps every other browser from queuing it again.
+ */
+export type ReminderLogEntry = {
+  id: string;
+  at: string; // ISO timestamp
+  paymentIds: string[];
+  templateId: string;
+  /** the template's name when it was used, so the log reads the same after a rename or delete */
+  templateName: string;
+  channel: "copied" | "queued" | "sent";
+  text: string;
+  /** the outbox message a schedule queued; its entry turns "sent" once that is delivered */
+  messageId?: string;
+};
+
+export const logReminder = (c: Case, entry: Omit<ReminderLogEntry, "id" | "at">): Case => ({
+  ...c,
+  reminderLog: [...c.reminderLog, { id: `rem-${Math.random().toString(36).slice(2)}`, at: new Date().toISOString(), ...entry }],
+});
+
+/** Log a delivered message: the entry its schedule queued becomes "sent", anything else gets a new one */
+export const logSent = (c: Case, messageId: string, entry: Omit<ReminderLogEntry, "id" | "at" | "channel" | "messageId">): Case =>
+  c.reminderLog.some((r) => r.messageId === messageId)
+    ? { ...c, reminderLog: c.reminderLog.map((r) => (r.messageId === messageId ? { ...r, channel: "sent", at: new Date().toISOString() } : r)) }
+    : logReminder(c, { ...entry, channel: "sent", messageId });
+
+/** Newest-first reminders that covered an invoice */
+export const remindersFor = (c: Case, paymentId: string) =>
+  c.reminderLog.filter((r) => r.paymentIds.includes(paymentId)).reverse();
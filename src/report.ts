@@ -0,0 +1,223 @@
+import { todayISO } from "./dates";
+import { esc } from "./documents";
+import {
+  allocatedByInvoice,
+  balancesByAccount,
+  caseTotals,
+  currency,
+  invoiceState,
+  isReceipt,
+  receivedAmount,
+  recordCurrency,
+  type Converter,
+} from "./ledger";
+import type { PeriodSummary } from "./engine";
+import type { Case, Expense, Payment } from "./model";
+import { periodTitle } from "./periods";
+import type { CategoryGroups } from "./taxonomy";
+import { caseStatuses, type PaymentStage } from "./status";
+
+/* =========================
+   Report model
+   ========================= */
+export type CategoryGroup = {
+  main: string;
+  subtotal: number;
+  subs: { sub: string; subtotal: number; expenses: Expense[] }[];
+};
+export type ActivityLine = { date: string; description: string; accountId: string; amount: number; balance: number };
+/** A payment with the part of it that is relevant to the section it's listed in */
+export type PaymentLine = { payment: Payment; amount: number; stage: PaymentStage };
+
+/** Expenses grouped main › sub, following the taxonomy's order; unknown categories go last */
+export const groupExpenses = (expenses: Expense[], fx: Converter, groups: CategoryGroups): CategoryGroup[] => {
+  const known = Object.keys(groups);
+  const mains = [...new Set([...known, ...expenses.map((e) => e.category)])];
+  return mains
+    .map((main) => {
+      const inMain = expenses.filter((e) => e.category === main);
+      const order = [...(groups[main] || [])];
+      const subs = [...new Set(["", ...order, ...inMain.map((e) => e.subCategory || "")])]
+        .map((sub) => {
+          const list = inMain.filter((e) => (e.subCategory || "") === sub).sort((a, b) => a.date.localeCompare(b.date));
+          return { sub, subtotal: list.reduce((s, e) => s + fx.expense(e), 0), expenses: list };
+        })
+        .filter((g) => g.expenses.length > 0);
+      return { main, subtotal: subs.reduce((s, g) => s + g.subtotal, 0), subs };
+    })
+    .filter((g) => g.subs.length > 0);
+};
+
+const accountName = (c: Case, id: string) => c.accounts.find((a) => a.id === id)?.name || id;
+
+/** Every posted expense, received payment and transfer leg in date order, with the running balance of its account */
+export const accountActivity = (c: Case, fx: Converter): ActivityLine[] => {
+  const allocated = allocatedByInvoice(c);
+  const running: Record<string, number> = {};
+  c.accounts.forEach((a) => (running[a.id] = Number(a.balance)));
+  const moves = [
+    ...c.expenses.map((e) => ({ date: e.date, description: e.note || e.category, accountId: e.accountId, amount: -fx.expense(e) })),
+    ...c.payments
+      .filter((p) => receivedAmount(p, allocated[p.id]) > 0)
+      .map((p) => ({ date: p.paidOn || p.dueDate, description: "Client payment", accountId: p.accountId, amount: fx.payment(p, receivedAmount(p, allocated[p.id])) })),
+    ...c.transfers.flatMap((t) => [
+      { date: t.date, description: `Transfer to ${accountName(c, t.toAccountId)}`, accountId: t.fromAccountId, amount: -Number(t.amount) },
+      { date: t.date, description: `Transfer from ${accountName(c, t.fromAccountId)}`, accountId: t.toAccountId, amount: Number(t.amount) },
+    ]),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+  return moves.map((m) => ({ ...m, balance: (running[m.accountId] = (running[m.accountId] || 0) + m.amount) }));
+};
+
+export const buildLedgerReport = (c: Case, fx: Converter, categories: CategoryGroups) => {
+  const allocated = allocatedByInvoice(c);
+  const statuses = caseStatuses(c);
+  const received: PaymentLine[] = c.payments
+    .map((p) => ({ payment: p, amount: receivedAmount(p, allocated[p.id]), stage: statuses[p.id].stage }))
+    .filter((l) => l.amount > 0)
+    .sort((a, b) => (a.payment.paidOn || "").localeCompare(b.payment.paidOn || ""));
+  const outstanding: PaymentLine[] = c.payments
+    .filter((p) => !isReceipt(p))
+    .map((p) => ({ payment: p, amount: invoiceState(p, allocated[p.id]).remaining, stage: statuses[p.id].stage }))
+    .filter((l) => l.amount > 0)
+    .sort((a, b) => a.payment.dueDate.localeCompare(b.payment.dueDate));
+  return {
+    generatedOn: todayISO(),
+    groups: groupExpenses(c.expenses, fx, categories),
+    received,
+    outstanding,
+    activity: accountActivity(c, fx),
+    balances: balancesByAccount(c, fx),
+    totals: caseTotals(c, fx),
+  };
+};
+export type LedgerReport = ReturnType<typeof buildLedgerReport>;
+
+/* =========================
+   CSV
+   ========================= */
+/**
+ * Text starting with =, +, -, @, a tab or a CR, which a spreadsheet could run as a formula,
+ * gets a leading ' so it opens as plain text; numbers, negative amounts included, stay numbers
+ */
+const csvCell = (v: string | number) => {
+  const s = typeof v === "string" && /^[=+\-@\t\r]/.test(v) && !/^-?\d+(\.\d+)?$/.test(v) ? `'${v}` : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+export const toCsv = (rows: (string | number)[][]) => rows.map((r) => r.map(csvCell).join(",")).join("\r\n");
+
+const amt = (n: number) => n.toFixed(2);
+
+export const ledgerCsv = (c: Case, r: LedgerReport, fx: Converter) => {
+  const code = c.reportingCurrency;
+  const rows: (string | number)[][] = [
+    ["Statement", c.client, c.donor, c.code, `generated ${r.generatedOn}`, `amounts in ${code}`],
+    [],
+    ["Expenses"],
+    ["Category", "Subcategory", "Date", "Note", "Original", "Currency", `Amount (${code})`],
+  ];
+  r.groups.forEach((g) => {
+    g.subs.forEach((s) => {
+      s.expenses.forEach((e) => rows.push([g.main, s.sub, e.date, e.note || "", amt(e.amount), recordCurrency(c, e), amt(fx.expense(e))]));
+      if (s.sub) rows.push([g.main, `${s.sub} subtotal`, "", "", "", "", amt(s.subtotal)]);
+    });
+    rows.push([`${g.main} subtotal`, "", "", "", "", "", amt(g.subtotal)]);
+  });
+  rows.push(["Total paid out", "", "", "", "", "", amt(r.totals.paidOut)], []);
+
+  rows.push(["Payments"], ["Status", "Due date", "Paid on", "Account", "Original", "Currency", `Amount (${code})`]);
+  const paymentRow = ({ payment: p, amount, stage }: PaymentLine) => [
+    isReceipt(p) ? "received" : stage,
+    p.dueDate,
+    p.paidOn || "",
+    accountName(c, p.accountId),
+    amt(amount),
+    recordCurrency(c, p),
+    amt(fx.payment(p, amount)),
+  ];
+  r.received.forEach((l) => rows.push(paymentRow(l)));
+  rows.push(["Total received", "", "", "", "", "", amt(r.totals.receivedIn)]);
+  if (r.totals.clientCredit > 0) rows.push(["of which client credit", "", "", "", "", "", amt(r.totals.clientCredit)]);
+  r.outstanding.forEach((l) => rows.push(paymentRow(l)));
+  rows.push(["Total outstanding", "", "", "", "", "", amt(r.totals.expectedIn)], []);
+
+  rows.push(["Account activity"], ["Date", "Description", "Account", "Amount", "Balance"]);
+  r.activity.forEach((l) => rows.push([l.date, l.description, accountName(c, l.accountId), amt(l.amount), amt(l.balance)]));
+  c.accounts.forEach((a) => rows.push(["Closing balance", a.name, a.id, "", amt(r.balances[a.id] ?? a.balance)]));
+  return toCsv(rows);
+};
+
+/* =========================
+   Printable HTML
+   ========================= */
+export const ledgerHtml = (c: Case, r: LedgerReport, fx: Converter) => {
+  const title = `Statement — ${c.client || "Client"} #${c.code || "—"}`;
+  const money = (n: number) => currency(n, c.reportingCurrency);
+  // reporting-currency amount, with the original amount when it was entered in another currency
+  const converted = (n: number, original: number, code: string) =>
+    code === c.reportingCurrency ? money(n) : `${money(n)}<div class="orig">${currency(original, code)}</div>`;
+  const expenseRows = r.groups
+    .map((g) => {
+      const subs = g.subs
+        .map((s) => {
+          const lines = s.expenses
+            .map((e) => `<tr><td>${esc(e.date)}</td><td>${esc(e.note || "")}</td><td class="n">${converted(fx.expense(e), e.amount, recordCurrency(c, e))}</td></tr>`)
+            .join("");
+          const heading = s.sub ? `<tr class="sub"><td colspan="3">${esc(s.sub)}</td></tr>` : "";
+          const subtotal = s.sub ? `<tr class="subtotal"><td colspan="2">${esc(s.sub)} subtotal</td><td class="n">${money(s.subtotal)}</td></tr>` : "";
+          return heading + lines + subtotal;
+        })
+        .join("");
+      return `<tr class="main"><td colspan="3">${esc(g.main)}</td></tr>${subs}<tr class="total"><td colspan="2">${esc(g.main)} subtotal</td><td class="n">${money(g.subtotal)}</td></tr>`;
+    })
+    .join("");
+  const paymentRows = (list: PaymentLine[]) =>
+    list
+      .map(({ payment: p, amount, stage }) =>
+        `<tr><td>${esc(p.dueDate)}</td><td>${esc(p.paidOn || "")}</td><td>${isReceipt(p) ? "received" : stage}</td><td class="n">${converted(fx.payment(p, amount), amount, recordCurrency(c, p))}</td></tr>`)
+      .join("");
+  const activityRows = r.activity
+    .map((l) => `<tr><td>${esc(l.date)}</td><td>${esc(l.description)}</td><td>${esc(accountName(c, l.accountId))}</td><td class="n">${money(l.amount)}</td><td class="n">${money(l.balance)}</td></tr>`)
+    .join("");
+  const balanceRows = c.accounts
+    .map((a) => `<tr><td>${esc(a.name)}</td><td class="n">${money(a.balance)}</td><td class="n">${money(r.balances[a.id] ?? a.balance)}</td></tr>`)
+    .join("");
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${esc(title)}</title>
+<style>
+  body { font: 13px system-ui, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; } h2 { font-size: 15px; margin: 24px 0 8px; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+  .n { text-align: right; white-space: nowrap; }
+  .main td { font-weight: 700; background: #f3f4f6; } .sub td { font-style: italic; padding-left: 16px; }
+  .orig { font-size: 11px; color: #6b7280; }
+  .subtotal td, .total td { font-weight: 600; } .total td { border-bottom: 2px solid #111827; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style></head><body>
+<h1>${esc(title)}</h1>
+<div class="meta">Client: ${esc(c.client || "—")} · Donor: ${esc(c.donor || "—")} · Donation ID: ${esc(c.code || "—")} · Amounts in ${esc(c.reportingCurrency)} · Generated ${r.generatedOn}</div>
+<h2>Expenses by category</h2>
+<table>${expenseRows}<tr class="total"><td colspan="2">Total paid out</td><td class="n">${money(r.totals.paidOut)}</td></tr></table>
+<h2>Payments received</h2>
+<table><tr><th>Due</th><th>Paid on</th><th>Status</th><th class="n">Amount</th></tr>${paymentRows(r.received)}
+<tr class="total"><td colspan="3">Total received${r.totals.clientCredit > 0 ? ` (incl. ${money(r.totals.clientCredit)} client credit)` : ""}</td><td class="n">${money(r.totals.receivedIn)}</td></tr></table>
+<h2>Payments outstanding</h2>
+<table><tr><th>Due</th><th>Paid on</th><th>Status</th><th class="n">Amount</th></tr>${paymentRows(r.outstanding)}
+<tr class="total"><td colspan="3">Total outstanding</td><td class="n">${money(r.totals.expectedIn)}</td></tr></table>
+<h2>Account activity</h2>
+<table><tr><th>Date</th><th>Description</th><th>Account</th><th class="n">Amount</th><th class="n">Account balance</th></tr>${activityRows}</table>
+<h2>Account balances</h2>
+<table><tr><th>Account</th><th class="n">Start</th><th class="n">Current</th></tr>${balanceRows}</table>
+</body></html>`;
+};
+
+/** Fiscal month or quarter totals, as shown in the Fiscal Periods card */
+export const periodsCsv = (c: Case, rows: PeriodSummary[], fiscalYearStart: number, isClosed: (row: PeriodSummary) => boolean) => {
+  const code = c.reportingCurrency;
+  return toCsv([
+    ["Period", "From", "To", `Invoiced (${code})`, `Received (${code})`, `Paid out (${code})`, `Net (${code})`, "Closed"],
+    ...rows.map((r) => [periodTitle(r.period, fiscalYearStart), r.from, r.to, amt(r.invoiced), amt(r.received), amt(r.paidOut), amt(r.net), isClosed(r) ? "yes" : ""]),
+  ]);
+};
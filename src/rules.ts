@@ -0,0 +1,113 @@
+import { resolveCategory, type CategoryPath, type Taxonomy } from "./taxonomy";
+
+/* =========================
+   Categorization rules
+   ========================= */
+// Rules are tried in list order; the first enabled one that matches an expense's note
+// (and amount, when it has a range) picks the category.
+
+export type CategoryRule = {
+  id: string;
+  /** "keyword" matches whole words, ignoring case; "regex" is a case-insensitive pattern */
+  match: "keyword" | "regex";
+  pattern: string;
+  minAmount?: number;
+  maxAmount?: number;
+  main: string;
+  sub?: string;
+  disabled?: boolean;
+  /** created from a correction in the expense form */
+  learned?: boolean;
+};
+
+export type Suggestion = CategoryPath & {
+  rule?: CategoryRule;
+  /** 0..1; 0 when no rule matched and the fallback was used */
+  confidence: number;
+};
+
+const rule = (pattern: string, main: string, sub?: string): CategoryRule => ({
+  id: `rule-${main}-${sub || ""}-${pattern}`.toLowerCase().replace(/[^a-z0-9-]+/g, "-"),
+  match: "regex",
+  pattern,
+  main,
+  sub,
+});
+
+/** The original built-in suggestions, as editable rules in their original order */
+export const DEFAULT_RULES: CategoryRule[] = [
+  // Travel
+  rule("(accommodation|hotel|airbnb|lodging)", "Travel", "Accommodation"),
+  rule("(flight|airfare|ticket)", "Travel", "Flight"),
+  rule("(baggage|luggage)", "Travel", "Baggage"),
+  rule("companion", "Travel", "Companion flight"),
+  rule("(rebook|change fee|rebooking)", "Travel", "rebooking"),
+  rule("(ground transport|car hire|rental car|transport)", "Travel", "Ground Transport"),
+  rule("(meal|food|dinner|lunch|breakfast)", "Travel", "Meals"),
+  rule("(shuttle).*airport|airport shuttle", "Travel", "Shuttle to&from airport"),
+  rule("(taxi|uber|lyft|petrol|gas)", "Travel", "Stipend.Meals.Taxi.Petrol"),
+  rule("(support person|chaperone)", "Travel", "Support Person"),
+  rule("(travel).*insurance|insurance", "Travel", "Travel Insurance"),
+  rule("visa", "Travel", "Visa"),
+
+  // Medical
+  rule("\\bamh\\b", "Medical", "AMH"),
+  rule("(genetic|karyotype|carrier)", "Medical", "Genetic test"),
+  rule("(hormone).*(stash)|from stash", "Medical", "Hormones from stash"),
+  rule("(hormone|progesterone|estradiol|meds?)", "Medical", "Meds.Hormones"),
+  rule("(lab|blood|panel|cbc)", "Medical", "lab work"),
+  rule("(scan|ultrasound|mri|sonogram)", "Medical", "Scans"),
+  rule("(psych|counsel|therapy)", "Medical", "Psych"),
+
+  // Others
+  rule("shipping|courier|fedex|dhl|ups", "Shipping.Courier"),
+  rule("essay", "Essay"),
+  rule("medical|clinic|doctor|nurse", "Medical"),
+  rule("travel|trip|itinerary", "Travel"),
+];
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Compiled pattern, or null when a regex rule doesn't parse */
+export const rulePattern = (r: CategoryRule) => {
+  try {
+    return r.match === "keyword" ? new RegExp(`\\b${escapeRegex(r.pattern.trim())}\\b`, "i") : new RegExp(r.pattern, "i");
+  } catch {
+    return null;
+  }
+};
+
+export const ruleMatches = (r: CategoryRule, text: string, amount?: number) => {
+  if (r.disabled || !r.pattern.trim()) return false;
+  if (amount !== undefined && r.minAmount !== undefined && amount < r.minAmount) return false;
+  if (amount !== undefined && r.maxAmount !== undefined && amount > r.maxAmount) return false;
+  return !!rulePattern(r)?.test(text);
+};
+
+/**
+ * Category for a note (and amount). Keywords are surer than regexes, an amount range that
+ * also matched adds to that, and other matching rules that disagree take away from it.
+ */
+export const suggestCategory = (rules: CategoryRule[], taxonomy: Taxonomy, text = "", amount?: number): Suggestion => {
+  const matched = rules.filter((r) => ruleMatches(r, text, amount));
+  const [first] = matched;
+  if (!first) return { main: resolveCategory(taxonomy, { main: "Misc" }).main, confidence: 0 };
+  const ranged = amount !== undefined && (first.minAmount !== undefined || first.maxAmount !== undefined);
+  const disagree = matched.some((r) => r.main !== first.main || r.sub !== first.sub);
+  const confidence = Math.min(1, (first.match === "keyword" ? 0.9 : 0.75) + (ranged ? 0.1 : 0)) * (disagree ? 0.7 : 1);
+  return { ...resolveCategory(taxonomy, { main: first.main, sub: first.sub }), rule: first, confidence };
+};
+
+/** Longest word of a note, as the keyword for a rule learned from it */
+export const learnKeyword = (note: string) =>
+  note
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3 && !/^\d+$/.test(w))
+    .sort((a, b) => b.length - a.length)[0] || "";
+
+export const describeRule = (r: CategoryRule) => {
+  const range =
+    r.minAmount !== undefined || r.maxAmount !== undefined ? ` · amount ${r.minAmount ?? "…"}–${r.maxAmount ?? "…"}` : "";
+  return `${r.match === "keyword" ? `"${r.pattern}"` : `/${r.pattern}/`}${range}`;
+};
@@ -0,0 +1,137 @@
+import type { FxRate } from "./ledger";
+import { DEFAULT_DOCUMENT_SETTINGS, type DocumentSettings } from "./documents";
+import { DEFAULT_LIFECYCLE, type LifecycleStage } from "./lifecycle";
+import type { Case } from "./model";
+import { DEFAULT_DELIVERY, type DeliverySettings, type OutboxMessage } from "./outbox";
+import { DONOR_COMPENSATION } from "./payables";
+import { DEFAULT_CALENDAR, type CalendarSettings } from "./periods";
+import { DEFAULT_PLAN_TEMPLATES, type PlanTemplate } from "./plans";
+import { DEFAULT_REMINDER_TEMPLATES, type ReminderTemplate } from "./reminders";
+import { DEFAULT_RULES, type CategoryRule } from "./rules";
+import { DEFAULT_STATUS_RULES } from "./status";
+import { DEFAULT_SYNC, type SyncState } from "./sync";
+import { DEFAULT_TAXONOMY, type Taxonomy } from "./taxonomy";
+
+/* =========================
+   Workspace schema
+   ========================= */
+// Bump SCHEMA_VERSION whenever Case/Account/Expense/Payment change shape,
+// and add a migration that upgrades the previous version.
+export const SCHEMA_VERSION = 18;
+
+export type Workspace = {
+  version: number;
+  cases: Case[];
+  rates: FxRate[];
+  templates: PlanTemplate[];
+  stages: LifecycleStage[];
+  taxonomy: Taxonomy;
+  rules: CategoryRule[];
+  reminderTemplates: ReminderTemplate[];
+  outbox: OutboxMessage[];
+  delivery: DeliverySettings;
+  documents: DocumentSettings;
+  calendar: CalendarSettings;
+  sync: SyncState;
+};
+
+type RawWorkspace = { version?: number; [key: string]: unknown };
+
+/** migrations[n] upgrades a version-n workspace to version n + 1 */
+const migrations: Record<number, (ws: RawWorkspace) => RawWorkspace> = {
+  // v2: multi-currency. Existing amounts were all USD.
+  1: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ reportingCurrency: "USD", ...c })),
+    rates: [],
+  }),
+  // v3: several accounts per case, with transfers between them
+  2: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ transfers: [], ...c })),
+  }),
+  // v4: per-record change history
+  3: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ history: [], ...c })),
+  }),
+  // v5: payment stages come from per-case rules; a hand-set "missed" becomes an override
+  4: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({
+      statusRules: { ...DEFAULT_STATUS_RULES },
+      ...c,
+      payments: ((c.payments as Record<string, unknown>[]) || []).map((p) =>
+        p.status === "missed" ? { ...p, status: "upcoming", statusOverride: "missed" } : p),
+    })),
+  }),
+  // v6: workspace-wide payment plan templates
+  5: (ws) => ({ ...ws, templates: DEFAULT_PLAN_TEMPLATES }),
+  // v7: lifecycle stages, with per-case stage dates and budgets
+  6: (ws) => ({
+    ...ws,
+    stages: DEFAULT_LIFECYCLE,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ lifecycle: {}, ...c })),
+  }),
+  // v8: per-category budgets
+  7: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ categoryBudgets: {}, ...c })),
+  }),
+  // v9: the category taxonomy is workspace data instead of a constant
+  8: (ws) => ({ ...ws, taxonomy: DEFAULT_TAXONOMY }),
+  // v10: categorization rules replace the built-in suggestion cascade
+  9: (ws) => ({ ...ws, rules: DEFAULT_RULES }),
+  // v11: planned and recurring expenses for the cash-flow forecast
+  10: (ws) => ({
+    ...ws,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ plannedExpenses: [], ...c })),
+  }),
+  // v12: user-written reminder templates and a per-case log of reminders sent
+  11: (ws) => ({
+    ...ws,
+    reminderTemplates: DEFAULT_REMINDER_TEMPLATES,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ reminderLog: [], ...c })),
+  }),
+  // v13: email delivery through an outbox, case contact addresses and recurring reminder schedules
+  12: (ws) => ({
+    ...ws,
+    outbox: [],
+    delivery: DEFAULT_DELIVERY,
+    cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ contactEmails: [], reminderSchedules: [], ...c })),
+  }),
+  // v14: agency branding and invoice numbering for printed documents
+  13: (ws) => ({ ...ws, documents: DEFAULT_DOCUMENT_SETTINGS }),
+  // v15: donor payables, posted under their own category
+  14: (ws) => {
+    const taxonomy = (ws.taxonomy as Taxonomy) || [];
+    return {
+      ...ws,
+      taxonomy: taxonomy.some((m) => m.name === DONOR_COMPENSATION) ? taxonomy : [{ name: DONOR_COMPENSATION, subs: [] }, ...taxonomy],
+      cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ donorPayables: [], ...c })),
+    };
+  },
+  // v16: bank statement reconciliations per account
+  15: (ws) => ({ ...ws, cases: ((ws.cases as Record<string, unknown>[]) || []).map((c) => ({ reconciliations: [], ...c })) }),
+  // v17: sync server connection
+  16: (ws) => ({ ...ws, sync: DEFAULT_SYNC }),
+  // v18: business time zone, fiscal year and month-end locks
+  17: (ws) => ({ ...ws, calendar: DEFAULT_CALENDAR }),
+};
+
+/** Upgrade stored data of any older version to the current schema */
+export const migrate = (raw: unknown): Workspace => {
+  if (!raw || typeof raw !== "object") throw new Error("Stored workspace is not an object");
+  let ws = raw as RawWorkspace;
+  let version = Number(ws.version ?? 0);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`Stored workspace is schema v${version}, this app only understands up to v${SCHEMA_VERSION}`);
+  }
+  while (version < SCHEMA_VERSION) {
+    const step = migrations[version];
+    if (!step) throw new Error(`No migration from schema v${version}`);
+    ws = { ...step(ws), version: version + 1 };
+    version += 1;
+  }
+  return ws as unknown as Workspace;
+};
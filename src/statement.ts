@@ -0,0 +1,159 @@
+import type { Expense } from "./model";
+
+/* =========================
+   CSV parsing
+   ========================= */
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF; blank lines dropped */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+};
+
+/* =========================
+   Column mapping
+   ========================= */
+export type ColumnMapping = { date: number; amount: number; description: number };
+export type DateFormat = "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY";
+export const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"];
+/** Thousands and decimal separators */
+export type NumberFormat = "1,234.56" | "1.234,56";
+export const NUMBER_FORMATS: NumberFormat[] = ["1,234.56", "1.234,56"];
+/** Which amounts on the statement are money leaving the account */
+export type MoneyOut = "negative" | "positive";
+
+/** Pick likely columns from a header row; falls back to the first three columns */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const find = (re: RegExp, fallback: number) => {
+    const i = headers.findIndex((h) => re.test(h.toLowerCase()));
+    return i >= 0 ? i : Math.min(fallback, headers.length - 1);
+  };
+  return {
+    date: find(/date/, 0),
+    amount: find(/amount|debit|value/, 1),
+    description: find(/desc|detail|memo|narrative|payee|merchant/, 2),
+  };
+};
+
+/** "$1,234.50", "+5000", "-12", "12-", "(12.00)", "1.234,50" → signed amount; null when unreadable */
+export const parseAmount = (raw: string, format: NumberFormat = "1,234.56"): number | null => {
+  const text = raw.trim();
+  const negative = /^\(.*\)$/.test(text) || /^[^0-9]*-/.test(text) || /-$/.test(text);
+  const [thousands, decimal] = format === "1,234.56" ? [",", "."] : [".", ","];
+  const digits = text.split(thousands).join("").replace(decimal, ".").replace(/[^0-9.]/g, "");
+  if (!/\d/.test(digits) || digits.split(".").length > 2) return null;
+  const n = Number(digits);
+  return Number.isFinite(n) ? (negative ? -n : n) : null;
+};
+
+/** Statement date in the chosen format → ISO YYYY-MM-DD; null when unreadable */
+export const parseDate = (raw: string, format: DateFormat): string | null => {
+  const parts = raw.trim().split(/[-/.]/).map((p) => p.padStart(2, "0"));
+  if (parts.length !== 3) return null;
+  const [y, m, d] =
+    format === "YYYY-MM-DD" ? parts : format === "MM/DD/YYYY" ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+  const iso = `${y}-${m}-${d}`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null;
+  // new Date rolls 2026-02-30 over into March; only dates that exist come back unchanged
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  return date.getUTCFullYear() === Number(y) && date.getUTCMonth() === Number(m) - 1 && date.getUTCDate() === Number(d) ? iso : null;
+};
+
+/**
+ * `amount` is always positive; `credit` marks money coming in (deposits, refunds),
+ * which isn't an expense
+ */
+export type StatementRow = { line: number; date: string; amount: number; credit: boolean; description: string };
+
+export type StatementOptions = { dates: DateFormat; numbers: NumberFormat; moneyOut: MoneyOut; hasHeader: boolean };
+
+/** Map raw CSV rows to statement rows, collecting the line numbers that couldn't be read */
+export const mapRows = (rows: string[][], mapping: ColumnMapping, options: StatementOptions) => {
+  const parsed: StatementRow[] = [];
+  const rejected: number[] = [];
+  rows.forEach((r, i) => {
+    if (options.hasHeader && i === 0) return;
+    const date = parseDate(r[mapping.date] ?? "", options.dates);
+    const amount = parseAmount(r[mapping.amount] ?? "", options.numbers);
+    if (!date || amount === null) rejected.push(i + 1);
+    else {
+      const credit = options.moneyOut === "negative" ? amount > 0 : amount < 0;
+      parsed.push({ line: i + 1, date, amount: Math.abs(amount), credit, description: (r[mapping.description] ?? "").trim() });
+    }
+  });
+  return { parsed, rejected };
+};
+
+/** A statement with any negative amount uses the sign for direction; one without is a list of debits */
+export const guessMoneyOut = (rows: string[][], mapping: ColumnMapping, numbers: NumberFormat, hasHeader: boolean): MoneyOut =>
+  rows.some((r, i) => !(hasHeader && i === 0) && (parseAmount(r[mapping.amount] ?? "", numbers) ?? 0) < 0) ? "negative" : "positive";
+
+/* =========================
+   Posting
+   ========================= */
+export type StatementLine = StatementRow & { category: string; subCategory?: string };
+export type StatementReceipt = { amount: number; currency: string; paidOn: string; accountId: string };
+
+/** Money out becomes expenses; money in (deposits, refunds) becomes received payments, never spending */
+export const statementPostings = (lines: StatementLine[], currency: string, accountId: string) => ({
+  expenses: lines
+    .filter((l) => !l.credit)
+    .map((l): Omit<Expense, "id"> => ({ date: l.date, amount: l.amount, currency, note: l.description, category: l.category, subCategory: l.subCategory || undefined, accountId })),
+  receipts: lines.filter((l) => l.credit).map((l): StatementReceipt => ({ amount: l.amount, currency, paidOn: l.date, accountId })),
+});
+
+/* =========================
+   Duplicate detection
+   ========================= */
+const tokens = (s = "") => new Set(s.toLowerCase().split(/[^a-z0-9]+/).filter((t) => t.length > 1));
+
+/** Jaccard similarity of the word sets of two notes, 0..1 */
+export const noteSimilarity = (a?: string, b?: string) => {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (!ta.size || !tb.size) return 0;
+  const shared = [...ta].filter((t) => tb.has(t)).length;
+  return shared / (ta.size + tb.size - shared);
+};
+
+/** Why a statement row looks like an expense already on the case, if it does */
+export const duplicateReason = (row: StatementRow, expenses: Expense[]): string | null => {
+  const sameDay = expenses.find((e) => e.date === row.date && Math.abs(Number(e.amount) - row.amount) < 0.005);
+  if (sameDay) return `same date & amount as "${sameDay.note || sameDay.category}"`;
+  const similar = expenses.find((e) => noteSimilarity(e.note, row.description) >= 0.8);
+  if (similar) return `similar to "${similar.note}" on ${similar.date}`;
+  return null;
+};
@@ -0,0 +1,60 @@
+import { daysBetween, todayISO } from "./dates";
+import { allocatedByInvoice, invoiceState, isReceipt } from "./ledger";
+import type { Case, Payment } from "./model";
+
+/* =========================
+   Payment lifecycle
+   ========================= */
+// upcoming → due → overdue → missed, or paid at any point. Every screen that shows
+// where an invoice stands (board, KPIs, timeline, reminders) asks this engine.
+
+export const PAYMENT_STAGES = ["upcoming", "due", "overdue", "missed", "paid"] as const;
+export type PaymentStage = (typeof PAYMENT_STAGES)[number];
+/** Stages a user can pin an unpaid invoice to; "paid" is recorded by completing it instead */
+export type OverrideStage = Exclude<PaymentStage, "paid">;
+
+export type StatusRules = {
+  /** an invoice counts as "due" this many days before its due date */
+  dueWindowDays: number;
+  /** days after the due date before it is "overdue" */
+  graceDays: number;
+  /** days after the grace period before it is "missed" */
+  missedAfterDays: number;
+};
+export const DEFAULT_STATUS_RULES: StatusRules = { dueWindowDays: 7, graceDays: 3, missedAfterDays: 30 };
+
+export type PaymentStatus = {
+  stage: PaymentStage;
+  /** what the rules say, ignoring any manual override */
+  auto: PaymentStage;
+  overridden: boolean;
+  /** days past the due date; negative while still ahead of it */
+  daysLate: number;
+};
+
+/** Stage from the rules alone, for an invoice that isn't paid */
+export const stageByRules = (dueDate: string, rules: StatusRules, today = todayISO()): PaymentStage => {
+  const late = daysBetween(dueDate, today);
+  if (late < -rules.dueWindowDays) return "upcoming";
+  if (late <= rules.graceDays) return "due";
+  if (late <= rules.graceDays + rules.missedAfterDays) return "overdue";
+  return "missed";
+};
+
+/** Manual overrides hold until the invoice is paid; money received always wins */
+export const paymentStatus = (p: Payment, settled: boolean, rules: StatusRules, today = todayISO()): PaymentStatus => {
+  const auto = isReceipt(p) || settled ? "paid" : stageByRules(p.dueDate, rules, today);
+  const overridden = !!p.statusOverride && auto !== "paid" && p.statusOverride !== auto;
+  return { stage: overridden ? p.statusOverride! : auto, auto, overridden, daysLate: daysBetween(p.dueDate, today) };
+};
+
+/** Status of every payment on a case, by payment id */
+export const caseStatuses = (c: Case, today = todayISO()) => {
+  const allocated = allocatedByInvoice(c);
+  const map: Record<string, PaymentStatus> = {};
+  c.payments.forEach((p) => (map[p.id] = paymentStatus(p, invoiceState(p, allocated[p.id]).settled, c.statusRules, today)));
+  return map;
+};
+
+/** Stages that still need chasing */
+export const isOutstanding = (stage: PaymentStage) => stage !== "paid" && stage !== "upcoming";
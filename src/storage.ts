@@ -0,0 +1,98 @@
+import { migrate, SCHEMA_VERSION, type Workspace } from "./schema";
+
+/* =========================
+   Backends
+   ========================= */
+type Backend = {
+  name: "indexeddb" | "localstorage";
+  read: () => Promise<unknown>;
+  write: (ws: Workspace) => Promise<void>;
+  /** attachment files live apart from the workspace so it stays small to load and save; they are never
+   *  deleted, so undoing the removal of an attachment brings its file back too */
+  readFile: (id: string) => Promise<Blob | undefined>;
+  writeFile: (id: string, file: Blob) => Promise<void>;
+};
+
+const DB_NAME = "donation-finance";
+// v2: attachments store
+const DB_VERSION = 2;
+const STORE = "workspace";
+const FILES = "attachments";
+const KEY = "current";
+const LS_KEY = "donation-finance:workspace";
+const LS_FILE_PREFIX = "donation-finance:file:";
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("IndexedDB unavailable"));
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE);
+      if (!req.result.objectStoreNames.contains(FILES)) req.result.createObjectStore(FILES);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const indexedDbBackend = (db: IDBDatabase): Backend => ({
+  name: "indexeddb",
+  read: () => request(db.transaction(STORE, "readonly").objectStore(STORE).get(KEY)),
+  write: async (ws) => {
+    await request(db.transaction(STORE, "readwrite").objectStore(STORE).put(ws, KEY));
+  },
+  readFile: (id) => request(db.transaction(FILES, "readonly").objectStore(FILES).get(id)),
+  writeFile: async (id, file) => {
+    await request(db.transaction(FILES, "readwrite").objectStore(FILES).put(file, id));
+  },
+});
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+const localStorageBackend: Backend = {
+  name: "localstorage",
+  read: async () => {
+    const raw = localStorage.getItem(LS_KEY);
+    return raw ? JSON.parse(raw) : undefined;
+  },
+  write: async (ws) => localStorage.setItem(LS_KEY, JSON.stringify(ws)),
+  // files are kept as data URLs; the ~5 MB quota makes this a last resort
+  readFile: async (id) => {
+    const url = localStorage.getItem(LS_FILE_PREFIX + id);
+    return url ? dataUrlToBlob(url) : undefined;
+  },
+  writeFile: async (id, file) => localStorage.setItem(LS_FILE_PREFIX + id, await blobToDataUrl(file)),
+};
+
+let backend: Promise<Backend> | null = null;
+/** IndexedDB when the browser allows it (private modes often don't), else localStorage */
+export const getBackend = () =>
+  (backend ??= openDb().then(indexedDbBackend, () => localStorageBackend));
+
+/* =========================
+   Public API
+   ========================= */
+/** Load and migrate the saved workspace; null when nothing has been saved yet */
+export const loadWorkspace = async (): Promise<Workspace | null> => {
+  const raw = await (await getBackend()).read();
+  return raw == null ? null : migrate(raw);
+};
+
+export const saveWorkspace = async (data: Omit<Workspace, "version">) =>
+  (await getBackend()).write({ ...data, version: SCHEMA_VERSION });
+
+export const loadFile = async (id: string) => (await getBackend()).readFile(id);
+export const saveFile = async (id: string, file: Blob) => (await getBackend()).writeFile(id, file);
@@ -0,0 +1,152 @@
+import { describePath, same, setAtPath, threeWayMerge, type Conflict } from "./merge";
+import type { Case } from "./model";
+import { migrate, SCHEMA_VERSION, type Workspace } from "./schema";
+import { checkWorkspace, describeIssues } from "./validate";
+
+/* =========================
+   Sync with a workspace server
+   ========================= */
+// The app keeps working on its local copy; a sync pulls the server's copy, merges it
+// with local edits field by field against the copy both started from (`base`), and
+// pushes the result. Fields both sides changed are kept as conflicts until someone
+// picks a side. The outbox and delivery settings stay with each browser.
+
+export const SYNCED_KEYS = ["cases", "rates", "templates", "stages", "taxonomy", "rules", "reminderTemplates", "documents", "calendar"] as const;
+export type SyncedData = Pick<Workspace, (typeof SYNCED_KEYS)[number]>;
+
+export type SyncConflict = Conflict & { id: string; at: string };
+
+export type SyncState = {
+  /** base URL of the sync server; empty when sync is off */
+  serverUrl: string;
+  token: string;
+  /** server revision `base` was read at */
+  rev: number;
+  /** the shared data as of the last sync */
+  base: (SyncedData & { version: number }) | null;
+  /** conflicting edits waiting for a decision; the remote value is in use meanwhile */
+  conflicts: SyncConflict[];
+};
+
+export const DEFAULT_SYNC: SyncState = { serverUrl: "", token: "", rev: 0, base: null, conflicts: [] };
+
+export const pickSynced = (ws: SyncedData): SyncedData => ({
+  cases: ws.cases,
+  rates: ws.rates,
+  templates: ws.templates,
+  stages: ws.stages,
+  taxonomy: ws.taxonomy,
+  rules: ws.rules,
+  reminderTemplates: ws.reminderTemplates,
+  documents: ws.documents,
+  calendar: ws.calendar,
+});
+
+const api = async (s: SyncState, path: string, init: RequestInit = {}) => {
+  const res = await fetch(`${s.serverUrl.replace(/\/+$/, "")}/api${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(s.token ? { Authorization: `Bearer ${s.token}` } : {}) },
+  });
+  if (!res.ok && res.status !== 409) {
+    const body = (await res.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error || `Server answered ${res.status} ${res.statusText}`.trim());
+  }
+  return res;
+};
+
+/** The server's copy, checked like an import; merging rows the app can't open would break it on every browser */
+const readRemote = (raw: unknown): SyncedData => {
+  const { issues, ...checked } = checkWorkspace(migrate(raw));
+  if (issues.length) throw new Error(`The server's workspace has data this app can't open: ${describeIssues(issues)}`);
+  return pickSynced(checked as SyncedData);
+};
+
+/**
+ * Two browsers that each issued an invoice offline both moved the counter from N to N + 1,
+ * which a merge takes as one change. Every copy goes on from the higher count before
+ * merging, so later numbers stay apart and the counter never conflicts; numbers already
+ * given out twice are listed by `duplicateInvoiceNumbers`.
+ */
+const withInvoiceCounter = <T extends SyncedData>(data: T, nextInvoiceNumber: number): T => ({ ...data, documents: { ...data.documents, nextInvoiceNumber } });
+
+/** fetch rejects with a TypeError when the server can't be reached at all */
+export const isOffline = (err: unknown) => err instanceof TypeError;
+
+/**
+ * Pull, merge and push once. When another client pushes in between, the server
+ * refuses the stale push and the round starts over. On the first sync there is no
+ * `base`, so every local case looks new; cases `isPlaceholder` says were never touched
+ * (a fresh browser's empty starter case) stay out of a server that already has cases.
+ */
+export const syncWorkspace = async (s: SyncState, local: SyncedData, isPlaceholder: (c: Case) => boolean = () => false) => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const snap = (await (await api(s, "/workspace")).json()) as { rev: number; workspace: unknown };
+    const remote = snap.workspace ? readRemote(snap.workspace) : null;
+    const base = s.base ? pickSynced(migrate(s.base)) : null;
+    const mine = !base && remote?.cases.length ? { ...local, cases: local.cases.filter((c) => !isPlaceholder(c)) } : local;
+    const counter = Math.max(mine.documents.nextInvoiceNumber, remote?.documents.nextInvoiceNumber ?? 0);
+    const { merged, conflicts } = remote
+      ? threeWayMerge(base && withInvoiceCounter(base, counter), withInvoiceCounter(mine, counter), withInvoiceCounter(remote, counter))
+      : { merged: mine, conflicts: [] };
+    if (remote && same(merged, remote)) return { merged, conflicts, rev: snap.rev };
+    const res = await api(s, "/workspace", { method: "PUT", body: JSON.stringify({ rev: snap.rev, workspace: { ...merged, version: SCHEMA_VERSION } }) });
+    if (res.status === 409) continue;
+    const { rev } = (await res.json()) as { rev: number };
+    return { merged, conflicts, rev };
+  }
+  throw new Error("The server kept changing while syncing; try again");
+};
+
+/** Bring a sync result into local data that was edited while the sync ran; those edits win */
+export const rebase = <T>(snapshot: T, current: T, merged: T): T => {
+  if (current === snapshot || same(current, snapshot)) return same(current, merged) ? current : merged;
+  const next = threeWayMerge({ value: snapshot }, { value: current }, { value: merged }, "local").merged.value;
+  return same(current, next) ? current : next;
+};
+
+/** Newly found conflicts replace older ones on the same field */
+export const addConflicts = (existing: SyncConflict[], found: Conflict[]): SyncConflict[] => {
+  const at = new Date().toISOString();
+  const fresh = found.map((c) => ({ ...c, id: `sc-${Math.random().toString(36).slice(2)}`, at }));
+  const paths = new Set(found.map((c) => describePath(c.path)));
+  return [...existing.filter((c) => !paths.has(describePath(c.path))), ...fresh];
+};
+
+/** Local data with one conflict settled in favour of the local edit */
+export const keepLocal = <K extends keyof SyncedData>(value: SyncedData[K], c: SyncConflict): SyncedData[K] =>
+  setAtPath({ [c.path[0]]: value }, c.path, c.local)[c.path[0]] as SyncedData[K];
+
+const recordLabel = (list: string, r: Record<string, unknown> | undefined) => {
+  if (!r) return list.replace(/s$/, "");
+  if (list === "cases") return `case "${r.client || r.code || r.id}"`;
+  if (list === "expenses") return `expense "${r.note || r.category}" on ${r.date}`;
+  if (list === "payments") return `${r.kind === "receipt" ? "receipt" : "invoice"} due ${r.dueDate}`;
+  return `${list.replace(/s$/, "")} "${r.name || r.description || r.id}"`;
+};
+
+/** Where a conflict is, in words: "case "Smith" › expense "Taxi" on 2026-03-02 › amount" */
+export const describeConflict = (data: SyncedData, c: Conflict) => {
+  const words: string[] = [];
+  let node: unknown = data;
+  let list = "";
+  c.path.forEach((key) => {
+    if (Array.isArray(node)) {
+      const found = node.find((x) => x && x.id === key) as Record<string, unknown> | undefined;
+      const fromConflict = (c.local ?? c.remote ?? c.base) as Record<string, unknown>;
+      words.push(recordLabel(list, found || (key === c.path[c.path.length - 1] ? fromConflict : undefined)));
+      node = found;
+    } else {
+      list = key;
+      node = (node as Record<string, unknown> | undefined)?.[key];
+      if (!Array.isArray(node)) words.push(key);
+    }
+  });
+  return words.join(" › ");
+};
+
+/** Short display of a conflicting value */
+export const conflictValue = (v: unknown) => {
+  if (v === undefined) return "(deleted)";
+  const text = typeof v === "string" ? v : JSON.stringify(v);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+};
@@ -0,0 +1,185 @@
+import { budgetKey } from "./budgets";
+import type { Case } from "./model";
+
+/* =========================
+   Category taxonomy
+   ========================= */
+// Expenses store category names, so renames and merges rewrite every expense and budget
+// that uses the old name. The old name is remembered on the node (as a `budgetKey` path)
+// so suggestions and imports that still produce it land on the new one.
+
+export type CategoryNode = { name: string; archived?: boolean; formerNames?: string[] };
+export type MainCategory = CategoryNode & { subs: CategoryNode[] };
+export type Taxonomy = MainCategory[];
+export type CategoryPath = { main: string; sub?: string };
+/** main category -> subcategories, in display order */
+export type CategoryGroups = Record<string, readonly string[]>;
+
+/** The built-in taxonomy a new workspace starts from */
+export const CATEGORY_GROUPS: CategoryGroups = {
+  // single-level categories
+  "Donor Compensation": [],
+  Essay: [],
+  Misc: [],
+  "Shipping.Courier": [],
+
+  // Medical with subs
+  Medical: [
+    "AMH",
+    "Genetic test",
+    "Hormones from stash",
+    "lab work",
+    "Meds.Hormones",
+    "Psych",
+    "Scans",
+  ],
+
+  // Travel with subs
+  Travel: [
+    "Accommodation",
+    "Flight",
+    "Baggage",
+    "Companion flight",
+    "rebooking",
+    "Ground Transport",
+    "Meals",
+    "Shuttle to&from airport",
+    "Stipend.Meals.Taxi.Petrol",
+    "Support Person",
+    "Travel Insurance",
+    "Visa",
+  ],
+};
+
+export const DEFAULT_TAXONOMY: Taxonomy = Object.entries(CATEGORY_GROUPS).map(([name, subs]) => ({
+  name,
+  subs: subs.map((sub) => ({ name: sub })),
+}));
+
+/* =========================
+   Lookups
+   ========================= */
+/** Every category, archived ones included, for grouping historical expenses */
+export const categoryGroups = (t: Taxonomy): CategoryGroups => Object.fromEntries(t.map((m) => [m.name, m.subs.map((s) => s.name)]));
+
+/** Main categories offered when entering a new expense */
+export const activeMains = (t: Taxonomy) => t.filter((m) => !m.archived).map((m) => m.name);
+export const activeSubs = (t: Taxonomy, main: string) => t.find((m) => m.name === main)?.subs.filter((s) => !s.archived).map((s) => s.name) || [];
+
+export const isArchived = (t: Taxonomy, { main, sub }: CategoryPath) => {
+  const m = t.find((x) => x.name === main);
+  return !!m && (!!m.archived || (!!sub && !!m.subs.find((s) => s.name === sub)?.archived));
+};
+
+const knownAs = (n: CategoryNode, path: string) => n.name === path || !!n.formerNames?.includes(path);
+
+/** Current names for a category that may have been renamed or merged since */
+export const resolveCategory = (t: Taxonomy, { main, sub }: CategoryPath): CategoryPath => {
+  if (sub) {
+    const key = budgetKey(main, sub);
+    const folded = t.find((m) => m.formerNames?.includes(key));
+    if (folded) return { main: folded.name };
+    for (const m of t) {
+      const moved = m.subs.find((s) => s.formerNames?.includes(key));
+      if (moved) return { main: m.name, sub: moved.name };
+    }
+  }
+  const m = t.find((x) => x.name === main) || t.find((x) => knownAs(x, main));
+  if (!m) return { main, sub };
+  return { main: m.name, sub: sub && (m.subs.find((s) => knownAs(s, sub))?.name ?? sub) };
+};
+
+/* =========================
+   Editing
+   ========================= */
+const remember = (n: CategoryNode, ...paths: string[]) => ({ ...n, formerNames: [...new Set([...(n.formerNames || []), ...paths])] });
+
+/** Rewrite category names on every expense and budget; budgets that land on the same key add up */
+const remapCases = (cases: Case[], map: (path: CategoryPath) => CategoryPath | null): Case[] =>
+  cases.map((c) => {
+    const categoryBudgets: Record<string, number> = {};
+    Object.entries(c.categoryBudgets).forEach(([key, amount]) => {
+      const [main, sub] = key.split(" › ");
+      const to = map({ main, sub });
+      const next = to ? budgetKey(to.main, to.sub) : key;
+      categoryBudgets[next] = (categoryBudgets[next] || 0) + amount;
+    });
+    const expenses = c.expenses.map((e) => {
+      const to = map({ main: e.category, sub: e.subCategory });
+      return to ? { ...e, category: to.main, subCategory: to.sub } : e;
+    });
+    return { ...c, expenses, categoryBudgets };
+  });
+
+export const renameCategory = (t: Taxonomy, cases: Case[], from: CategoryPath, name: string) => {
+  const { main, sub } = from;
+  if (sub === undefined) {
+    return {
+      taxonomy: t.map((m) => (m.name === main ? { ...remember(m, main), name, subs: m.subs } : m)),
+      cases: remapCases(cases, (p) => (p.main === main ? { main: name, sub: p.sub } : null)),
+    };
+  }
+  return {
+    taxonomy: t.map((m) =>
+      m.name === main ? { ...m, subs: m.subs.map((s) => (s.name === sub ? { ...remember(s, budgetKey(main, sub)), name } : s)) } : m),
+    cases: remapCases(cases, (p) => (p.main === main && p.sub === sub ? { main, sub: name } : null)),
+  };
+};
+
+/**
+ * Fold one category into another. A main category brings its subcategories along;
+ * a subcategory can be merged into another subcategory or straight into a main category.
+ */
+export const mergeCategory = (t: Taxonomy, cases: Case[], from: CategoryPath, into: CategoryPath) => {
+  if (from.sub === undefined) {
+    const source = t.find((m) => m.name === from.main);
+    if (!source || into.main === from.main) return { taxonomy: t, cases };
+    const taxonomy = t
+      .filter((m) => m.name !== from.main)
+      .map((m) => {
+        if (m.name !== into.main) return m;
+        const extra = source.subs.filter((s) => !m.subs.some((x) => x.name === s.name));
+        return { ...remember(m, from.main, ...(source.formerNames || [])), subs: [...m.subs, ...extra] };
+      });
+    return { taxonomy, cases: remapCases(cases, (p) => (p.main === from.main ? { main: into.main, sub: p.sub } : null)) };
+  }
+
+  const source = t.find((m) => m.name === from.main)?.subs.find((s) => s.name === from.sub);
+  const names = [budgetKey(from.main, from.sub), ...(source?.formerNames || [])];
+  const taxonomy = t.map((m) => {
+    const subs = m.name === from.main ? m.subs.filter((s) => s.name !== from.sub) : m.subs;
+    if (m.name !== into.main) return { ...m, subs };
+    if (!into.sub) return { ...remember(m, ...names), subs };
+    return { ...m, subs: subs.map((s) => (s.name === into.sub ? remember(s, ...names) : s)) };
+  });
+  return {
+    taxonomy,
+    cases: remapCases(cases, (p) => (p.main === from.main && p.sub === from.sub ? { main: into.main, sub: into.sub } : null)),
+  };
+};
+
+export const addCategory = (t: Taxonomy, { main, sub }: CategoryPath): Taxonomy =>
+  sub === undefined
+    ? [...t, { name: main, subs: [] }]
+    : t.map((m) => (m.name === main ? { ...m, subs: [...m.subs, { name: sub }] } : m));
+
+const shift = <T>(list: T[], i: number, by: number) => {
+  const next = [...list];
+  if (i < 0 || i + by < 0 || i + by >= list.length) return next;
+  [next[i], next[i + by]] = [next[i + by], next[i]];
+  return next;
+};
+
+/** Move a category one place up (-1) or down (1) among its siblings */
+export const moveCategory = (t: Taxonomy, { main, sub }: CategoryPath, by: number): Taxonomy =>
+  sub === undefined
+    ? shift(t, t.findIndex((m) => m.name === main), by)
+    : t.map((m) => (m.name === main ? { ...m, subs: shift(m.subs, m.subs.findIndex((s) => s.name === sub), by) } : m));
+
+/** Archived categories drop out of the pickers but keep showing on the expenses that use them */
+export const setArchived = (t: Taxonomy, { main, sub }: CategoryPath, archived: boolean): Taxonomy =>
+  t.map((m) => {
+    if (m.name !== main) return m;
+    if (sub === undefined) return { ...m, archived: archived || undefined };
+    return { ...m, subs: m.subs.map((s) => (s.name === sub ? { ...s, archived: archived || undefined } : s)) };
+  });
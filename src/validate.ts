@@ -0,0 +1,378 @@
+import { ACCEPTED_TYPES, dataUrlType } from "./attachments";
+import type { PlannedExpense } from "./cashflow";
+import { isTimeZone } from "./dates";
+import { isHexColor, type DocumentSettings } from "./documents";
+import type { ChangeEntry } from "./history";
+import type { FxRate } from "./ledger";
+import type { LifecycleStage } from "./lifecycle";
+import type { Account, Case, Expense, Payment, Transfer } from "./model";
+import type { DonorPayable } from "./payables";
+import type { CalendarSettings } from "./periods";
+import type { PlanTemplate } from "./plans";
+import type { Reconciliation } from "./reconcile";
+import type { OutboxMessage, ReminderSchedule } from "./outbox";
+import type { ReminderLogEntry, ReminderTemplate } from "./reminders";
+import type { CategoryRule } from "./rules";
+import type { Taxonomy } from "./taxonomy";
+import { PAYMENT_STAGES } from "./status";
+import { migrate, type Workspace } from "./schema";
+
+/* =========================
+   Backup validation
+   ========================= */
+// No browser APIs here: the command-line ledger reads backups through this module too.
+/** An attachment's file, carried inside a backup as a data URL */
+export type BackupFile = { id: string; dataUrl: string };
+
+export type ImportIssue = { path: string; message: string };
+
+type Check = (v: unknown) => string | null;
+type Shape = Record<string, Check>;
+
+const str: Check = (v) => (typeof v === "string" ? null : "expected a string");
+const num: Check = (v) => (typeof v === "number" && Number.isFinite(v) ? null : "expected a number");
+const isoDate: Check = (v) => (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) ? null : "expected a YYYY-MM-DD date");
+const optional = (check: Check): Check => (v) => (v === undefined ? null : check(v));
+const currencyCode: Check = (v) => (typeof v === "string" && /^[A-Z]{3}$/.test(v) ? null : "expected a 3-letter currency code");
+const stringList = (what: string): Check => (v) => (Array.isArray(v) && v.every((x) => typeof x === "string") ? null : `expected a list of ${what}`);
+const oneOf = (...values: string[]): Check => (v) =>
+  values.includes(v as string) ? null : `expected one of ${values.join(", ")}`;
+
+const accountShape: Shape = { id: str, name: str, balance: num };
+const expenseShape: Shape = {
+  id: str,
+  date: isoDate,
+  amount: num,
+  category: str,
+  subCategory: optional(str),
+  accountId: str,
+  note: optional(str),
+  currency: optional(currencyCode),
+  stageId: optional(str),
+  attachments: optional((v) =>
+    Array.isArray(v) && v.every((a) => a && typeof a.id === "string" && typeof a.name === "string" && ACCEPTED_TYPES.includes(a.type) && typeof a.size === "number")
+      ? null
+      : "expected a list of { id, name, type, size } images or PDFs"),
+};
+const allocations: Check = (v) =>
+  Array.isArray(v) && v.every((a) => a && typeof a.invoiceId === "string" && typeof a.amount === "number")
+    ? null
+    : "expected a list of { invoiceId, amount }";
+const planLink: Check = (v) => {
+  const l = v as Record<string, unknown>;
+  return l && typeof l.templateId === "string" && typeof l.step === "number" && typeof l.label === "string" && typeof l.offsetDays === "number"
+    ? null
+    : "expected { templateId, step, label, offsetDays }";
+};
+const paymentShape: Shape = {
+  id: str,
+  dueDate: isoDate,
+  amount: num,
+  accountId: str,
+  status: oneOf("upcoming", "completed"),
+  statusOverride: optional(oneOf(...PAYMENT_STAGES.filter((s) => s !== "paid"))),
+  paidOn: optional(isoDate),
+  currency: optional(currencyCode),
+  kind: optional(oneOf("invoice", "receipt")),
+  allocations: optional(allocations),
+  plan: optional(planLink),
+  invoiceNumber: optional(str),
+  issuedOn: optional(isoDate),
+  lineItems: optional((v) =>
+    Array.isArray(v) && v.every((l) => l && typeof l.description === "string" && typeof l.amount === "number")
+      ? null
+      : "expected a list of { description, amount }"),
+};
+const transferShape: Shape = {
+  id: str,
+  date: isoDate,
+  fromAccountId: str,
+  toAccountId: str,
+  amount: num,
+  note: optional(str),
+};
+const record: Check = (v) => (v && typeof v === "object" && typeof (v as { id?: unknown }).id === "string" ? null : "expected a record with an id");
+const historyShape: Shape = {
+  id: str,
+  at: str,
+  kind: oneOf("expense", "payment"),
+  recordId: str,
+  action: oneOf("update", "delete"),
+  before: record,
+  after: optional(record),
+  undoneAt: optional(str),
+};
+const days: Check = (v) => (typeof v === "number" && Number.isInteger(v) && v >= 0 ? null : "expected a whole number of days");
+const statusRules: Check = (v) => {
+  if (!v || typeof v !== "object") return "expected { dueWindowDays, graceDays, missedAfterDays }";
+  const rules = v as Record<string, unknown>;
+  const bad = ["dueWindowDays", "graceDays", "missedAfterDays"].find((k) => days(rules[k]));
+  return bad ? `${bad}: ${days(rules[bad])}` : null;
+};
+const lifecycle: Check = (v) =>
+  v && typeof v === "object" &&
+  Object.values(v).every((s) => s && typeof s === "object" && optional(isoDate)(s.startedOn) === null && optional(num)(s.budget) === null)
+    ? null
+    : "expected { [stageId]: { startedOn?, budget? } }";
+const categoryBudgets: Check = (v) =>
+  v && typeof v === "object" && Object.values(v).every((n) => num(n) === null) ? null : "expected { [category]: amount }";
+const caseShape: Shape = {
+  id: str,
+  code: str,
+  client: str,
+  donor: str,
+  reportingCurrency: currencyCode,
+  statusRules,
+  startDate: optional(isoDate),
+  lifecycle,
+  categoryBudgets,
+  contactEmails: stringList("email addresses"),
+};
+const plannedExpenseShape: Shape = {
+  id: str,
+  description: str,
+  amount: num,
+  currency: optional(currencyCode),
+  accountId: str,
+  date: isoDate,
+  repeat: oneOf("once", "weekly", "monthly"),
+  until: optional(isoDate),
+};
+const reminderLogShape: Shape = {
+  id: str,
+  at: str,
+  paymentIds: stringList("payment ids"),
+  templateId: str,
+  templateName: str,
+  channel: oneOf("copied", "queued", "sent"),
+  text: str,
+  messageId: optional(str),
+};
+const scheduleShape: Shape = {
+  id: str,
+  templateId: str,
+  everyDays: (v) => (typeof v === "number" && Number.isInteger(v) && v >= 1 ? null : "expected a whole number of days, at least 1"),
+  stages: (v) => (Array.isArray(v) && v.every((s) => PAYMENT_STAGES.includes(s) && s !== "paid") ? null : "expected a list of unpaid stages"),
+};
+const outboxShape: Shape = {
+  id: str,
+  caseId: str,
+  to: stringList("email addresses"),
+  subject: str,
+  body: str,
+  paymentIds: stringList("payment ids"),
+  templateId: str,
+  templateName: str,
+  status: oneOf("queued", "sent", "failed"),
+  attempts: num,
+  createdAt: str,
+};
+const fileShape: Shape = {
+  id: str,
+  dataUrl: (v) => (typeof v === "string" && ACCEPTED_TYPES.includes(dataUrlType(v) ?? "") ? null : "expected a data: URL of an image or PDF"),
+};
+const documentShape: Shape = {
+  agencyName: str,
+  address: str,
+  email: str,
+  phone: str,
+  logo: optional(str),
+  accentColor: (v) => (isHexColor(v) ? null : "expected a colour like #2563eb"),
+  paymentInstructions: str,
+  footer: str,
+  invoicePrefix: str,
+  nextInvoiceNumber: (v) => (typeof v === "number" && Number.isInteger(v) && v >= 1 ? null : "expected a whole number, at least 1"),
+};
+const calendarShape: Shape = {
+  timeZone: (v) => (typeof v === "string" && isTimeZone(v) ? null : "expected a time zone name, e.g. Europe/London"),
+  fiscalYearStart: (v) => (typeof v === "number" && Number.isInteger(v) && v >= 1 && v <= 12 ? null : "expected a month number, 1 to 12"),
+  locks: (v) =>
+    Array.isArray(v) && v.every((l) => l && typeof l.id === "string" && /^\d{4}-\d{2}$/.test(l.month) && typeof l.lockedOn === "string")
+      ? null
+      : "expected a list of { id, month, lockedOn }",
+};
+const payableShape: Shape = {
+  id: str,
+  kind: oneOf("compensation", "reimbursement"),
+  description: str,
+  amount: num,
+  currency: optional(currencyCode),
+  category: str,
+  subCategory: optional(str),
+  date: isoDate,
+  status: oneOf("scheduled", "submitted", "posted", "rejected"),
+  decidedOn: optional(isoDate),
+  reason: optional(str),
+  expenseId: optional(str),
+};
+const reconciledLines: Check = (v) =>
+  Array.isArray(v) &&
+  v.every((l) => l && typeof l.id === "string" && ["expense", "payment", "transfer"].includes(l.kind) && typeof l.date === "string" && typeof l.description === "string" && typeof l.amount === "number")
+    ? null
+    : "expected a list of { id, kind, date, description, amount }";
+const reconciliationShape: Shape = {
+  id: str,
+  accountId: str,
+  statementDate: isoDate,
+  statementBalance: num,
+  opening: num,
+  cleared: stringList("transaction ids"),
+  lockedOn: optional(isoDate),
+  lines: optional(reconciledLines),
+};
+const rateShape: Shape = { id: str, date: isoDate, from: currencyCode, to: currencyCode, rate: num };
+const installments: Check = (v) =>
+  Array.isArray(v) &&
+  v.every((i) => i && typeof i.label === "string" && (i.unit === "amount" || i.unit === "percent") && typeof i.value === "number" && Number.isInteger(i.offsetDays))
+    ? null
+    : "expected a list of { label, unit, value, offsetDays }";
+const templateShape: Shape = { id: str, name: str, installments };
+const reminderTemplateShape: Shape = { id: str, name: str, body: str };
+const stageShape: Shape = { id: str, name: str };
+const ruleShape: Shape = {
+  id: str,
+  match: oneOf("keyword", "regex"),
+  pattern: str,
+  minAmount: optional(num),
+  maxAmount: optional(num),
+  main: str,
+  sub: optional(str),
+};
+const categoryNode = (n: unknown) => {
+  const node = n as { name?: unknown; archived?: unknown; formerNames?: unknown };
+  return !!node && typeof node.name === "string" && (node.formerNames === undefined || Array.isArray(node.formerNames));
+};
+const taxonomy: Check = (v) =>
+  Array.isArray(v) && v.every((m) => categoryNode(m) && Array.isArray(m.subs) && m.subs.every(categoryNode))
+    ? null
+    : "expected a list of { name, subs: [{ name }] }";
+
+/** Report every field that doesn't match its shape; true when the record is usable */
+const checkShape = (value: unknown, shape: Shape, path: string, issues: ImportIssue[]) => {
+  if (!value || typeof value !== "object") {
+    issues.push({ path, message: "expected an object" });
+    return false;
+  }
+  const rec = value as Record<string, unknown>;
+  let ok = true;
+  for (const [key, check] of Object.entries(shape)) {
+    const message = check(rec[key]);
+    if (message) {
+      issues.push({ path: `${path}.${key}`, message });
+      ok = false;
+    }
+  }
+  return ok;
+};
+
+/** Keep the valid entries of a record list, reporting the rest and any duplicate IDs */
+const checkList = <T extends { id: string }>(value: unknown, shape: Shape, path: string, issues: ImportIssue[]): T[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "expected a list" });
+    return [];
+  }
+  const seen = new Set<string>();
+  return value.filter((item, i): item is T => {
+    if (!checkShape(item, shape, `${path}[${i}]`, issues)) return false;
+    if (seen.has(item.id)) {
+      issues.push({ path: `${path}[${i}].id`, message: `duplicate id "${item.id}"` });
+      return false;
+    }
+    seen.add(item.id);
+    return true;
+  });
+};
+
+/** A case's record lists, each cut down to the entries that fit */
+const checkCaseRecords = (c: Case, path: string, issues: ImportIssue[]): Case => ({
+  ...c,
+  accounts: checkList<Account>(c.accounts, accountShape, `${path}.accounts`, issues),
+  expenses: checkList<Expense>(c.expenses, expenseShape, `${path}.expenses`, issues),
+  payments: checkList<Payment>(c.payments, paymentShape, `${path}.payments`, issues),
+  transfers: checkList<Transfer>(c.transfers, transferShape, `${path}.transfers`, issues),
+  history: checkList<ChangeEntry>(c.history, historyShape, `${path}.history`, issues),
+  plannedExpenses: checkList<PlannedExpense>(c.plannedExpenses, plannedExpenseShape, `${path}.plannedExpenses`, issues),
+  reminderLog: checkList<ReminderLogEntry>(c.reminderLog, reminderLogShape, `${path}.reminderLog`, issues),
+  reminderSchedules: checkList<ReminderSchedule>(c.reminderSchedules, scheduleShape, `${path}.reminderSchedules`, issues),
+  donorPayables: checkList<DonorPayable>(c.donorPayables, payableShape, `${path}.donorPayables`, issues),
+  reconciliations: checkList<Reconciliation>(c.reconciliations, reconciliationShape, `${path}.reconciliations`, issues),
+});
+
+export type CheckedWorkspace = {
+  cases: Case[];
+  rates: FxRate[];
+  templates: PlanTemplate[];
+  stages: LifecycleStage[];
+  taxonomy: Taxonomy;
+  rules: CategoryRule[];
+  reminderTemplates: ReminderTemplate[];
+  /** missing when the document settings were unusable */
+  documents?: DocumentSettings;
+  /** missing when the calendar settings were unusable */
+  calendar?: CalendarSettings;
+  issues: ImportIssue[];
+};
+
+/** The shared part of a migrated workspace, cut down to the rows that fit */
+export const checkWorkspace = (ws: Workspace): CheckedWorkspace => {
+  const issues: ImportIssue[] = [];
+  const cases = checkList<Case>(ws.cases, caseShape, "cases", issues).map((c, i) => checkCaseRecords(c, `cases[${i}]`, issues));
+  const rates = checkList<FxRate>(ws.rates, rateShape, "rates", issues);
+  const templates = checkList<PlanTemplate>(ws.templates, templateShape, "templates", issues);
+  const stages = checkList<LifecycleStage>(ws.stages, stageShape, "stages", issues);
+  const taxonomyIssue = taxonomy(ws.taxonomy);
+  if (taxonomyIssue) issues.push({ path: "taxonomy", message: taxonomyIssue });
+  const rules = checkList<CategoryRule>(ws.rules, ruleShape, "rules", issues);
+  const reminderTemplates = checkList<ReminderTemplate>(ws.reminderTemplates, reminderTemplateShape, "reminderTemplates", issues);
+  const documents = checkShape(ws.documents, documentShape, "documents", issues) ? ws.documents : undefined;
+  const calendar = checkShape(ws.calendar, calendarShape, "calendar", issues) ? ws.calendar : undefined;
+  return { cases, rates, templates, stages, taxonomy: taxonomyIssue ? [] : ws.taxonomy, rules, reminderTemplates, documents, calendar, issues };
+};
+
+/** Everything wrong with a single case, its records included; empty when it is usable as it is */
+export const caseIssues = (value: unknown): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  if (checkShape(value, caseShape, "case", issues)) checkCaseRecords(value as Case, "case", issues);
+  return issues;
+};
+
+/** Everything wrong with a single expense or payment */
+export const recordIssues = (list: "expenses" | "payments", value: unknown): ImportIssue[] => {
+  const issues: ImportIssue[] = [];
+  checkShape(value, list === "expenses" ? expenseShape : paymentShape, list.slice(0, -1), issues);
+  return issues;
+};
+
+/** "cases[0].expenses: expected a list; …", the first few of them */
+export const describeIssues = (issues: ImportIssue[], max = 5) =>
+  [...issues.slice(0, max).map((i) => `${i.path}: ${i.message}`), ...(issues.length > max ? [`${issues.length - max} more`] : [])].join("; ");
+
+export type ParsedBackup = Omit<CheckedWorkspace, "issues"> & {
+  outbox: OutboxMessage[];
+  files: BackupFile[];
+  issues: ImportIssue[];
+};
+
+/** Parse a backup file, migrate it to the current schema and drop rows that don't fit */
+export const parseBackup = (text: string): ParsedBackup => {
+  let ws: Workspace;
+  try {
+    ws = migrate(JSON.parse(text));
+  } catch (err) {
+    return { cases: [], rates: [], templates: [], stages: [], taxonomy: [], rules: [], reminderTemplates: [], outbox: [], files: [], issues: [{ path: "$", message: (err as Error).message }] };
+  }
+
+  const { issues, ...checked } = checkWorkspace(ws);
+  const outbox = checkList<OutboxMessage>(ws.outbox, outboxShape, "outbox", issues);
+  // files ride along in the backup but aren't workspace data; older backups have none
+  const rawFiles = (ws as { files?: unknown }).files;
+  // a file is only stored as the type its attachment says it is, so it can't turn into a page that runs script
+  const types = new Map(checked.cases.flatMap((c) => c.expenses.flatMap((e) => (e.attachments || []).map((a) => [a.id, a.type] as const))));
+  const files = (rawFiles === undefined ? [] : checkList<BackupFile>(rawFiles, fileShape, "files", issues)).filter((f, i) => {
+    if (dataUrlType(f.dataUrl) === types.get(f.id)) return true;
+    issues.push({ path: `files[${i}]`, message: types.has(f.id) ? `file type doesn't match attachment "${f.id}"` : `no attachment "${f.id}" refers to this file` });
+    return false;
+  });
+  // delivery settings are per install and never taken from a file
+  return { ...checked, outbox, files, issues };
+};
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { caseKpis, categorySpend, monthSummaries, overdueInvoices, periodSummaries } from "../src/engine";
+import { reportingConverter } from "../src/ledger";
+import { baseCase, expense, invoice, RATES, receipt } from "./fixtures";
+
+const TODAY = "2026-04-20";
+
+// Seen from TODAY, with 7 days' due window, 3 days' grace and missed 30 days after that.
+const chasing = baseCase({
+  expenses: [expense("e-1", "2026-03-30", 80), expense("e-2", "2026-04-02", 100, { currency: "EUR" }), expense("e-3", "2026-04-18", 40)],
+  payments: [
+    invoice("due", "2026-04-25", 200),
+    invoice("upcoming", "2026-05-10", 100),
+    invoice("overdue", "2026-04-10", 300),
+    invoice("missed", "2026-03-01", 400, { currency: "EUR" }),
+    invoice("settled", "2026-04-01", 250, { status: "completed", paidOn: "2026-04-02" }),
+    invoice("allocated", "2026-04-12", 150),
+    receipt("r-1", "2026-04-15", 250, { allocations: [{ invoiceId: "overdue", amount: 100 }, { invoiceId: "allocated", amount: 150 }] }),
+  ],
+});
+
+describe("caseKpis", () => {
+  it("counts invoices due soon and past due, and this month's spending", () => {
+    assert.deepEqual(caseKpis(chasing, reportingConverter(chasing, RATES), TODAY), { dueSoon: 1, overdue: 2, monthSpend: 125 + 40 });
+  });
+
+  it("follows a status pinned by hand", () => {
+    const pinned = { ...chasing, payments: chasing.payments.map((p) => (p.id === "upcoming" ? { ...p, statusOverride: "overdue" as const } : p)) };
+    assert.equal(caseKpis(pinned, reportingConverter(pinned, RATES), TODAY).overdue, 3);
+  });
+});
+
+describe("overdueInvoices", () => {
+  it("lists overdue and missed invoices with what is still owed, oldest first", () => {
+    const rows = overdueInvoices(chasing, reportingConverter(chasing, RATES), TODAY).map(({ payment, ...row }) => ({ id: payment.id, ...row }));
+    assert.deepEqual(rows, [
+      { id: "missed", stage: "missed", daysLate: 50, remaining: 400, currency: "EUR", converted: 500 },
+      { id: "overdue", stage: "overdue", daysLate: 10, remaining: 200, currency: "USD", converted: 200 },
+    ]);
+  });
+
+  it("is empty once everything is paid", () => {
+    const paid = baseCase({ payments: [invoice("inv-1", "2026-03-01", 400, { status: "completed", paidOn: "2026-03-01" })] });
+    assert.deepEqual(overdueInvoices(paid, reportingConverter(paid, RATES), TODAY), []);
+  });
+});
+
+describe("categorySpend", () => {
+  const spending = baseCase({
+    expenses: [
+      expense("e-1", "2026-03-05", 300, { category: "Travel", subCategory: "Flight" }),
+      expense("e-2", "2026-04-02", 100, { category: "Travel", subCategory: "Flight", currency: "EUR" }),
+      expense("e-3", "2026-04-10", 200, { category: "Medical" }),
+      expense("e-4", "2026-04-15", 50, { category: "Travel" }),
+    ],
+  });
+  const fx = reportingConverter(spending, RATES);
+
+  it("totals each category and subcategory, largest first", () => {
+    assert.deepEqual(categorySpend(spending, fx), [
+      { category: "Travel", subCategory: "Flight", count: 2, amount: 425 },
+      { category: "Medical", subCategory: undefined, count: 1, amount: 200 },
+      { category: "Travel", subCategory: undefined, count: 1, amount: 50 },
+    ]);
+  });
+
+  it("only counts expenses between the two dates, both included", () => {
+    assert.deepEqual(
+      categorySpend(spending, fx, "2026-04-02", "2026-04-10").map((l) => [l.category, l.subCategory, l.amount]),
+      [["Medical", undefined, 200], ["Travel", "Flight", 125]],
+    );
+  });
+});
+
+// Invoiced in February and March, money in during March, spending in January and March.
+const flows = baseCase({
+  expenses: [expense("e-1", "2026-03-02", 100, { currency: "EUR" }), expense("e-2", "2026-01-20", 50)],
+  payments: [
+    invoice("inv-1", "2026-03-31", 1000),
+    invoice("inv-2", "2026-02-28", 300, { status: "completed", paidOn: "2026-03-01" }),
+    receipt("r-1", "2026-03-10", 600, { allocations: [{ invoiceId: "inv-1", amount: 400 }] }),
+  ],
+});
+
+describe("monthSummaries", () => {
+  it("totals invoices by due date, money by the day it arrived and expenses by date", () => {
+    assert.deepEqual(monthSummaries(flows, reportingConverter(flows, RATES)), [
+      { month: "2026-01", invoiced: 0, received: 0, paidOut: 50, net: -50 },
+      { month: "2026-02", invoiced: 300, received: 0, paidOut: 0, net: 0 },
+      { month: "2026-03", invoiced: 1000, received: 900, paidOut: 125, net: 775 },
+    ]);
+  });
+});
+
+describe("periodSummaries", () => {
+  const fx = reportingConverter(flows, RATES);
+
+  it("lists every fiscal quarter from the first record to today, quiet ones included", () => {
+    assert.deepEqual(periodSummaries(flows, fx, 7, "quarter", "2026-08-15"), [
+      { period: "FY2026-Q3", from: "2026-01-01", to: "2026-03-31", invoiced: 1300, received: 900, paidOut: 175, net: 725 },
+      { period: "FY2026-Q4", from: "2026-04-01", to: "2026-06-30", invoiced: 0, received: 0, paidOut: 0, net: 0 },
+      { period: "FY2027-Q1", from: "2026-07-01", to: "2026-09-30", invoiced: 0, received: 0, paidOut: 0, net: 0 },
+    ]);
+  });
+
+  it("matches the calendar months when the fiscal year starts in January", () => {
+    const months = periodSummaries(flows, fx, 1, "month", "2026-03-20");
+    assert.deepEqual(months.map((m) => m.period), ["FY2026-M01", "FY2026-M02", "FY2026-M03"]);
+    assert.deepEqual(
+      months.map(({ invoiced, received, paidOut, net }) => ({ invoiced, received, paidOut, net })),
+      monthSummaries(flows, fx).map(({ invoiced, received, paidOut, net }) => ({ invoiced, received, paidOut, net })),
+    );
+  });
+});
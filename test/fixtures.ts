@@ -0,0 +1,57 @@
+import type { FxRate } from "../src/ledger";
+import type { Case, Expense, Payment } from "../src/model";
+
+/* =========================
+   Test fixtures
+   ========================= */
+// A USD case with a checking and a savings account; tests add the records they need.
+
+export const baseCase = (overrides: Partial<Case> = {}): Case => ({
+  id: "case-1",
+  code: "1001",
+  client: "Client",
+  donor: "Donor",
+  reportingCurrency: "USD",
+  accounts: [
+    { id: "acc-checking", name: "Checking", balance: 1000 },
+    { id: "acc-savings", name: "Savings", balance: 500 },
+  ],
+  expenses: [],
+  payments: [],
+  transfers: [],
+  history: [],
+  statusRules: { dueWindowDays: 7, graceDays: 3, missedAfterDays: 30 },
+  lifecycle: {},
+  categoryBudgets: {},
+  plannedExpenses: [],
+  reminderLog: [],
+  contactEmails: [],
+  reminderSchedules: [],
+  donorPayables: [],
+  reconciliations: [],
+  ...overrides,
+});
+
+export const expense = (id: string, date: string, amount: number, fields: Partial<Expense> = {}): Expense => ({
+  id,
+  date,
+  amount,
+  category: "Misc",
+  accountId: "acc-checking",
+  ...fields,
+});
+
+export const invoice = (id: string, dueDate: string, amount: number, fields: Partial<Payment> = {}): Payment => ({
+  id,
+  dueDate,
+  amount,
+  accountId: "acc-checking",
+  status: "upcoming",
+  ...fields,
+});
+
+export const receipt = (id: string, paidOn: string, amount: number, fields: Partial<Payment> = {}): Payment =>
+  invoice(id, paidOn, amount, { kind: "receipt", status: "completed", paidOn, ...fields });
+
+/** 1 EUR = 1.25 USD from January 2026 */
+export const RATES: FxRate[] = [{ id: "fx-1", date: "2026-01-01", from: "EUR", to: "USD", rate: 1.25 }];
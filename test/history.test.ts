@@ -0,0 +1,22 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffFields, updateRecord } from "../src/history";
+import { baseCase, expense, receipt } from "./fixtures";
+
+describe("diffFields", () => {
+  it("compares lists and objects by content", () => {
+    const r = receipt("r-1", "2026-03-02", 100, { allocations: [{ invoiceId: "inv-1", amount: 100 }] });
+    assert.deepEqual(diffFields(r, { ...r, allocations: [{ invoiceId: "inv-1", amount: 100 }] }), []);
+    assert.deepEqual(diffFields(r, { ...r, allocations: [{ invoiceId: "inv-1", amount: 60 }] }), [
+      { field: "allocations", from: [{ invoiceId: "inv-1", amount: 100 }], to: [{ invoiceId: "inv-1", amount: 60 }] },
+    ]);
+  });
+});
+
+describe("updateRecord", () => {
+  it("logs nothing when a patch only rebuilds a list with the same content", () => {
+    const e = expense("e-1", "2026-03-02", 80, { attachments: [{ id: "f-1", name: "receipt.pdf", type: "application/pdf", size: 10, addedAt: "2026-03-02T10:00:00.000Z" }] });
+    const c = baseCase({ expenses: [e] });
+    assert.equal(updateRecord(c, "expense", "e-1", { attachments: e.attachments!.map((a) => ({ ...a })) }), c);
+  });
+});
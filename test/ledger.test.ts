@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { balancesByAccount, caseTotals, receiptAllocated, receiptCredit, reportingConverter } from "../src/ledger";
+import { baseCase, expense, invoice, RATES, receipt } from "./fixtures";
+
+// An invoice part-paid by a receipt that also leaves credit, one settled by hand, a
+// euro expense, a dollar expense and a transfer between the two accounts.
+const c = baseCase({
+  expenses: [expense("e-1", "2026-03-02", 100, { currency: "EUR" }), expense("e-2", "2026-03-05", 50)],
+  payments: [
+    invoice("inv-1", "2026-03-31", 1000),
+    invoice("inv-2", "2026-02-28", 300, { status: "completed", paidOn: "2026-03-01" }),
+    receipt("r-1", "2026-03-10", 600, { accountId: "acc-savings", allocations: [{ invoiceId: "inv-1", amount: 400 }] }),
+  ],
+  transfers: [{ id: "t-1", date: "2026-03-15", fromAccountId: "acc-checking", toAccountId: "acc-savings", amount: 200 }],
+});
+
+describe("balancesByAccount", () => {
+  it("starts from each account's balance and applies expenses, money received and transfers", () => {
+    assert.deepEqual(balancesByAccount(c, reportingConverter(c, RATES)), {
+      "acc-checking": 1000 - 125 - 50 + 300 - 200,
+      "acc-savings": 500 + 600 + 200,
+    });
+  });
+
+  it("counts nothing for an invoice that hasn't been paid", () => {
+    const unpaid = baseCase({ payments: [invoice("inv-1", "2026-03-31", 1000)] });
+    assert.deepEqual(balancesByAccount(unpaid, reportingConverter(unpaid, RATES)), { "acc-checking": 1000, "acc-savings": 500 });
+  });
+
+  it("counts an amount at face value and reports the currency when no rate is known", () => {
+    const pounds = baseCase({ expenses: [expense("e-1", "2026-03-02", 40, { currency: "GBP" })] });
+    const fx = reportingConverter(pounds, RATES);
+    assert.equal(balancesByAccount(pounds, fx)["acc-checking"], 960);
+    assert.deepEqual([...fx.missing], ["GBP"]);
+  });
+});
+
+describe("caseTotals", () => {
+  it("splits money received, still expected, held as credit and paid out", () => {
+    assert.deepEqual(caseTotals(c, reportingConverter(c, RATES)), {
+      receivedIn: 600 + 300,
+      expectedIn: 1000 - 400,
+      clientCredit: 600 - 400,
+      paidOut: 125 + 50,
+    });
+  });
+
+  it("ignores allocations to invoices that have been deleted", () => {
+    const orphaned = { ...c, payments: c.payments.filter((p) => p.id !== "inv-1") };
+    const totals = caseTotals(orphaned, reportingConverter(orphaned, RATES));
+    assert.equal(totals.expectedIn, 0);
+    assert.equal(totals.clientCredit, 600);
+  });
+});
+
+describe("receiptAllocated", () => {
+  it("counts allocations to invoices that still exist; the rest of the receipt is credit", () => {
+    const r = receipt("r-1", "2026-03-02", 300, { allocations: [{ invoiceId: "inv-1", amount: 200 }, { invoiceId: "inv-gone", amount: 50 }] });
+    const c = baseCase({ payments: [invoice("inv-1", "2026-03-31", 250), r] });
+    assert.equal(receiptAllocated(c, r), 200);
+    assert.equal(receiptCredit(c, r), 100);
+  });
+});
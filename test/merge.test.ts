@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { describePath, same, setAtPath, threeWayMerge } from "../src/merge";
+import { baseCase, expense } from "./fixtures";
+
+/** Two people start from the same workspace with one case and two expenses */
+const base = { cases: [baseCase({ expenses: [expense("e-1", "2026-03-02", 80), expense("e-2", "2026-03-05", 40)] })] };
+const editExpense = (id: string, fields: object) => ({
+  cases: base.cases.map((c) => ({ ...c, expenses: c.expenses.map((e) => (e.id === id ? { ...e, ...fields } : e)) })),
+});
+const expenses = (ws: typeof base) => ws.cases[0].expenses.map((e) => [e.id, e.amount, e.note]);
+
+describe("same", () => {
+  it("compares by content and treats a missing field like an undefined one", () => {
+    assert.ok(same({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }));
+    assert.ok(same({ a: 1, b: undefined }, { a: 1 }));
+    assert.ok(!same([1, 2], [2, 1]));
+    assert.ok(!same({ a: [] }, { a: {} }));
+  });
+});
+
+describe("threeWayMerge", () => {
+  it("keeps both sides' edits to different fields of one record", () => {
+    const { merged, conflicts } = threeWayMerge(base, editExpense("e-1", { amount: 90 }), editExpense("e-1", { note: "Taxi" }));
+    assert.deepEqual(expenses(merged), [["e-1", 90, "Taxi"], ["e-2", 40, undefined]]);
+    assert.deepEqual(conflicts, []);
+  });
+
+  it("keeps records either side added and drops ones a side deleted without the other editing them", () => {
+    const local = { cases: [{ ...base.cases[0], expenses: [expense("e-3", "2026-03-09", 15), ...base.cases[0].expenses] }] };
+    const remote = { cases: [{ ...base.cases[0], expenses: base.cases[0].expenses.filter((e) => e.id !== "e-2") }] };
+    const { merged, conflicts } = threeWayMerge(base, local, remote);
+    assert.deepEqual(merged.cases[0].expenses.map((e) => e.id), ["e-3", "e-1"]);
+    assert.deepEqual(conflicts, []);
+  });
+
+  it("reports a field both sides changed differently and takes the preferred side", () => {
+    const local = editExpense("e-1", { amount: 90 });
+    const remote = editExpense("e-1", { amount: 95 });
+    const { merged, conflicts } = threeWayMerge(base, local, remote);
+    assert.equal(merged.cases[0].expenses[0].amount, 95);
+    assert.deepEqual(conflicts, [{ path: ["cases", "case-1", "expenses", "e-1", "amount"], base: 80, local: 90, remote: 95 }]);
+    assert.equal(threeWayMerge(base, local, remote, "local").merged.cases[0].expenses[0].amount, 90);
+  });
+
+  it("reports a record deleted on one side and edited on the other", () => {
+    const local = { cases: [{ ...base.cases[0], expenses: base.cases[0].expenses.filter((e) => e.id !== "e-2") }] };
+    const remote = editExpense("e-2", { amount: 45 });
+    const { merged, conflicts } = threeWayMerge(base, local, remote);
+    assert.deepEqual(conflicts.map((c) => c.path), [["cases", "case-1", "expenses", "e-2"]]);
+    assert.deepEqual(merged.cases[0].expenses.map((e) => e.id), ["e-1", "e-2"]);
+    assert.deepEqual(threeWayMerge(base, local, remote, "local").merged.cases[0].expenses.map((e) => e.id), ["e-1"]);
+  });
+
+  it("merges objects without ids as whole values", () => {
+    const settings = { documents: { prefix: "INV-", nextInvoiceNumber: 1 } };
+    const { conflicts } = threeWayMerge(settings, { documents: { prefix: "A-", nextInvoiceNumber: 1 } }, { documents: { prefix: "INV-", nextInvoiceNumber: 2 } });
+    assert.deepEqual(conflicts.map((c) => c.path), [["documents"]]);
+  });
+});
+
+describe("setAtPath", () => {
+  it("puts a value on a record found by id, and removes the record for undefined", () => {
+    const edited = setAtPath(base, ["cases", "case-1", "expenses", "e-2", "amount"], 41);
+    assert.deepEqual(expenses(edited), [["e-1", 80, undefined], ["e-2", 41, undefined]]);
+    assert.equal(base.cases[0].expenses[1].amount, 40);
+    assert.deepEqual(setAtPath(base, ["cases", "case-1", "expenses", "e-1"], undefined).cases[0].expenses.map((e) => e.id), ["e-2"]);
+  });
+});
+
+describe("describePath", () => {
+  it("joins the path for display", () => {
+    assert.equal(describePath(["cases", "c-1", "expenses", "e-2", "amount"]), "cases › c-1 › expenses › e-2 › amount");
+  });
+});
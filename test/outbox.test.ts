@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { emlFile, queueMessage, scheduledReminders } from "../src/outbox";
+import { logReminder, logSent } from "../src/reminders";
+import { caseStatuses } from "../src/status";
+import { baseCase, invoice } from "./fixtures";
+
+const message = (fields: Partial<Parameters<typeof queueMessage>[0]> = {}) =>
+  queueMessage({ caseId: "case-1", to: ["donor@example.com"], subject: "Payment reminder", body: "Hello", paymentIds: [], templateId: "t", templateName: "Reminder", ...fields });
+
+const headers = (eml: string) => eml.slice(0, eml.indexOf("\r\n\r\n"));
+
+/** Subject as a mail client reads it: unfolded, encoded words decoded and joined */
+const subjectOf = (eml: string) =>
+  headers(eml)
+    .replace(/\r\n /g, " ")
+    .match(/^Subject: (.*)$/m)![1]
+    .replace(/=\?UTF-8\?B\?([^?]*)\?=\s?/g, (_, b64: string) => Buffer.from(b64, "base64").toString("utf8"));
+
+describe("emlFile", () => {
+  it("leaves a plain ASCII subject as it is", () => {
+    assert.match(emlFile(message(), "billing@example.com"), /^Subject: Payment reminder$/m);
+  });
+
+  it("encodes a subject with non-ASCII characters in encoded words of at most 75 characters", () => {
+    const subject = "Payment reminder — donation #2026-0042 for the Müller–Schäfer family";
+    const eml = emlFile(message({ subject }), "billing@example.com");
+    assert.ok(/^[\x20-\x7e\r\n\t]*$/.test(headers(eml)));
+    assert.ok(headers(eml).split("\r\n").filter((l) => l.includes("=?")).every((l) => l.trim().replace(/^Subject: /, "").length <= 75));
+    assert.equal(subjectOf(eml), subject);
+  });
+
+  it("keeps line breaks in header values from starting new headers", () => {
+    const eml = emlFile(message({ subject: "Reminder\r\nBcc: everyone@example.com", to: ["donor@example.com\nCc: x@example.com"] }), "me@example.com\r\nX-Evil: 1");
+    assert.ok(!/^(Bcc|Cc|X-Evil):/m.test(headers(eml)));
+    assert.match(eml, /^Subject: Reminder Bcc: everyone@example.com$/m);
+  });
+});
+
+describe("scheduledReminders", () => {
+  const weekly = { id: "sched-1", templateId: "t", everyDays: 7, stages: ["overdue" as const] };
+  const c = baseCase({ payments: [invoice("inv-1", "2026-03-01", 100)], reminderSchedules: [weekly], contactEmails: ["donor@example.com"] });
+  const due = (x: typeof c) => scheduledReminders(x, [], (p) => caseStatuses(x, "2026-03-20")[p.id], "2026-03-20").map((d) => d.payments.map((p) => p.id));
+
+  it("queues an overdue invoice nobody has reminded", () => {
+    assert.deepEqual(due(c), [["inv-1"]]);
+  });
+
+  it("skips an invoice another browser queued, once its log entry has synced", () => {
+    const entry = { id: "rem-1", at: "2026-03-18T09:00:00.000Z", paymentIds: ["inv-1"], templateId: "t", templateName: "Reminder", channel: "queued" as const, text: "", messageId: "msg-other" };
+    assert.deepEqual(due({ ...c, reminderLog: [entry] }), []);
+    assert.deepEqual(due({ ...c, reminderLog: [{ ...entry, at: "2026-03-10T09:00:00.000Z" }] }), [["inv-1"]]);
+  });
+});
+
+describe("logSent", () => {
+  it("marks the entry a schedule queued as sent instead of logging the reminder twice", () => {
+    const entry = { paymentIds: ["inv-1"], templateId: "t", templateName: "Reminder", text: "Hello" };
+    const queued = logReminder(baseCase(), { ...entry, channel: "queued", messageId: "msg-1" });
+    assert.deepEqual(logSent(queued, "msg-1", entry).reminderLog.map((r) => [r.channel, r.messageId]), [["sent", "msg-1"]]);
+    assert.deepEqual(logSent(queued, "msg-2", entry).reminderLog.map((r) => [r.channel, r.messageId]), [["queued", "msg-1"], ["sent", "msg-2"]]);
+  });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_CALENDAR, lockedCaseChange, lockedCasesChange, lockedRatesChange, lockMonth } from "../src/periods";
+import { baseCase, expense, invoice, RATES } from "./fixtures";
+
+const march = lockMonth(DEFAULT_CALENDAR, "2026-03", "2026-04-02");
+const closed = baseCase({ id: "case-closed", expenses: [expense("e-1", "2026-03-10", 80)] });
+const open = baseCase({ id: "case-open", payments: [invoice("inv-1", "2026-04-30", 500)] });
+
+describe("lockedCasesChange", () => {
+  it("refuses deleting a case with records in a closed month", () => {
+    assert.equal(lockedCasesChange(march, [closed, open], [open])?.month, "2026-03");
+    assert.equal(lockedCasesChange(march, [closed, open], [closed]), undefined);
+  });
+
+  it("refuses adding a case with records in a closed month", () => {
+    assert.equal(lockedCasesChange(march, [open], [open, closed])?.month, "2026-03");
+  });
+
+  it("refuses rewriting a record in a closed month on any case", () => {
+    const renamed = { ...closed, expenses: closed.expenses.map((e) => ({ ...e, category: "Other" })) };
+    assert.equal(lockedCasesChange(march, [closed, open], [renamed, open])?.month, "2026-03");
+  });
+
+  it("allows everything when no month is closed", () => {
+    assert.equal(lockedCasesChange(DEFAULT_CALENDAR, [closed, open], []), undefined);
+  });
+});
+
+describe("lockedCaseChange", () => {
+  const transfer = { id: "t-1", date: "2026-03-15", fromAccountId: "acc-checking", toAccountId: "acc-savings", amount: 100 };
+  const payable = { id: "dp-1", kind: "compensation" as const, description: "Installment 1", amount: 500, category: "Donor Compensation", date: "2026-04-05", status: "scheduled" as const };
+
+  it("refuses adding, changing or deleting a transfer in a closed month", () => {
+    const withTransfer = baseCase({ transfers: [transfer] });
+    assert.equal(lockedCaseChange(march, baseCase(), withTransfer)?.month, "2026-03");
+    assert.equal(lockedCaseChange(march, withTransfer, baseCase({ transfers: [{ ...transfer, amount: 200 }] }))?.month, "2026-03");
+    assert.equal(lockedCaseChange(march, withTransfer, baseCase())?.month, "2026-03");
+    assert.equal(lockedCaseChange(march, baseCase(), baseCase({ transfers: [{ ...transfer, date: "2026-04-01" }] })), undefined);
+  });
+
+  it("refuses a donor payable dated or decided in a closed month", () => {
+    assert.equal(lockedCaseChange(march, baseCase(), baseCase({ donorPayables: [{ ...payable, date: "2026-03-20" }] }))?.month, "2026-03");
+    const open = baseCase({ donorPayables: [payable] });
+    assert.equal(lockedCaseChange(march, open, baseCase({ donorPayables: [{ ...payable, status: "posted", decidedOn: "2026-03-31" }] }))?.month, "2026-03");
+    assert.equal(lockedCaseChange(march, open, baseCase({ donorPayables: [{ ...payable, status: "posted", decidedOn: "2026-04-06" }] })), undefined);
+  });
+});
+
+describe("lockedRatesChange", () => {
+  it("refuses adding, changing or deleting a rate dated in a closed month", () => {
+    const rate = { id: "fx-2", date: "2026-03-10", from: "GBP", to: "USD", rate: 1.3 };
+    assert.equal(lockedRatesChange(march, RATES, [...RATES, rate])?.month, "2026-03");
+    assert.equal(lockedRatesChange(march, [...RATES, rate], RATES)?.month, "2026-03");
+    assert.equal(lockedRatesChange(march, RATES, [...RATES, { ...rate, date: "2026-04-10" }]), undefined);
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyPlan, planSchedule, shiftPlanDates, type PlanTemplate } from "../src/plans";
+import { baseCase, receipt } from "./fixtures";
+
+const template: PlanTemplate = {
+  id: "plan-test",
+  name: "Test plan",
+  installments: [
+    { label: "Deposit", unit: "percent", value: 25, offsetDays: 0 },
+    { label: "Balance", unit: "percent", value: 75, offsetDays: 30 },
+    { label: "Admin fee", unit: "amount", value: 50, offsetDays: 30 },
+  ],
+};
+const opts = { startDate: "2026-03-01", total: 1000, currency: "USD", accountId: "acc-checking" };
+
+const steps = (c: ReturnType<typeof baseCase>) =>
+  c.payments.filter((p) => p.plan).map((p) => [p.plan!.label, p.dueDate, p.amount]).sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+
+describe("planSchedule", () => {
+  it("dates each installment from the start and takes percentages of the total", () => {
+    assert.deepEqual(planSchedule(template, "2026-03-01", 1000).map((s) => [s.label, s.dueDate, s.amount]), [
+      ["Deposit", "2026-03-01", 250],
+      ["Balance", "2026-03-31", 750],
+      ["Admin fee", "2026-03-31", 50],
+    ]);
+  });
+});
+
+describe("applyPlan", () => {
+  const planned = applyPlan(baseCase(), template, opts);
+
+  it("generates one invoice per installment", () => {
+    assert.deepEqual(steps(planned), [["Admin fee", "2026-03-31", 50], ["Balance", "2026-03-31", 750], ["Deposit", "2026-03-01", 250]]);
+    assert.equal(planned.startDate, "2026-03-01");
+    assert.deepEqual(planned.history, []);
+  });
+
+  it("keeps installments with money against them or an issued invoice, and logs the ones it replaces", () => {
+    const deposit = planned.payments.find((p) => p.plan!.label === "Deposit")!;
+    const fee = planned.payments.find((p) => p.plan!.label === "Admin fee")!;
+    const balance = planned.payments.find((p) => p.plan!.label === "Balance")!;
+    const worked = {
+      ...planned,
+      payments: [
+        ...planned.payments.map((p) => (p.id === fee.id ? { ...p, invoiceNumber: "INV-0001", issuedOn: "2026-03-01" } : p)),
+        receipt("r-1", "2026-03-02", 100, { allocations: [{ invoiceId: deposit.id, amount: 100 }] }),
+      ],
+    };
+    const again = applyPlan(worked, template, { ...opts, startDate: "2026-04-01", total: 2000 });
+    assert.ok(again.payments.some((p) => p.id === deposit.id && p.dueDate === "2026-03-01"));
+    assert.ok(again.payments.some((p) => p.id === fee.id && p.invoiceNumber === "INV-0001" && p.dueDate === "2026-03-31"));
+    assert.ok(!again.payments.some((p) => p.id === balance.id));
+    assert.deepEqual(steps(again), [["Admin fee", "2026-03-31", 50], ["Balance", "2026-05-01", 1500], ["Deposit", "2026-03-01", 250]]);
+    assert.deepEqual(again.history.map((h) => [h.action, h.recordId]), [["delete", balance.id]]);
+  });
+});
+
+describe("shiftPlanDates", () => {
+  it("moves untouched installments with the start date, logging each move, and leaves issued invoices alone", () => {
+    const planned = applyPlan(baseCase(), template, opts);
+    const fee = planned.payments.find((p) => p.plan!.label === "Admin fee")!;
+    const issued = { ...planned, payments: planned.payments.map((p) => (p.plan!.label === "Admin fee" ? { ...p, invoiceNumber: "INV-0001" } : p)) };
+    const moved = shiftPlanDates(issued, "2026-03-11");
+    assert.equal(moved.startDate, "2026-03-11");
+    assert.deepEqual(steps(moved), [["Admin fee", "2026-03-31", 50], ["Balance", "2026-04-10", 750], ["Deposit", "2026-03-11", 250]]);
+    assert.deepEqual(moved.history.map((h) => h.action), ["update", "update"]);
+    assert.ok(moved.history.every((h) => h.recordId !== fee.id));
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { reportingConverter } from "../src/ledger";
+import { accountLines, changesBalance, clearedIn, lockReconciliation, reconcileState, startReconciliation, toggleCleared } from "../src/reconcile";
+import { baseCase, expense, RATES, receipt } from "./fixtures";
+
+/** Checking starts at 1000: a 80 taxi, a 300 client payment and 200 moved to savings in March */
+const c = baseCase({
+  expenses: [expense("e-1", "2026-03-02", 80, { note: "Taxi" }), expense("e-2", "2026-04-03", 50)],
+  payments: [receipt("r-1", "2026-03-05", 300)],
+  transfers: [{ id: "t-1", date: "2026-03-10", fromAccountId: "acc-checking", toAccountId: "acc-savings", amount: 200 }],
+});
+const fx = reportingConverter(c, RATES);
+
+/** Start on checking for a March statement and tick the given lines */
+const reconcile = (statementBalance: number, ids: string[]) => {
+  const started = startReconciliation(c, "acc-checking", "2026-03-31", statementBalance);
+  const id = started.reconciliations[0].id;
+  return { id, c: ids.reduce((x, recordId) => toggleCleared(x, id, recordId), started) };
+};
+
+describe("accountLines", () => {
+  it("lists each account's money in and out, signed, by date", () => {
+    assert.deepEqual(accountLines(c, fx, "acc-checking").map((l) => [l.id, l.amount, l.description]), [
+      ["e-1", -80, "Taxi"],
+      ["r-1", 300, "Client payment"],
+      ["t-1", -200, "Transfer to Savings"],
+      ["e-2", -50, "Misc"],
+    ]);
+    assert.deepEqual(accountLines(c, fx, "acc-savings").map((l) => [l.id, l.amount]), [["t-1", 200]]);
+  });
+});
+
+describe("reconcileState", () => {
+  it("offers lines up to the statement date and shows what is left to match", () => {
+    const { id, c: ticked } = reconcile(1020, ["e-1", "r-1"]);
+    const state = reconcileState(ticked, fx, ticked.reconciliations.find((r) => r.id === id)!);
+    assert.deepEqual(state.lines.map((l) => l.id), ["e-1", "r-1", "t-1"]);
+    assert.equal(state.clearedBalance, 1220);
+    assert.equal(state.difference, -200);
+    assert.equal(state.balanced, false);
+  });
+});
+
+describe("lockReconciliation", () => {
+  it("won't lock while there is a difference", () => {
+    const { id, c: ticked } = reconcile(1020, ["e-1", "r-1"]);
+    assert.equal(lockReconciliation(ticked, fx, id), ticked);
+  });
+
+  it("locks a balanced reconciliation, and the next one opens where it ended without its lines", () => {
+    const { id, c: ticked } = reconcile(1020, ["e-1", "r-1", "t-1"]);
+    const done = lockReconciliation(ticked, fx, id);
+    const r = done.reconciliations[0];
+    assert.ok(r.lockedOn);
+    assert.deepEqual(r.lines!.map((l) => l.id), ["e-1", "r-1", "t-1"]);
+    assert.equal(clearedIn(done, "t-1")?.id, id);
+    assert.equal(clearedIn(done, "e-2"), undefined);
+
+    const next = startReconciliation(done, "acc-checking", "2026-04-30", 970);
+    const april = next.reconciliations[1];
+    assert.equal(april.opening, 1020);
+    assert.deepEqual(reconcileState(next, fx, april).lines.map((l) => l.id), ["e-2"]);
+  });
+});
+
+describe("changesBalance", () => {
+  it("is true only for edits to fields that move money", () => {
+    const e = c.expenses[0];
+    assert.equal(changesBalance(e, { amount: 90 }), true);
+    assert.equal(changesBalance(e, { amount: 80, note: "Cab" }), false);
+  });
+});
@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toCsv } from "../src/report";
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes or line breaks", () => {
+    assert.equal(toCsv([["Taxi, airport", 'The "clinic"', "two\nlines"]]), '"Taxi, airport","The ""clinic""","two\nlines"');
+  });
+
+  it("opens text a spreadsheet would run as a formula as plain text", () => {
+    assert.equal(toCsv([["=HYPERLINK(\"http://x\")", "+1", "-A1", "@SUM(A1)", "\tx"]]), `"'=HYPERLINK(""http://x"")",'+1,'-A1,'@SUM(A1),'\tx`);
+  });
+
+  it("leaves numbers and negative amounts alone", () => {
+    assert.equal(toCsv([[-12.5, "-12.50", "42.00", "Refund"]]), "-12.5,-12.50,42.00,Refund");
+  });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { suggestCategory, type CategoryRule } from "../src/rules";
+import { DEFAULT_TAXONOMY, type Taxonomy } from "../src/taxonomy";
+
+const keyword = (pattern: string, main: string, sub?: string, fields: Partial<CategoryRule> = {}): CategoryRule => ({
+  id: `rule-${pattern}`,
+  match: "keyword",
+  pattern,
+  main,
+  sub,
+  ...fields,
+});
+const regex = (pattern: string, main: string, sub?: string): CategoryRule => ({ ...keyword(pattern, main, sub), match: "regex" });
+
+const near = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+describe("suggestCategory", () => {
+  it("falls back to Misc with no confidence when nothing matches", () => {
+    assert.deepEqual(suggestCategory([keyword("hotel", "Travel", "Accommodation")], DEFAULT_TAXONOMY, "Courier to clinic"), { main: "Misc", confidence: 0 });
+  });
+
+  it("takes the first matching rule, trusting keywords more than regexes", () => {
+    const byKeyword = suggestCategory([keyword("hotel", "Travel", "Accommodation")], DEFAULT_TAXONOMY, "Hotel in Berlin");
+    assert.deepEqual([byKeyword.main, byKeyword.sub, byKeyword.rule?.id, byKeyword.confidence], ["Travel", "Accommodation", "rule-hotel", 0.9]);
+    const byRegex = suggestCategory([regex("hot(el|al)", "Travel", "Accommodation")], DEFAULT_TAXONOMY, "Hotel in Berlin");
+    assert.equal(byRegex.confidence, 0.75);
+  });
+
+  it("matches keywords as whole words only, ignoring case", () => {
+    const rules = [keyword("uber", "Travel", "Ground Transport")];
+    assert.equal(suggestCategory(rules, DEFAULT_TAXONOMY, "UBER to airport").main, "Travel");
+    assert.equal(suggestCategory(rules, DEFAULT_TAXONOMY, "Ubereats dinner").main, "Misc");
+  });
+
+  it("is surer when an amount range matched too, and skips rules whose range doesn't fit", () => {
+    const rules = [keyword("clinic", "Medical", undefined, { minAmount: 100, maxAmount: 500 }), keyword("clinic", "Misc")];
+    const inRange = suggestCategory(rules, DEFAULT_TAXONOMY, "Clinic visit", 250);
+    assert.equal(inRange.main, "Medical");
+    near(inRange.confidence, 1 * 0.7);
+    const outOfRange = suggestCategory(rules, DEFAULT_TAXONOMY, "Clinic visit", 900);
+    assert.deepEqual([outOfRange.main, outOfRange.confidence], ["Misc", 0.9]);
+  });
+
+  it("is less sure when other matching rules disagree", () => {
+    const rules = [regex("flight", "Travel", "Flight"), keyword("flight", "Travel", "Companion flight")];
+    const s = suggestCategory(rules, DEFAULT_TAXONOMY, "Flight for companion");
+    assert.deepEqual([s.main, s.sub], ["Travel", "Flight"]);
+    near(s.confidence, 0.75 * 0.7);
+  });
+
+  it("skips disabled and empty rules", () => {
+    const rules = [keyword("hotel", "Travel", "Accommodation", { disabled: true }), keyword("  ", "Essay"), keyword("hotel", "Misc")];
+    assert.equal(suggestCategory(rules, DEFAULT_TAXONOMY, "Hotel").rule?.id, "rule-hotel");
+    assert.equal(suggestCategory(rules, DEFAULT_TAXONOMY, "Hotel").main, "Misc");
+  });
+
+  it("lands on a category's current name after a rename or merge", () => {
+    const taxonomy: Taxonomy = [
+      { name: "Other", formerNames: ["Misc"], subs: [] },
+      { name: "Courier", formerNames: ["Shipping.Courier"], subs: [] },
+      { name: "Travel", subs: [{ name: "Flights", formerNames: ["Travel › Flight"] }] },
+    ];
+    assert.deepEqual(suggestCategory([], taxonomy, "anything"), { main: "Other", confidence: 0 });
+    assert.equal(suggestCategory([keyword("dhl", "Shipping.Courier")], taxonomy, "DHL parcel").main, "Courier");
+    const moved = suggestCategory([keyword("flight", "Travel", "Flight")], taxonomy, "Flight home");
+    assert.deepEqual([moved.main, moved.sub], ["Travel", "Flights"]);
+  });
+});
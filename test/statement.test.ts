@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { duplicateReason, guessMapping, guessMoneyOut, mapRows, parseAmount, parseCsv, parseDate, statementPostings, type StatementLine } from "../src/statement";
+import { expense } from "./fixtures";
+
+describe("parseCsv", () => {
+  it("reads quoted fields, escaped quotes and CRLF, and drops blank lines", () => {
+    assert.deepEqual(parseCsv('Date,Description,Amount\r\n2026-03-02,"Taxi, ""airport""",-42.50\r\n\r\n,,\n2026-03-04,"Two\nlines",300'), [
+      ["Date", "Description", "Amount"],
+      ["2026-03-02", 'Taxi, "airport"', "-42.50"],
+      ["2026-03-04", "Two\nlines", "300"],
+    ]);
+  });
+});
+
+describe("parseAmount", () => {
+  it("reads currency symbols, signs, parentheses and both separator styles", () => {
+    assert.equal(parseAmount("$1,234.50"), 1234.5);
+    assert.equal(parseAmount("+5000"), 5000);
+    assert.equal(parseAmount("-12"), -12);
+    assert.equal(parseAmount("12-"), -12);
+    assert.equal(parseAmount("(12.00)"), -12);
+    assert.equal(parseAmount("€ -1.234,50", "1.234,56"), -1234.5);
+  });
+
+  it("gives null for text that isn't an amount", () => {
+    assert.equal(parseAmount("n/a"), null);
+    assert.equal(parseAmount("1.2.3"), null);
+  });
+});
+
+describe("parseDate", () => {
+  it("reads each format into an ISO date", () => {
+    assert.equal(parseDate("2026-3-2", "YYYY-MM-DD"), "2026-03-02");
+    assert.equal(parseDate("03/02/2026", "MM/DD/YYYY"), "2026-03-02");
+    assert.equal(parseDate("02.03.2026", "DD/MM/YYYY"), "2026-03-02");
+  });
+
+  it("refuses dates that don't exist or don't fit the format", () => {
+    assert.equal(parseDate("2026-02-30", "YYYY-MM-DD"), null);
+    assert.equal(parseDate("13/02/2026", "MM/DD/YYYY"), null);
+    assert.equal(parseDate("March 2nd", "YYYY-MM-DD"), null);
+  });
+});
+
+describe("mapRows", () => {
+  const rows = [["Date", "Amount", "Details"], ["2026-03-02", "-42.50", " Taxi "], ["someday", "10", "?"], ["2026-03-04", "300", "Deposit"]];
+  const mapping = guessMapping(rows[0]);
+
+  it("guesses columns from the header and the direction from the signs", () => {
+    assert.deepEqual(mapping, { date: 0, amount: 1, description: 2 });
+    assert.equal(guessMoneyOut(rows, mapping, "1,234.56", true), "negative");
+    assert.equal(guessMoneyOut([["2026-03-02", "42.50", "Taxi"]], mapping, "1,234.56", false), "positive");
+  });
+
+  it("turns rows into positive amounts marked as credits, listing the lines it couldn't read", () => {
+    assert.deepEqual(mapRows(rows, mapping, { dates: "YYYY-MM-DD", numbers: "1,234.56", moneyOut: "negative", hasHeader: true }), {
+      parsed: [
+        { line: 2, date: "2026-03-02", amount: 42.5, credit: false, description: "Taxi" },
+        { line: 4, date: "2026-03-04", amount: 300, credit: true, description: "Deposit" },
+      ],
+      rejected: [3],
+    });
+  });
+});
+
+describe("duplicateReason", () => {
+  const row = { line: 2, date: "2026-03-02", amount: 42.5, credit: false, description: "Taxi to clinic" };
+
+  it("flags an expense with the same date and amount, or a very similar note", () => {
+    assert.match(duplicateReason(row, [expense("e-1", "2026-03-02", 42.5, { note: "Cab" })]) ?? "", /same date & amount as "Cab"/);
+    assert.match(duplicateReason(row, [expense("e-1", "2026-02-20", 40, { note: "taxi - to clinic" })]) ?? "", /similar to "taxi - to clinic" on 2026-02-20/);
+  });
+
+  it("passes a row nothing on the case resembles", () => {
+    assert.equal(duplicateReason(row, [expense("e-1", "2026-03-02", 80, { note: "Hotel" })]), null);
+  });
+});
+
+describe("statementPostings", () => {
+  const lines: StatementLine[] = [
+    { line: 2, date: "2026-03-02", amount: 42.5, credit: false, description: "Taxi to clinic", category: "Travel", subCategory: "Ground Transport" },
+    { line: 3, date: "2026-03-04", amount: 300, credit: true, description: "Client deposit", category: "Misc", subCategory: "" },
+  ];
+
+  it("posts money out as expenses and money in as received payments", () => {
+    assert.deepEqual(statementPostings(lines, "EUR", "acc-checking"), {
+      expenses: [{ date: "2026-03-02", amount: 42.5, currency: "EUR", note: "Taxi to clinic", category: "Travel", subCategory: "Ground Transport", accountId: "acc-checking" }],
+      receipts: [{ amount: 300, currency: "EUR", paidOn: "2026-03-04", accountId: "acc-checking" }],
+    });
+  });
+});
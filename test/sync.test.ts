@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { DEFAULT_DOCUMENT_SETTINGS, duplicateInvoiceNumbers } from "../src/documents";
+import { DEFAULT_CALENDAR } from "../src/periods";
+import { SCHEMA_VERSION } from "../src/schema";
+import { DEFAULT_SYNC, syncWorkspace, type SyncedData } from "../src/sync";
+import { DEFAULT_TAXONOMY } from "../src/taxonomy";
+import { baseCase, invoice } from "./fixtures";
+
+const data = (overrides: Partial<SyncedData> = {}): SyncedData => ({
+  cases: [baseCase()],
+  rates: [],
+  templates: [],
+  stages: [],
+  taxonomy: DEFAULT_TAXONOMY,
+  rules: [],
+  reminderTemplates: [],
+  documents: { ...DEFAULT_DOCUMENT_SETTINGS, nextInvoiceNumber: 5 },
+  calendar: DEFAULT_CALENDAR,
+  ...overrides,
+});
+
+/** Both browsers start from the same invoice; each issues it or another one while offline */
+const issued = (paymentId: string, nextInvoiceNumber: number) =>
+  data({
+    cases: [baseCase({ payments: [invoice("inv-1", "2026-03-31", 100), invoice("inv-2", "2026-04-30", 200)].map((p) => (p.id === paymentId ? { ...p, invoiceNumber: "INV-0005" } : p)) })],
+    documents: { ...DEFAULT_DOCUMENT_SETTINGS, nextInvoiceNumber },
+  });
+
+const realFetch = globalThis.fetch;
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+/** A server holding `workspace` at revision 1 that takes any push; the pushed body is kept */
+const serve = (workspace: unknown) => {
+  const pushed: unknown[] = [];
+  globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+    if (init?.method === "PUT") {
+      pushed.push(JSON.parse(String(init.body)));
+      return Response.json({ rev: 2 });
+    }
+    return Response.json({ rev: 1, workspace });
+  }) as typeof fetch;
+  return pushed;
+};
+
+describe("syncWorkspace", () => {
+  const base = { ...data({ cases: [baseCase({ payments: [invoice("inv-1", "2026-03-31", 100), invoice("inv-2", "2026-04-30", 200)] })] }), version: SCHEMA_VERSION };
+  const s = { ...DEFAULT_SYNC, serverUrl: "http://sync.test", rev: 1, base };
+
+  it("goes on from the higher invoice counter and lists numbers both sides gave out", async () => {
+    serve({ ...issued("inv-1", 6), version: SCHEMA_VERSION });
+    const { merged, conflicts } = await syncWorkspace(s, issued("inv-2", 7));
+    assert.equal(merged.documents.nextInvoiceNumber, 7);
+    assert.deepEqual(conflicts, []);
+    assert.deepEqual(
+      duplicateInvoiceNumbers(merged.cases).map((d) => [d.invoiceNumber, d.invoices.map((i) => i.payment.id)]),
+      [["INV-0005", ["inv-1", "inv-2"]]],
+    );
+  });
+
+  it("refuses a server copy the app couldn't open", async () => {
+    const broken = { ...data(), cases: [{ ...baseCase(), expenses: undefined }], version: SCHEMA_VERSION };
+    const pushed = serve(broken);
+    await assert.rejects(syncWorkspace(s, data()), /case|expenses: expected a list/);
+    assert.deepEqual(pushed, []);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeCategory, renameCategory, resolveCategory, type Taxonomy } from "../src/taxonomy";
+import { baseCase, expense } from "./fixtures";
+
+const taxonomy: Taxonomy = [
+  { name: "Travel", subs: [{ name: "Flights" }, { name: "Taxis" }] },
+  { name: "Medical", subs: [{ name: "Screening" }] },
+  { name: "Misc", subs: [] },
+];
+const c = baseCase({
+  expenses: [expense("e-1", "2026-03-02", 42, { category: "Travel", subCategory: "Taxis" }), expense("e-2", "2026-03-03", 300, { category: "Travel", subCategory: "Flights" })],
+  categoryBudgets: { "Travel › Taxis": 100, "Travel › Flights": 900, Misc: 50 },
+});
+const categories = (cases: (typeof c)[]) => cases[0].expenses.map((e) => [e.category, e.subCategory]);
+
+describe("renameCategory", () => {
+  it("renames a subcategory on expenses and budgets and remembers the old name", () => {
+    const renamed = renameCategory(taxonomy, [c], { main: "Travel", sub: "Taxis" }, "Ground Transport");
+    assert.deepEqual(categories(renamed.cases), [["Travel", "Ground Transport"], ["Travel", "Flights"]]);
+    assert.deepEqual(renamed.cases[0].categoryBudgets, { "Travel › Ground Transport": 100, "Travel › Flights": 900, Misc: 50 });
+    assert.deepEqual(resolveCategory(renamed.taxonomy, { main: "Travel", sub: "Taxis" }), { main: "Travel", sub: "Ground Transport" });
+  });
+
+  it("renames a main category with its subcategories' keys", () => {
+    const renamed = renameCategory(taxonomy, [c], { main: "Travel" }, "Transport");
+    assert.deepEqual(categories(renamed.cases), [["Transport", "Taxis"], ["Transport", "Flights"]]);
+    assert.deepEqual(renamed.cases[0].categoryBudgets, { "Transport › Taxis": 100, "Transport › Flights": 900, Misc: 50 });
+    assert.deepEqual(resolveCategory(renamed.taxonomy, { main: "Travel", sub: "Flights" }), { main: "Transport", sub: "Flights" });
+  });
+});
+
+describe("mergeCategory", () => {
+  it("folds a subcategory into another, adding up their budgets", () => {
+    const merged = mergeCategory(taxonomy, [c], { main: "Travel", sub: "Taxis" }, { main: "Travel", sub: "Flights" });
+    assert.deepEqual(categories(merged.cases), [["Travel", "Flights"], ["Travel", "Flights"]]);
+    assert.deepEqual(merged.cases[0].categoryBudgets, { "Travel › Flights": 1000, Misc: 50 });
+    assert.deepEqual(merged.taxonomy[0].subs.map((s) => s.name), ["Flights"]);
+    assert.deepEqual(resolveCategory(merged.taxonomy, { main: "Travel", sub: "Taxis" }), { main: "Travel", sub: "Flights" });
+  });
+
+  it("folds a subcategory straight into a main category", () => {
+    const merged = mergeCategory(taxonomy, [c], { main: "Travel", sub: "Taxis" }, { main: "Misc" });
+    assert.deepEqual(categories(merged.cases), [["Misc", undefined], ["Travel", "Flights"]]);
+    assert.deepEqual(merged.cases[0].categoryBudgets, { Misc: 150, "Travel › Flights": 900 });
+    assert.deepEqual(resolveCategory(merged.taxonomy, { main: "Travel", sub: "Taxis" }), { main: "Misc" });
+  });
+
+  it("folds a main category into another, bringing its subcategories", () => {
+    const merged = mergeCategory(taxonomy, [c], { main: "Travel" }, { main: "Medical" });
+    assert.deepEqual(merged.taxonomy.map((m) => [m.name, m.subs.map((s) => s.name)]), [["Medical", ["Screening", "Flights", "Taxis"]], ["Misc", []]]);
+    assert.deepEqual(categories(merged.cases), [["Medical", "Taxis"], ["Medical", "Flights"]]);
+    assert.deepEqual(resolveCategory(merged.taxonomy, { main: "Travel", sub: "Taxis" }), { main: "Medical", sub: "Taxis" });
+  });
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { caseIssues, recordIssues } from "../src/validate";
+import { baseCase, expense } from "./fixtures";
+
+describe("caseIssues", () => {
+  it("passes a complete case", () => {
+    assert.deepEqual(caseIssues(baseCase({ expenses: [expense("e-1", "2026-03-02", 80)] })), []);
+  });
+
+  it("reports missing record lists and records that don't fit", () => {
+    assert.deepEqual(caseIssues({ ...baseCase(), expenses: undefined }), [{ path: "case.expenses", message: "expected a list" }]);
+    const wrongAmount = baseCase({ expenses: [{ ...expense("e-1", "2026-03-02", 0), amount: "80" as unknown as number }] });
+    assert.deepEqual(caseIssues(wrongAmount), [{ path: "case.expenses[0].amount", message: "expected a number" }]);
+  });
+});
+
+describe("recordIssues", () => {
+  it("checks an expense or payment on its own", () => {
+    assert.deepEqual(recordIssues("expenses", expense("e-1", "2026-03-02", 80)), []);
+    assert.deepEqual(recordIssues("payments", { id: "p-1", dueDate: "2026-03-31", amount: 10, accountId: "a", status: "paid" }), [
+      { path: "payment.status", message: "expected one of upcoming, completed" },
+    ]);
+  });
+});